@@ -0,0 +1,27 @@
+import nextJest from 'next/jest.js';
+
+// next/jest compiles TypeScript with the same SWC setup as the app
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+    // The equation parser's chevrotain ships only ES modules; its single-file bundle needs no
+    // other package from node_modules
+    '^chevrotain$': '<rootDir>/node_modules/chevrotain/lib/chevrotain.mjs',
+  },
+};
+
+// next/jest leaves node_modules untransformed, bar Next's own packages; let it compile the
+// chevrotain bundle as well
+const jestConfig = async () => {
+  const resolved = await createJestConfig(config)();
+  return {
+    ...resolved,
+    transformIgnorePatterns: ['/node_modules/(?!chevrotain/)', '^.+\\.module\\.(css|sass|scss)$'],
+  };
+};
+
+export default jestConfig;
@@ -8,121 +8,39 @@ import { ThreeJsFractalRenderer } from '@/components/fractals/ThreeJsFractalRend
 import { CompactControls } from '@/components/fractals/compact-controls';
 import { ParameterControls } from '@/components/fractals/parameter-controls';
 import { AnimationControls } from '@/components/fractals/animation-controls';
-import { MaterialKey } from '@/lib/webgl/shader-materials';
+import { EquationDisplay } from '@/components/fractals/equation-display';
+import { DimensionPlot } from '@/components/fractals/dimension-plot';
+import { JuliaPicker } from '@/components/fractals/julia-picker';
+import { InverseIterationMode, InverseIterationOverlay } from '@/components/fractals/inverse-iteration-overlay';
+import { BuddhabrotCanvas } from '@/components/fractals/buddhabrot-canvas';
+import { ToneMapping } from '@/lib/render/buddhabrot';
+import { EquationVariable, parseEquation } from '@/lib/math/equation-parser';
+import { Complex } from '@/lib/math/complex';
+import { DEFAULT_NEWTON_EQUATION } from '@/lib/webgl/shader-materials';
+import { FRACTAL_FORMULAS, FormulaInputs, FractalViewport, iterateFormula, smoothIterations } from '@/lib/fractals/formula-registry';
+import { findMisiurewicz, findNucleus, MandelbrotFeature } from '@/lib/fractals/feature-finder';
+import { RayOverlay, RayOverlayOptions, RayPlane, rayPlaneFor } from '@/lib/fractals/external-rays';
+import { perturbationKind } from '@/lib/fractals/perturbation';
+import { BoundaryOptions, DimensionEstimate } from '@/lib/analysis/box-counting';
+import { AreaEstimate, areaRegion, DEFAULT_AREA_SEED } from '@/lib/analysis/monte-carlo-area';
+import type { AreaJob } from '@/lib/analysis/monte-carlo-area.worker';
+import { formatViewport, panViewport, parseViewport, PreciseViewport, viewportCenter, viewportFromNumbers } from '@/lib/math/precise-viewport';
 import { ALL_PALETTES, DEFAULT_PALETTE, PaletteName } from '@/lib/utils/palettes';
+import { ColoringMode, DEFAULT_AVERAGING, DEFAULT_ORBIT_TRAP, ORBIT_TRAP_SHAPE_LABELS, ORBIT_TRAP_SHAPES, OrbitTrap, OrbitTrapShape } from '@/lib/utils/color-utils';
+import { OrbitTrapHandles } from '@/components/fractals/orbit-trap-handles';
 import { FractalSynth } from '@/lib/audio/fractal-synth';
 import { MdArrowBack, MdCameraAlt, MdVisibility, MdVisibilityOff, MdClose, MdTune, MdShowChart, MdKeyboard } from 'react-icons/md';
 
-interface FractalViewport {
-  x: number;
-  y: number;
-  zoom: number;
-}
-
-// Fractal presets with parameterization
-interface PresetConfig {
-  label: string;
-  equation: string;
-  defaultIterations: number;
-  materialKey: MaterialKey;
-  viewport?: FractalViewport;
-  showZ?: boolean;
-  showC?: boolean;
-  showX?: boolean;
-  [key: string]: unknown;
-}
+// Stratified rounds of the area estimate before it stops by itself
+const AREA_ROUNDS = 1024;
 
-const PRESET_EQUATIONS: Record<string, PresetConfig> = {
-  mandelbrot: { 
-    label: 'Mandelbrot', 
-    equation: 'z_{n+1} = z_n^x + c',
-    defaultIterations: 75, 
-    materialKey: 'normal',
-    showZ: true,
-    showC: false,
-    showX: true
-  },
-  burningship: { 
-    label: 'Burning Ship', 
-    equation: 'z_{n+1} = (|\\text{Re}(z_n)| + i|\\text{Im}(z_n)|)^x + c',
-    defaultIterations: 75, 
-    materialKey: 'burningShip',
-    showZ: true,
-    showC: false,
-    showX: true
-  },
-  burningship_semi: { 
-    label: 'Semi Burning Ship', 
-    equation: 'z_{n+1} = (|\\text{Re}(z_n)| + i \\cdot \\text{Im}(z_n))^x + c',
-    defaultIterations: 75, 
-    materialKey: 'semi',
-    showZ: true,
-    showC: false,
-    showX: true
-  },
-  julia: { 
-    label: 'Julia Set', 
-    equation: 'z_{n+1} = z_n^x + c',
-    defaultIterations: 75, 
-    materialKey: 'julia',
-    showZ: false,
-    showC: true,
-    showX: true
-  },
-  tricorn: { 
-    label: 'Tricorn (Mandelbar)', 
-    equation: 'z_{n+1} = \\overline{z_n}^2 + c',
-    defaultIterations: 75, 
-    materialKey: 'tricorn',
-    showZ: false,
-    showC: false,
-    showX: false
-  },
-  newton: { 
-    label: "Newton's Fractal", 
-    equation: "z_{n+1} = z_n - \\frac{f(z_n)}{f'(z_n)}",
-    defaultIterations: 75, 
-    materialKey: 'newton',
-    showZ: false,
-    showC: false,
-    showX: false
-  },
-  collatz: { 
-    label: 'Collatz Spiral', 
-    equation: 'z \\cdot \\cos^2(\\pi z a) + \\frac{3z+1}{2} \\cdot \\sin^2(\\pi z a)',
-    defaultIterations: 100, 
-    materialKey: 'collatz', 
-    viewport: { x: 0, y: 0, zoom: 3.0 },
-    showZ: false,
-    showC: true,
-    showX: false
-  },
-  magnet: { 
-    label: 'Magnet (Galaxy)', 
-    equation: 'z_{n+1} = \\left(\\frac{z_n^2 + c - 1}{2z_n + c - 2}\\right)^2',
-    defaultIterations: 100, 
-    materialKey: 'magnet', 
-    viewport: { x: 1.5, y: 0, zoom: 2.5 },
-    showZ: false,
-    showC: false,
-    showX: false
-  },
-  spiral: { 
-    label: 'Logarithmic Spiral', 
-    equation: 'z_{n+1} = z_n^x \\cdot e^{a+bi}',
-    defaultIterations: 100, 
-    materialKey: 'spiral', 
-    viewport: { x: 0, y: 0, zoom: 2.0 },
-    showZ: false,
-    showC: true,  // a=growth, b=rotation
-    showX: true   // power
-  }
-};
+// Formulas whose shaders follow the orbit through an orbit trap
+const ORBIT_TRAP_FORMULAS = ['mandelbrot', 'julia', 'burningship', 'burningship_semi', 'tricorn', 'custom'];
 
 export default function FractalExplorer() {
   // Material/renderer state
-  const [currentMaterial, setCurrentMaterial] = useState<MaterialKey>('normal');
   const [currentPresetKey, setCurrentPresetKey] = useState<string>('mandelbrot');
+  const formula = FRACTAL_FORMULAS[currentPresetKey];
   const [windowSize, setWindowSize] = useState({ width: 0, height: 0 });
 
   // Complex parameter state
@@ -136,6 +54,11 @@ export default function FractalExplorer() {
   // Core state
   const [maxIterations, setMaxIterations] = useState<number>(75);
   const [palette, setPalette] = useState<PaletteName>(DEFAULT_PALETTE);
+  const [coloring, setColoring] = useState<ColoringMode>('escape-time');
+  const [orbitTrap, setOrbitTrap] = useState<OrbitTrap>(DEFAULT_ORBIT_TRAP);
+  const [trapImage, setTrapImage] = useState<HTMLImageElement | null>(null);
+  const [stripeDensity, setStripeDensity] = useState<number>(DEFAULT_AVERAGING.stripeDensity);
+  const [averageBlend, setAverageBlend] = useState<number>(DEFAULT_AVERAGING.blend);
   const [autoIters, setAutoIters] = useState<boolean>(false);
   const [autoTone, setAutoTone] = useState<boolean>(false);
   const [gamma, setGamma] = useState<number>(0.35); // Low gamma for thick borders
@@ -145,12 +68,75 @@ export default function FractalExplorer() {
   const [interiorEnabled, setInteriorEnabled] = useState<boolean>(false);
   const [bands, setBands] = useState<number>(0);
   const [power, setPower] = useState<number>(2.0);
+  const [customEquation, setCustomEquation] = useState<string>('z^3 + sin(c)');
+  const parsedEquation = useMemo(() => parseEquation(customEquation), [customEquation]);
+  const [newtonEquation, setNewtonEquation] = useState<string>(DEFAULT_NEWTON_EQUATION);
+  const [newtonRelaxation, setNewtonRelaxation] = useState<number>(1.0);
+  const parsedNewtonEquation = useMemo(() => parseEquation(newtonEquation), [newtonEquation]);
+  const [substituteValues, setSubstituteValues] = useState<boolean>(false);
+
+  // Parameters declared in the active equation (`a: real [0, 1] = 0.25; ...`) and their slider values
+  const declaredParameters = useMemo((): EquationVariable[] => {
+    const parsed = formula.equationKind === 'iteration' ? parsedEquation : formula.equationKind === 'newton' ? parsedNewtonEquation : null;
+    return parsed?.variables.filter((variable) => variable.declared) ?? [];
+  }, [formula, parsedEquation, parsedNewtonEquation]);
+  // Typed equation for the active formula, if it has one
+  const activeEquation = formula.equationKind === 'newton' ? newtonEquation : formula.equationKind === 'iteration' ? customEquation : undefined;
+  const [parameterValues, setParameterValues] = useState<Record<string, Complex>>({});
+  const parameterSignaturesRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    // Reset a parameter to its default only when its declaration changes, so editing
+    // the iteration body keeps slider positions
+    const changed = declaredParameters.filter((param) => {
+      const signature = `${param.type}[${param.min},${param.max}]=${param.default},${param.defaultImag ?? 0}`;
+      if (parameterSignaturesRef.current[param.name] === signature) return false;
+      parameterSignaturesRef.current[param.name] = signature;
+      return true;
+    });
+    if (changed.length === 0) return;
+    setParameterValues((values) => ({
+      ...values,
+      ...Object.fromEntries(changed.map((param) => [param.name, { re: param.default, im: param.defaultImag ?? 0 }])),
+    }));
+  }, [declaredParameters]);
+  const handleParameterChange = useCallback((name: string, value: Complex) => {
+    setParameterValues((values) => ({ ...values, [name]: value }));
+  }, []);
 
-  // Viewport state
-  const [viewport, setViewport] = useState<FractalViewport>({ x: -0.8, y: 0, zoom: 1.5 });
+  // Viewport state: exact centre for the renderer and location strings, doubles for the overlays
+  const [preciseViewport, setPreciseViewport] = useState<PreciseViewport>(() => {
+    const { x, y, zoom } = FRACTAL_FORMULAS.mandelbrot.viewport;
+    return viewportFromNumbers(x, y, zoom);
+  });
+  const viewport = useMemo<FractalViewport>(
+    () => ({ ...viewportCenter(preciseViewport), zoom: preciseViewport.zoom }),
+    [preciseViewport]
+  );
+  const [locationText, setLocationText] = useState<string>('');
+  const [locationError, setLocationError] = useState<boolean>(false);
+  const [flyTarget, setFlyTarget] = useState<PreciseViewport | null>(null);
+
+  // Feature finder: nearest minibrot nucleus or Misiurewicz point to the view centre
+  const [featureKind, setFeatureKind] = useState<MandelbrotFeature['kind']>('nucleus');
+  const [featurePeriod, setFeaturePeriod] = useState<string>(''); // blank: detect the period
+  const [featurePreperiod, setFeaturePreperiod] = useState<string>('2');
+  const [foundFeature, setFoundFeature] = useState<MandelbrotFeature | null>(null);
+  const [featureNotFound, setFeatureNotFound] = useState<boolean>(false);
+
+  // Box-counting dimension of the set's boundary in the current view, measured in a worker
+  const [dimensionEstimate, setDimensionEstimate] = useState<DimensionEstimate | null>(null);
+  const [dimensionStatus, setDimensionStatus] = useState<'idle' | 'measuring' | 'failed'>('idle');
+  const dimensionWorkerRef = useRef<Worker | null>(null);
+
+  // Monte Carlo area of the set, or of the filled Julia set at c, refined in a worker until stopped
+  const [areaEstimate, setAreaEstimate] = useState<AreaEstimate | null>(null);
+  const [areaSeed, setAreaSeed] = useState<string>(String(DEFAULT_AREA_SEED));
+  const areaWorkerRef = useRef<Worker | null>(null);
+  const [areaRunning, setAreaRunning] = useState<boolean>(false);
 
   // Rendering stats
   const [fps, setFps] = useState<number>(60);
+  const [skippedIterations, setSkippedIterations] = useState<number>(0); // deep-zoom series approximation
 
   // UI visibility states for collapsible panels
   const [showParameters, setShowParameters] = useState<boolean>(true);
@@ -174,6 +160,27 @@ export default function FractalExplorer() {
   const [trajectoryEnabled, setTrajectoryEnabled] = useState<boolean>(false);
   const [trajectoryPoints, setTrajectoryPoints] = useState<{x: number; y: number; complexX: number; complexY: number}[]>([]);
 
+  // Mandelbrot map beside the Julia set for choosing c
+  const [juliaPickerEnabled, setJuliaPickerEnabled] = useState<boolean>(true);
+
+  // Julia set point cloud by modified inverse iteration, for the thin parts escape time misses
+  const [inverseIterationEnabled, setInverseIterationEnabled] = useState<boolean>(false);
+  const [inverseIterationMode, setInverseIterationMode] = useState<InverseIterationMode>('over');
+  const [inverseIterationBudget, setInverseIterationBudget] = useState<number>(1000000);
+  const [inverseIterationDepth, setInverseIterationDepth] = useState<number>(200);
+
+  // Buddhabrot in place of the Mandelbrot shader; the Nebulabrot's red limit is maxIterations
+  const [buddhabrotEnabled, setBuddhabrotEnabled] = useState<boolean>(false);
+  const [nebulabrotEnabled, setNebulabrotEnabled] = useState<boolean>(false);
+  const [nebulaLimits, setNebulaLimits] = useState<[number, number]>([50, 10]);
+  const [buddhabrotTone, setBuddhabrotTone] = useState<ToneMapping>('log');
+  const [buddhabrotSamples, setBuddhabrotSamples] = useState<number>(0);
+
+  // External rays and equipotentials overlay: comma-separated angles and potential levels
+  const [raysEnabled, setRaysEnabled] = useState<boolean>(false);
+  const [rayAngles, setRayAngles] = useState<string>('1/3, 2/3, 1/7, .0(01)');
+  const [rayPotentials, setRayPotentials] = useState<string>('1, 0.25, 0.05');
+
   // Initialize window size on mount
   useEffect(() => {
     const updateSize = () => {
@@ -253,54 +260,155 @@ export default function FractalExplorer() {
 
   // Handle preset selection - keeps current viewport and parameters
   const handlePresetSelect = (presetKey: string) => {
-    const preset = PRESET_EQUATIONS[presetKey];
-    if (!preset) return;
+    if (!FRACTAL_FORMULAS[presetKey]) return;
 
     // Stop sonic playback to prevent glitching during preset change
     if (synthRef.current && sonicEnabled) {
       synthRef.current.stopAll();
     }
 
-    // Track current preset
+    // Track current preset; the renderer only rebuilds its material when the formula changes
     setCurrentPresetKey(presetKey);
 
-    // Only change material if different to avoid reinitialization
-    if (preset.materialKey !== currentMaterial) {
-      setCurrentMaterial(preset.materialKey);
-    }
-    
     // Don't reset iterations - keep current value
     // Don't reset viewport - keep current view
     // Don't reset parameters - keep current z, c, x values
     // User can explicitly reset with the Reset button if they want defaults
   };
 
+  // Copy the exact viewport; the text field keeps it too, for browsers without clipboard access
+  const handleCopyLocation = () => {
+    const text = formatViewport(preciseViewport);
+    setLocationText(text);
+    setLocationError(false);
+    navigator.clipboard?.writeText(text).catch(() => {});
+  };
+
+  const handleGoToLocation = () => {
+    const parsed = parseViewport(locationText);
+    if (!parsed) {
+      setLocationError(true);
+      return;
+    }
+    setPreciseViewport(parsed);
+    if (trajectoryEnabled) setTrajectoryPoints([]);
+  };
+
+  // The finder solves z^2 + c from 0, so it needs the classic Mandelbrot
+  const featureFinderAvailable = perturbationKind(formula, { re: xReal, im: xImag }) === 'mandelbrot' && zReal === 0 && zImag === 0;
+
+  const handleFindFeature = () => {
+    const parseCount = (text: string) => {
+      const value = Number(text);
+      return text.trim() !== '' && Number.isInteger(value) && value > 0 ? value : null;
+    };
+    const period = parseCount(featurePeriod);
+    const preperiod = parseCount(featurePreperiod);
+    // Search in parameter space: the c slider shifts every pixel's c
+    const origin = panViewport(preciseViewport, cReal, cImag);
+    let found: MandelbrotFeature | null = null;
+    if (featureKind === 'nucleus') found = findNucleus(origin, period ? { period } : {});
+    else if (period && preperiod) found = findMisiurewicz(origin, preperiod, period);
+
+    setFoundFeature(found);
+    setFeatureNotFound(!found);
+    if (!found) return;
+    const target = panViewport(found.viewport, -cReal, -cImag);
+    setFlyTarget(target);
+    setLocationText(formatViewport(target));
+    setLocationError(false);
+    if (trajectoryEnabled) setTrajectoryPoints([]);
+  };
+
+  const handleMeasureDimension = () => {
+    dimensionWorkerRef.current?.terminate();
+    const worker = new Worker(new URL('../../lib/analysis/box-counting.worker.ts', import.meta.url), { type: 'module' });
+    dimensionWorkerRef.current = worker;
+    setDimensionStatus('measuring');
+    worker.addEventListener('message', (event: MessageEvent<DimensionEstimate | null>) => {
+      worker.terminate();
+      if (dimensionWorkerRef.current !== worker) return;
+      dimensionWorkerRef.current = null;
+      setDimensionEstimate(event.data);
+      setDimensionStatus(event.data ? 'idle' : 'failed');
+    });
+    const options: BoundaryOptions = {
+      formulaKey: formula.key,
+      inputs: formulaInputs,
+      viewport,
+      aspect: windowSize.width / windowSize.height,
+      maxIterations,
+    };
+    worker.postMessage(options);
+  };
+
+  const handleToggleArea = () => {
+    areaWorkerRef.current?.terminate();
+    areaWorkerRef.current = null;
+    if (areaRunning) {
+      setAreaRunning(false);
+      return;
+    }
+    const worker = new Worker(new URL('../../lib/analysis/monte-carlo-area.worker.ts', import.meta.url), { type: 'module' });
+    areaWorkerRef.current = worker;
+    setAreaEstimate(null);
+    setAreaRunning(true);
+    worker.addEventListener('message', (event: MessageEvent<AreaEstimate | null>) => {
+      if (areaWorkerRef.current !== worker) return;
+      setAreaEstimate(event.data);
+      if (event.data && event.data.rounds < AREA_ROUNDS) return;
+      worker.terminate();
+      areaWorkerRef.current = null;
+      setAreaRunning(false);
+    });
+    const seed = Number(areaSeed);
+    const job: AreaJob = {
+      formulaKey: formula.key,
+      inputs: formulaInputs,
+      seed: Number.isInteger(seed) ? seed : DEFAULT_AREA_SEED,
+      rounds: AREA_ROUNDS,
+    };
+    worker.postMessage(job);
+  };
+
+  // Stop analyses still running when the page goes away
+  useEffect(() => () => {
+    dimensionWorkerRef.current?.terminate();
+    areaWorkerRef.current?.terminate();
+  }, []);
+
+  // Inverse iteration follows the two square-root branches of z^2 + c
+  const inverseIterationAvailable = formula.key === 'julia' && xReal === 2 && xImag === 0;
+  const buddhabrotAvailable = formula.key === 'mandelbrot';
+  const orbitTrapActive = coloring === 'orbit-trap' && ORBIT_TRAP_FORMULAS.includes(formula.key);
+
+  // Load a picture for the image trap; it is drawn over the trap's square
+  const handleTrapImage = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      setTrapImage(image);
+      setOrbitTrap((trap) => ({ ...trap, shape: 'image' }));
+    };
+    image.onerror = () => URL.revokeObjectURL(url);
+    image.src = url;
+  };
+  const buddhabrotLimits = nebulabrotEnabled ? [maxIterations, ...nebulaLimits] : [maxIterations];
+
   // Handle reset - returns to current preset's default view AND parameters
   const handleReset = () => {
-    const preset = PRESET_EQUATIONS[currentPresetKey];
-    if (preset) {
-      // Reset to preset's default viewport
-      const defaultViewport: FractalViewport = preset.viewport || { x: -0.8, y: 0, zoom: 1.5 };
-      setViewport(defaultViewport);
-      setMaxIterations(preset.defaultIterations);
-      
-      // Reset all parameters to defaults
-      setZReal(0.0);
-      setZImag(0.0);
-      setCReal(0.0);
-      setCImag(0.0);
-      setXReal(2.0);
-      setXImag(0.0);
-    } else {
-      // Fallback for custom equations
-      setViewport({ x: -0.8, y: 0, zoom: 1.5 });
-      setZReal(0.0);
-      setZImag(0.0);
-      setCReal(0.0);
-      setCImag(0.0);
-      setXReal(2.0);
-      setXImag(0.0);
-    }
+    // Reset to the formula's default viewport
+    setPreciseViewport(viewportFromNumbers(formula.viewport.x, formula.viewport.y, formula.viewport.zoom));
+    setMaxIterations(formula.defaultIterations);
+
+    // Reset all parameters to defaults
+    setZReal(0.0);
+    setZImag(0.0);
+    setCReal(0.0);
+    setCImag(0.0);
+    setXReal(2.0);
+    setXImag(0.0);
   };
 
   // FPS counter update
@@ -333,10 +441,7 @@ export default function FractalExplorer() {
       return;
     }
 
-    const activePreset = PRESET_EQUATIONS[currentPresetKey];
-    const shouldAnimateC = activePreset?.showC ?? false;
-    const shouldAnimateX = activePreset?.showX ?? false;
-    const shouldAnimateZ = activePreset?.showZ ?? false;
+    const { c: shouldAnimateC, x: shouldAnimateX, z: shouldAnimateZ } = FRACTAL_FORMULAS[currentPresetKey].sliders;
 
     // Capture starting values when animation begins
     if (!animationStartRef.current) {
@@ -400,6 +505,37 @@ export default function FractalExplorer() {
     });
   }, [currentPresetKey]);
 
+  // Slider values and typed equation for CPU iteration of the active formula
+  const formulaInputs = useMemo((): FormulaInputs => ({
+    z: { re: zReal, im: zImag },
+    c: { re: cReal, im: cImag },
+    x: { re: xReal, im: xImag },
+    n: power,
+    params: parameterValues,
+    equation: activeEquation,
+    relaxation: newtonRelaxation,
+  }), [zReal, zImag, cReal, cImag, xReal, xImag, power, parameterValues, activeEquation, newtonRelaxation]);
+
+  // Rays and equipotentials in plane coordinates, so they follow pans for free; they are
+  // retraced to a pixel's resolution once per octave of zoom. Tracing runs in a worker, and a
+  // change of inputs drops the trace in flight; the last overlay stays up until the next lands.
+  const rayPlane = useMemo(() => rayPlaneFor(formula, formulaInputs), [formula, formulaInputs]);
+  const rayOctave = windowSize.height > 0 ? Math.round(Math.log2((2 * viewport.zoom) / windowSize.height)) : 0;
+  const [tracedRays, setTracedRays] = useState<{ plane: RayPlane; overlay: RayOverlay } | null>(null);
+  useEffect(() => {
+    if (!raysEnabled || !rayPlane) return;
+    const worker = new Worker(new URL('../../lib/fractals/external-rays.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<RayOverlay>) => {
+      worker.terminate();
+      setTracedRays({ plane: rayPlane, overlay: event.data });
+    });
+    const options: RayOverlayOptions = { plane: rayPlane, angles: rayAngles, potentials: rayPotentials, resolution: 2 ** rayOctave };
+    worker.postMessage(options);
+    return () => worker.terminate();
+  }, [raysEnabled, rayPlane, rayOctave, rayAngles, rayPotentials]);
+  // A Mandelbrot trace is no use over a Julia set, or the other way round
+  const rayOverlay = raysEnabled && rayPlane && tracedRays?.plane.kind === rayPlane.kind ? tracedRays.overlay : null;
+
   // Handle canvas clicks for sonic playback and trajectory visualization
   const handleCanvasClick = useCallback((normalizedX: number, normalizedY: number, complexX: number, complexY: number) => {
     // Check if we should do anything
@@ -408,266 +544,19 @@ export default function FractalExplorer() {
     
     if (!shouldPlaySonic && !shouldShowTrajectory) return;
 
-    let x = 0;
-    let y = 0;
-    let iteration = 0;
-    let c_real = complexX;
-    let c_imag = complexY;
-
     // Trajectory collection - limit to reasonable number of points
     const maxTrajectoryPoints = Math.min(maxIterations, 200);
     const trajectory: {x: number; y: number; complexX: number; complexY: number}[] = [];
 
-    // Set up initial values based on fractal type
-    switch (currentMaterial) {
-      case 'julia':
-        x = complexX;
-        y = complexY;
-        c_real = cReal;
-        c_imag = cImag;
-        break;
-      
-      case 'burningShip':
-      case 'semi':
-        // Burning Ship variants: z starts at z_slider, c = click_position (y negated to match shader)
-        x = zReal;
-        y = zImag;
-        c_real = complexX;
-        c_imag = -complexY; // Shader negates y
-        break;
-
-      case 'tricorn':
-        x = 0;
-        y = 0;
-        c_real = complexX;
-        c_imag = complexY;
-        break;
-
-      case 'collatz':
-        // Collatz Spiral: z = click position (like Julia)
-        x = complexX;
-        y = complexY;
-        c_real = cReal;  // Not used directly, but cReal/cImag affect the formula
-        c_imag = cImag;
-        break;
-
-      case 'magnet':
-        // Magnet: z starts at 0, c = click position
-        x = 0;
-        y = 0;
-        c_real = complexX;
-        c_imag = complexY;
-        break;
-
-      case 'spiral':
-        // Logarithmic Spiral: z = click position
-        x = complexX;
-        y = complexY;
-        c_real = cReal;
-        c_imag = cImag;
-        break;
-
-      case 'newton':
-        x = complexX;
-        y = complexY;
-        break;
-
-      default:
-        // Mandelbrot: z starts at z_slider, c = click_position + c_slider (matches shader)
-        x = zReal;
-        y = zImag;
-        c_real = complexX + cReal;
-        c_imag = complexY + cImag;
-    }
-
-    // Add starting point to trajectory
-    if (shouldShowTrajectory) {
-      trajectory.push({ x: normalizedX, y: normalizedY, complexX: x, complexY: y });
-    }
-
-    // Helper to add trajectory point (converts complex coords to screen coords)
-    const addTrajectoryPoint = (cx: number, cy: number) => {
-      if (!shouldShowTrajectory || trajectory.length >= maxTrajectoryPoints) return;
-      trajectory.push({ x: 0, y: 0, complexX: cx, complexY: cy });
-    };
-
-    // Complex power function for parameterized exponents
-    const cpow = (zr: number, zi: number, wr: number, wi: number): [number, number] => {
-      const zMag = Math.sqrt(zr * zr + zi * zi);
-      if (zMag < 1e-10) return [0, 0];
-      const theta = Math.atan2(zi, zr);
-      const lnR = Math.log(zMag);
-      const realPart = wr * lnR - wi * theta;
-      const imagPart = wi * lnR + wr * theta;
-      const expReal = Math.exp(Math.max(-50, Math.min(50, realPart)));
-      return [expReal * Math.cos(imagPart), expReal * Math.sin(imagPart)];
-    };
-
-    // Iterate based on fractal type
-    if (currentMaterial === 'burningShip') {
-      // Burning Ship: z = (|Re(z)| + i|Im(z)|)^x + c
-      while (x * x + y * y <= 256 && iteration < maxIterations) {
-        const absX = Math.abs(x);
-        const absY = Math.abs(y);
-        const [px, py] = cpow(absX, absY, xReal, xImag);
-        x = px + c_real;
-        y = py + c_imag;
-        iteration++;
-        addTrajectoryPoint(x, y);
-      }
-    } else if (currentMaterial === 'semi') {
-      // Semi Burning Ship: only real part is absolute
-      while (x * x + y * y <= 256 && iteration < maxIterations) {
-        const absX = Math.abs(x);
-        const [px, py] = cpow(absX, y, xReal, xImag);
-        x = px + c_real;
-        y = py + c_imag;
-        iteration++;
-        addTrajectoryPoint(x, y);
-      }
-    } else if (currentMaterial === 'tricorn') {
-      while (x * x + y * y <= 256 && iteration < maxIterations) {
-        const xtemp = x * x - y * y + c_real;
-        y = -2 * x * y + c_imag;
-        x = xtemp;
-        iteration++;
-        addTrajectoryPoint(x, y);
-      }
-    } else if (currentMaterial === 'newton') {
-      for (let i = 0; i < maxIterations; i++) {
-        const x2 = x * x;
-        const y2 = y * y;
-        const x3_minus_3xy2 = x2 * x - 3 * x * y2;
-        const y3x2_minus_y3 = 3 * x2 * y - y2 * y;
-        
-        const fx = x3_minus_3xy2 - 1.0;
-        const fy = y3x2_minus_y3;
-        
-        const fpx = 3.0 * (x2 - y2);
-        const fpy = 3.0 * 2.0 * x * y;
-        
-        const denom = fpx * fpx + fpy * fpy;
-        if (denom < 1e-10) break;
-        
-        const divRe = (fx * fpx + fy * fpy) / denom;
-        const divIm = (fy * fpx - fx * fpy) / denom;
-        
-        x = x - divRe;
-        y = y - divIm;
-        addTrajectoryPoint(x, y);
-        
-        if (divRe * divRe + divIm * divIm < 1e-6) {
-          iteration = i;
-          break;
-        }
-        iteration = i + 1;
-      }
-    } else if (currentMaterial === 'collatz') {
-      // Collatz Spiral: smooth Collatz with rotation
-      const a = 0.25 + cReal * 0.5;
-      const b = cImag * Math.PI;
-      const cb = Math.cos(b), sb = Math.sin(b);
-      while (x * x + y * y <= 10000 && iteration < maxIterations) {
-        const piz = Math.PI * x * a;
-        const c2 = Math.cos(piz) ** 2;
-        const s2 = Math.sin(piz) ** 2;
-        const t1x = x * c2, t1y = y * c2;
-        const t2x = (3 * x + 1) * 0.5 * s2, t2y = (3 * y) * 0.5 * s2;
-        const zx = t1x + t2x, zy = t1y + t2y;
-        x = zx * cb - zy * sb;
-        y = zx * sb + zy * cb;
-        iteration++;
-        addTrajectoryPoint(x, y);
-      }
-    } else if (currentMaterial === 'magnet') {
-      // Magnet: z = [(z^2 + c - 1) / (2z + c - 2)]^2
-      const cdiv = (ar: number, ai: number, br: number, bi: number): [number, number] => {
-        const denom = br * br + bi * bi;
-        if (denom < 1e-10) return [1e10, 1e10];
-        return [(ar * br + ai * bi) / denom, (ai * br - ar * bi) / denom];
-      };
-      while (iteration < maxIterations) {
-        const z2r = x * x - y * y;
-        const z2i = 2 * x * y;
-        const numR = z2r + c_real - 1;
-        const numI = z2i + c_imag;
-        const denR = 2 * x + c_real - 2;
-        const denI = 2 * y + c_imag;
-        const [fracR, fracI] = cdiv(numR, numI, denR, denI);
-        // Square the fraction
-        x = fracR * fracR - fracI * fracI;
-        y = 2 * fracR * fracI;
-        iteration++;
-        addTrajectoryPoint(x, y);
-        // Check convergence to 1 or escape
-        const diffR = x - 1, diffI = y;
-        if (diffR * diffR + diffI * diffI < 1e-6) break;
-        if (x * x + y * y > 1000) break;
-      }
-    } else if (currentMaterial === 'spiral') {
-      // Logarithmic Spiral: z^p * e^(a+bi)
-      const growthRate = cReal * 0.1;
-      const rotationRate = 0.3 + cImag * 0.5;
-      const power = xReal;
-      const ea = Math.exp(growthRate);
-      const spiralReal = ea * Math.cos(rotationRate);
-      const spiralImag = ea * Math.sin(rotationRate);
-      while (iteration < maxIterations) {
-        // Apply z^power
-        let zpx = x, zpy = y;
-        if (Math.abs(power - 1) > 0.01) {
-          const r = Math.sqrt(x * x + y * y);
-          if (r > 1e-10) {
-            const theta = Math.atan2(y, x);
-            const newR = Math.pow(r, power);
-            const newTheta = theta * power;
-            zpx = newR * Math.cos(newTheta);
-            zpy = newR * Math.sin(newTheta);
-          }
-        }
-        // z = z^p * e^(a+bi)
-        x = zpx * spiralReal - zpy * spiralImag;
-        y = zpx * spiralImag + zpy * spiralReal;
-        iteration++;
-        addTrajectoryPoint(x, y);
-        const dist = Math.sqrt(x * x + y * y);
-        if (dist > 100 || dist < 0.0001) break;
-      }
-    } else if (currentMaterial === 'normal' || (xReal === 2 && xImag === 0)) {
-      while (x * x + y * y <= 256 && iteration < maxIterations) {
-        const xtemp = x * x - y * y + c_real;
-        y = 2 * x * y + c_imag;
-        x = xtemp;
-        iteration++;
-        addTrajectoryPoint(x, y);
-      }
-    } else {
-      while (x * x + y * y <= 256 && iteration < maxIterations) {
-        const zMag = Math.sqrt(x * x + y * y);
-        if (zMag < 1e-10) {
-          x = c_real;
-          y = c_imag;
-          iteration++;
-          addTrajectoryPoint(x, y);
-          continue;
-        }
-        
-        const zArg = Math.atan2(y, x);
-        const logZMag = Math.log(zMag);
-        
-        const realPart = xReal * logZMag - xImag * zArg;
-        const imagPart = xReal * zArg + xImag * logZMag;
-        
-        const expReal = Math.exp(realPart);
-        const newX = expReal * Math.cos(imagPart) + c_real;
-        const newY = expReal * Math.sin(imagPart) + c_imag;
-        
-        x = newX;
-        y = newY;
-        iteration++;
-        addTrajectoryPoint(x, y);
-      }
-    }
+    // Same start, step and stop tests as the formula's shader
+    const orbit = iterateFormula(formula, { re: complexX, im: complexY }, formulaInputs, maxIterations, (z, iteration) => {
+      if (!shouldShowTrajectory) return;
+      // The starting point is drawn at the click position
+      if (iteration === 0) trajectory.push({ x: normalizedX, y: normalizedY, complexX: z.re, complexY: z.im });
+      else if (trajectory.length < maxTrajectoryPoints) trajectory.push({ x: 0, y: 0, complexX: z.re, complexY: z.im });
+    });
+    if (!orbit) return;
+    const { iterations: iteration } = orbit;
 
     // Update trajectory state
     if (shouldShowTrajectory) {
@@ -676,23 +565,7 @@ export default function FractalExplorer() {
 
     // Play sound based on escape time (only if sonic enabled)
     if (shouldPlaySonic) {
-      let smoothValue = iteration;
-      if (iteration < maxIterations && currentMaterial !== 'newton') {
-        const zMagSq = x * x + y * y;
-        if (zMagSq > 1 && isFinite(zMagSq)) {
-          const logZn = Math.log(zMagSq) / 2;
-          if (logZn > 0) {
-            const nu = Math.log(logZn / Math.log(2)) / Math.log(2);
-            if (isFinite(nu)) {
-              smoothValue = iteration + 1 - nu;
-            }
-          }
-        }
-      }
-      
-      if (!isFinite(smoothValue) || smoothValue < 0) {
-        smoothValue = iteration;
-      }
+      const smoothValue = smoothIterations(orbit);
 
       if (iteration === maxIterations || iteration > maxIterations * 0.95) {
         synthRef.current!.playChord(iteration, maxIterations, normalizedX);
@@ -700,12 +573,30 @@ export default function FractalExplorer() {
         synthRef.current!.playPoint(iteration, maxIterations, normalizedX, smoothValue);
       }
     }
-  }, [sonicEnabled, trajectoryEnabled, currentMaterial, cReal, cImag, zReal, zImag, xReal, xImag, maxIterations]);
+  }, [sonicEnabled, trajectoryEnabled, formula, formulaInputs, maxIterations]);
+
+  // Slider values printed in the equations when substitution is on
+  const latexSubstitutions = useMemo(() => {
+    if (!substituteValues) return undefined;
+    const sliderValues: Record<string, Complex> = {
+      c: { re: cReal, im: cImag },
+      x: { re: xReal, im: xImag },
+      n: { re: power, im: 0 },
+    };
+    return {
+      ...Object.fromEntries(formula.sliders.symbols.map((symbol) => [symbol, sliderValues[symbol]])),
+      ...Object.fromEntries(declaredParameters.map((param) => [param.name, parameterValues[param.name]]).filter(([, value]) => value)),
+    };
+  }, [formula, substituteValues, cReal, cImag, xReal, xImag, power, declaredParameters, parameterValues]);
+
+  // Header equation, printed from the same AST the renderer compiles
+  const equationLatex = useMemo(
+    () => formula.latex({ equation: activeEquation, substitutions: latexSubstitutions, relaxation: newtonRelaxation }),
+    [formula, activeEquation, latexSubstitutions, newtonRelaxation]
+  );
 
   // Check if current preset has adjustable parameters
-  const hasAdjustableParameters = (PRESET_EQUATIONS[currentPresetKey]?.showZ || 
-                                   PRESET_EQUATIONS[currentPresetKey]?.showC || 
-                                   PRESET_EQUATIONS[currentPresetKey]?.showX) ?? false;
+  const hasAdjustableParameters = formula.sliders.z || formula.sliders.c || formula.sliders.x || declaredParameters.length > 0;
 
   // Generate axis numbers for complex plane overlay (memoized for performance)
   const axisNumbers = useMemo(() => {
@@ -782,10 +673,19 @@ export default function FractalExplorer() {
         <ThreeJsFractalRenderer
           width={windowSize.width}
           height={windowSize.height}
-          materialKey={currentMaterial}
-          initialViewport={viewport}
+          formula={formula}
+          customEquation={activeEquation}
+          relaxation={newtonRelaxation}
+          parameters={parameterValues}
+          initialViewport={preciseViewport}
+          flyTo={flyTarget}
           iterations={maxIterations}
           paletteName={palette}
+          coloring={coloring}
+          orbitTrap={orbitTrap}
+          trapImage={trapImage}
+          stripeDensity={stripeDensity}
+          averageBlend={averageBlend}
           autoAdjustIterations={autoIters}
           autoTone={autoTone}
           gamma={gamma}
@@ -802,14 +702,14 @@ export default function FractalExplorer() {
           xReal={xReal}
           xImag={xImag}
           onClick={handleCanvasClick}
-          onZoom={(zoomLevel) => {
-            setViewport((prev) => ({ ...prev, zoom: zoomLevel }));
+          onViewportChange={setPreciseViewport}
+          onSkippedIterations={setSkippedIterations}
+          onZoom={() => {
             handleFrameUpdate();
             // Clear trajectory on zoom
             if (trajectoryEnabled) setTrajectoryPoints([]);
           }}
-          onPan={(x, y) => {
-            setViewport((prev) => ({ ...prev, x, y }));
+          onPan={() => {
             handleFrameUpdate();
             // Clear trajectory on pan
             if (trajectoryEnabled) setTrajectoryPoints([]);
@@ -817,6 +717,45 @@ export default function FractalExplorer() {
         />
       )}
 
+      {/* Inverse iteration point cloud, over the Julia shader or in its place */}
+      {inverseIterationEnabled && inverseIterationAvailable && windowSize.width > 0 && (
+        <InverseIterationOverlay
+          width={windowSize.width}
+          height={windowSize.height}
+          viewport={viewport}
+          c={formulaInputs.c}
+          budget={inverseIterationBudget}
+          depth={inverseIterationDepth}
+          mode={inverseIterationMode}
+          paletteName={palette}
+        />
+      )}
+
+      {/* Buddhabrot or Nebulabrot, accumulated in workers in place of the shader */}
+      {buddhabrotEnabled && buddhabrotAvailable && windowSize.width > 0 && (
+        <BuddhabrotCanvas
+          width={windowSize.width}
+          height={windowSize.height}
+          viewport={viewport}
+          inputs={formulaInputs}
+          limits={buddhabrotLimits}
+          toneMapping={buddhabrotTone}
+          paletteName={palette}
+          onProgress={setBuddhabrotSamples}
+        />
+      )}
+
+      {/* Orbit trap outline with its move and resize handles */}
+      {orbitTrapActive && !hideAllUI && windowSize.width > 0 && (
+        <OrbitTrapHandles
+          width={windowSize.width}
+          height={windowSize.height}
+          viewport={viewport}
+          trap={orbitTrap}
+          onTrapChange={setOrbitTrap}
+        />
+      )}
+
       {/* Trajectory visualization overlay */}
       {trajectoryEnabled && trajectoryPoints.length > 1 && windowSize.width > 0 && (
         <svg
@@ -892,6 +831,45 @@ export default function FractalExplorer() {
         </svg>
       )}
 
+      {/* External rays and equipotentials overlay */}
+      {rayOverlay && windowSize.width > 0 && (() => {
+        const aspectRatio = windowSize.width / windowSize.height;
+        const toScreen = (pt: Complex) => ({
+          x: ((pt.re - viewport.x) / (viewport.zoom * aspectRatio) + 1) * 0.5 * windowSize.width,
+          y: (1 - (pt.im - viewport.y) / viewport.zoom) * 0.5 * windowSize.height,
+        });
+        // Rays start far off screen: drop points whose segments lie wholly out there
+        const far = (pt: { x: number; y: number }) => Math.abs(pt.x) > 1e5 || Math.abs(pt.y) > 1e5;
+        const pathOf = (points: Complex[]) => {
+          const screen = points.map(toScreen);
+          const kept = screen.filter((pt, i) => !far(pt) || (i + 1 < screen.length && !far(screen[i + 1])) || (i > 0 && !far(screen[i - 1])));
+          return kept.map((pt, i) => `${i === 0 ? 'M' : 'L'} ${pt.x} ${pt.y}`).join(' ');
+        };
+        return (
+          <svg
+            className="absolute inset-0 pointer-events-none z-5"
+            width={windowSize.width}
+            height={windowSize.height}
+            style={{ overflow: 'visible' }}
+          >
+            {rayOverlay.equipotentials.map((points, i) => (
+              <path key={`equipotential-${i}`} d={pathOf(points)} fill="none" stroke="rgba(250, 204, 21, 0.7)" strokeWidth="1.5" strokeLinejoin="round" />
+            ))}
+            {rayOverlay.rays.map((ray, i) => {
+              const end = toScreen(ray.points[ray.points.length - 1]);
+              return (
+                <g key={`ray-${i}`}>
+                  <path d={pathOf(ray.points)} fill="none" stroke="rgba(244, 114, 182, 0.85)" strokeWidth="1.5" strokeLinejoin="round" />
+                  <text x={end.x + 6} y={end.y - 6} fill="white" fontSize="11" fontFamily="monospace">
+                    {ray.label}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        );
+      })()}
+
       {/* Complex Plane Axis Numbers Overlay */}
       {!hideAllUI && interiorEnabled && windowSize.width > 0 && (
         <div className="absolute inset-0 pointer-events-none z-5">
@@ -1057,12 +1035,21 @@ export default function FractalExplorer() {
               >
                 <div className="flex items-center gap-3">
                   <span className="text-cyan-400 text-sm font-medium">
-                    {PRESET_EQUATIONS[currentPresetKey]?.label || 'Fractal'}
+                    {formula.label}
                   </span>
                   <div className="text-white text-sm">
-                    <InlineMath math={PRESET_EQUATIONS[currentPresetKey]?.equation || 'z_{n+1} = z_n^2 + c'} />
+                    <InlineMath math={equationLatex} />
                   </div>
                 </div>
+                {formula.sliders.symbols.length > 0 && (
+                  <button
+                    onClick={() => setSubstituteValues(!substituteValues)}
+                    title="Show the current slider values in the equation"
+                    className={`ml-auto px-2 h-6 text-[11px] rounded transition-colors ${substituteValues ? 'text-cyan-300 bg-cyan-500/20' : 'text-slate-500 hover:text-white hover:bg-slate-700/50'}`}
+                  >
+                    values
+                  </button>
+                )}
                 <button
                   onClick={() => setShowParameters(false)}
                   className="w-6 h-6 flex items-center justify-center text-slate-500 hover:text-white hover:bg-slate-700/50 rounded transition-colors"
@@ -1071,6 +1058,51 @@ export default function FractalExplorer() {
                 </button>
               </div>
 
+              {/* Custom equation editor */}
+              {formula.equationKind === 'iteration' && (
+                <div className="px-5 pt-4">
+                  <EquationDisplay
+                    equation={customEquation}
+                    onEquationChange={setCustomEquation}
+                    parsed={parsedEquation}
+                    substitutions={latexSubstitutions}
+                    power={power}
+                    onPowerChange={setPower}
+                  />
+                </div>
+              )}
+
+              {/* Newton f(z) editor */}
+              {formula.equationKind === 'newton' && (
+                <div className="px-5 pt-4 space-y-2">
+                  <EquationDisplay
+                    label="f(z) ="
+                    requireAnalytic
+                    iterate="z"
+                    placeholder="e.g., z^5 + c*z - 1, sin(z) - 1"
+                    equation={newtonEquation}
+                    onEquationChange={setNewtonEquation}
+                    parsed={parsedNewtonEquation}
+                    substitutions={latexSubstitutions}
+                    power={power}
+                    onPowerChange={setPower}
+                  />
+                  <div className="flex items-center gap-3">
+                    <label className="text-xs text-gray-300" title="Relaxed Newton: z - a f(z)/f'(z)">Relaxation a</label>
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={2}
+                      step={0.01}
+                      value={newtonRelaxation}
+                      onChange={(e) => setNewtonRelaxation(parseFloat(e.target.value))}
+                      className="flex-1 accent-cyan-500"
+                    />
+                    <span className="w-10 text-right text-xs text-cyan-400 font-mono">{newtonRelaxation.toFixed(2)}</span>
+                  </div>
+                </div>
+              )}
+
               {/* Parameters Row */}
               {hasAdjustableParameters && (
                 <div className="px-5 py-4 flex items-start gap-6">
@@ -1088,9 +1120,12 @@ export default function FractalExplorer() {
                     onCImagChange={setCImag}
                     onXRealChange={setXReal}
                     onXImagChange={setXImag}
-                    showZ={PRESET_EQUATIONS[currentPresetKey]?.showZ ?? false}
-                    showC={PRESET_EQUATIONS[currentPresetKey]?.showC ?? false}
-                    showX={PRESET_EQUATIONS[currentPresetKey]?.showX ?? false}
+                    showZ={formula.sliders.z}
+                    showC={formula.sliders.c}
+                    showX={formula.sliders.x}
+                    parameters={declaredParameters}
+                    parameterValues={parameterValues}
+                    onParameterChange={handleParameterChange}
                   />
 
                   {/* Divider */}
@@ -1139,7 +1174,7 @@ export default function FractalExplorer() {
             {/* Panel Content */}
             <div className="p-4">
               <CompactControls
-                presets={PRESET_EQUATIONS}
+                presets={FRACTAL_FORMULAS}
                 onPresetSelect={handlePresetSelect}
                 maxIterations={maxIterations}
                 onIterationsChange={setMaxIterations}
@@ -1149,6 +1184,12 @@ export default function FractalExplorer() {
                 palette={palette}
                 palettes={ALL_PALETTES}
                 onPaletteChange={(name) => setPalette(name as PaletteName)}
+                coloring={coloring}
+                onColoringChange={setColoring}
+                stripeDensity={stripeDensity}
+                onStripeDensityChange={setStripeDensity}
+                averageBlend={averageBlend}
+                onAverageBlendChange={setAverageBlend}
                 showAdvanced={showAdvanced}
                 onShowAdvancedChange={setShowAdvanced}
                 autoIterations={autoIters}
@@ -1222,6 +1263,204 @@ export default function FractalExplorer() {
                 📍
                 <span>{trajectoryEnabled ? 'Path ON' : 'Path'}</span>
               </button>
+              {formula.key === 'julia' && (
+                <button
+                  onClick={() => setJuliaPickerEnabled(!juliaPickerEnabled)}
+                  className={`px-4 py-2.5 rounded-lg font-medium text-sm transition-all flex items-center gap-2 ${
+                    juliaPickerEnabled
+                      ? 'bg-linear-to-r from-violet-600 to-indigo-600 text-white shadow-lg shadow-violet-500/30'
+                      : 'bg-slate-800/60 text-slate-400 border border-slate-700/50 hover:text-white hover:border-slate-600'
+                  }`}
+                  title="Toggle the Mandelbrot map for picking c"
+                >
+                  🗺️
+                  <span>{juliaPickerEnabled ? 'Map ON' : 'Map'}</span>
+                </button>
+              )}
+              {inverseIterationAvailable && (
+                <button
+                  onClick={() => setInverseIterationEnabled(!inverseIterationEnabled)}
+                  className={`px-4 py-2.5 rounded-lg font-medium text-sm transition-all flex items-center gap-2 ${
+                    inverseIterationEnabled
+                      ? 'bg-linear-to-r from-emerald-600 to-teal-600 text-white shadow-lg shadow-emerald-500/30'
+                      : 'bg-slate-800/60 text-slate-400 border border-slate-700/50 hover:text-white hover:border-slate-600'
+                  }`}
+                  title="Toggle the inverse iteration (MIIM) point cloud of the Julia set"
+                >
+                  ✨
+                  <span>{inverseIterationEnabled ? 'IIM ON' : 'IIM'}</span>
+                </button>
+              )}
+              {inverseIterationAvailable && inverseIterationEnabled && (
+                <div className="flex items-center gap-2 px-2 py-1 bg-slate-900/40 rounded-lg border border-slate-700/30">
+                  <select
+                    value={inverseIterationMode}
+                    onChange={(e) => setInverseIterationMode(e.target.value as InverseIterationMode)}
+                    className="bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-0.5 focus:outline-none"
+                    title="Draw the points over the shader or on black in its place"
+                  >
+                    <option value="over">Over</option>
+                    <option value="instead">Instead</option>
+                  </select>
+                  <span className="text-emerald-400 text-xs">Points</span>
+                  <select
+                    value={inverseIterationBudget}
+                    onChange={(e) => setInverseIterationBudget(Number(e.target.value))}
+                    className="bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-0.5 focus:outline-none"
+                    title="Preimages visited at most"
+                  >
+                    {[100000, 1000000, 5000000, 20000000].map((budget) => (
+                      <option key={budget} value={budget}>{budget.toLocaleString()}</option>
+                    ))}
+                  </select>
+                  <span className="text-emerald-400 text-xs">Depth</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={2000}
+                    value={inverseIterationDepth}
+                    onChange={(e) => {
+                      const depth = parseInt(e.target.value, 10);
+                      if (depth > 0) setInverseIterationDepth(Math.min(depth, 2000));
+                    }}
+                    title="Longest chain of preimages followed"
+                    className="w-14 px-1.5 py-0.5 text-xs font-mono text-white bg-slate-800/60 rounded border border-slate-700/50 focus:outline-none focus:border-emerald-500/50"
+                  />
+                </div>
+              )}
+              {buddhabrotAvailable && (
+                <button
+                  onClick={() => setBuddhabrotEnabled(!buddhabrotEnabled)}
+                  className={`px-4 py-2.5 rounded-lg font-medium text-sm transition-all flex items-center gap-2 ${
+                    buddhabrotEnabled
+                      ? 'bg-linear-to-r from-amber-600 to-rose-600 text-white shadow-lg shadow-amber-500/30'
+                      : 'bg-slate-800/60 text-slate-400 border border-slate-700/50 hover:text-white hover:border-slate-600'
+                  }`}
+                  title="Toggle the Buddhabrot: the density of escaping orbits"
+                >
+                  🪷
+                  <span>{buddhabrotEnabled ? 'Buddha ON' : 'Buddha'}</span>
+                </button>
+              )}
+              {buddhabrotAvailable && buddhabrotEnabled && (
+                <div className="flex items-center gap-2 px-2 py-1 bg-slate-900/40 rounded-lg border border-slate-700/30">
+                  <select
+                    value={buddhabrotTone}
+                    onChange={(e) => setBuddhabrotTone(e.target.value as ToneMapping)}
+                    className="bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-0.5 focus:outline-none"
+                    title="Map hit counts to brightness by their logarithm or by histogram equalisation"
+                  >
+                    <option value="log">Log</option>
+                    <option value="histogram">Histogram</option>
+                  </select>
+                  <label className="flex items-center gap-1 text-xs text-amber-400" title="Nebulabrot: red, green and blue take orbits escaping within their own limits">
+                    <input
+                      type="checkbox"
+                      checked={nebulabrotEnabled}
+                      onChange={(e) => setNebulabrotEnabled(e.target.checked)}
+                    />
+                    Nebula
+                  </label>
+                  {nebulabrotEnabled && (
+                    <>
+                      <span className="text-xs font-mono text-red-400" title="Red limit: the max iterations">{maxIterations}</span>
+                      {nebulaLimits.map((limit, channel) => (
+                        <input
+                          key={channel}
+                          type="number"
+                          min={1}
+                          max={100000}
+                          value={limit}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (!(value > 0)) return;
+                            const next: [number, number] = [...nebulaLimits];
+                            next[channel] = Math.min(value, 100000);
+                            setNebulaLimits(next);
+                          }}
+                          title={channel === 0 ? 'Green iteration limit' : 'Blue iteration limit'}
+                          className={`w-14 px-1.5 py-0.5 text-xs font-mono bg-slate-800/60 rounded border border-slate-700/50 focus:outline-none focus:border-amber-500/50 ${
+                            channel === 0 ? 'text-green-400' : 'text-blue-400'
+                          }`}
+                        />
+                      ))}
+                    </>
+                  )}
+                  <span className="text-xs font-mono text-slate-400" title="Orbits sampled so far">
+                    {buddhabrotSamples.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {orbitTrapActive && (
+                <div className="flex items-center gap-2 px-2 py-1 bg-slate-900/40 rounded-lg border border-slate-700/30">
+                  <span className="text-pink-400 text-xs">Trap</span>
+                  <select
+                    value={orbitTrap.shape}
+                    onChange={(e) => setOrbitTrap({ ...orbitTrap, shape: e.target.value as OrbitTrapShape })}
+                    className="bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-0.5 focus:outline-none"
+                    title="Shape the orbits are measured against"
+                  >
+                    {ORBIT_TRAP_SHAPES.map((shape) => (
+                      <option key={shape} value={shape}>{ORBIT_TRAP_SHAPE_LABELS[shape]}</option>
+                    ))}
+                  </select>
+                  <label
+                    className="px-1.5 py-0.5 text-xs text-slate-300 bg-slate-800 rounded border border-slate-700 hover:border-pink-500/50 cursor-pointer"
+                    title="Load a picture for the image trap"
+                  >
+                    {trapImage ? 'Change image' : 'Load image'}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleTrapImage(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <span className="text-xs font-mono text-slate-400" title="Trap size">
+                    {orbitTrap.size.toPrecision(3)}
+                  </span>
+                </div>
+              )}
+              {rayPlane && (
+                <button
+                  onClick={() => setRaysEnabled(!raysEnabled)}
+                  className={`px-4 py-2.5 rounded-lg font-medium text-sm transition-all flex items-center gap-2 ${
+                    raysEnabled
+                      ? 'bg-linear-to-r from-pink-600 to-amber-600 text-white shadow-lg shadow-pink-500/30'
+                      : 'bg-slate-800/60 text-slate-400 border border-slate-700/50 hover:text-white hover:border-slate-600'
+                  }`}
+                  title="Toggle external rays and equipotentials"
+                >
+                  ✳️
+                  <span>{raysEnabled ? 'Rays ON' : 'Rays'}</span>
+                </button>
+              )}
+              {rayPlane && raysEnabled && (
+                <div className="flex items-center gap-2 px-2 py-1 bg-slate-900/40 rounded-lg border border-slate-700/30">
+                  <span className="text-pink-400 text-xs">Angles</span>
+                  <input
+                    type="text"
+                    value={rayAngles}
+                    onChange={(e) => setRayAngles(e.target.value)}
+                    placeholder="1/3, .0(01)"
+                    title="Rational angles in turns, as fractions or binary expansions with a repeating block in brackets"
+                    className="w-28 px-1.5 py-0.5 text-xs font-mono text-white bg-slate-800/60 rounded border border-slate-700/50 focus:outline-none focus:border-pink-500/50"
+                  />
+                  <span className="text-amber-400 text-xs">Levels</span>
+                  <input
+                    type="text"
+                    value={rayPotentials}
+                    onChange={(e) => setRayPotentials(e.target.value)}
+                    placeholder="1, 0.25"
+                    title="Potential levels of the equipotential curves"
+                    className="w-20 px-1.5 py-0.5 text-xs font-mono text-white bg-slate-800/60 rounded border border-slate-700/50 focus:outline-none focus:border-amber-500/50"
+                  />
+                </div>
+              )}
               {sonicEnabled && (
                 <div className="flex items-center gap-2 px-2 py-1 bg-slate-900/40 rounded-lg border border-slate-700/30">
                   <span className="text-purple-400 text-xs">Vol</span>
@@ -1300,16 +1539,21 @@ export default function FractalExplorer() {
                 </div>
                 <div className="p-1.5 bg-slate-900/50 rounded border border-slate-700/30">
                   <div className="text-[9px] text-slate-500 mb-0.5">Material</div>
-                  <div className="text-xs font-mono text-purple-400 truncate">{currentMaterial}</div>
+                  <div className="text-xs font-mono text-purple-400 truncate">{formula.key}</div>
                 </div>
               </div>
+
+              <div className="flex justify-between items-center" title="Iterations every pixel skips via the deep-zoom series approximation">
+                <span className="text-[10px] text-slate-500">Series skip</span>
+                <span className="text-xs font-mono text-amber-400">{skippedIterations}</span>
+              </div>
               
               <div className="h-px bg-slate-700/40"></div>
               
               <div className="p-1.5 bg-slate-900/50 rounded border border-slate-700/30">
                 <div className="flex justify-between items-center mb-0.5">
                   <span className="text-[9px] text-slate-500">Zoom</span>
-                  <span className="text-[10px] font-mono text-pink-400">{viewport.zoom.toFixed(2)}x</span>
+                  <span className="text-[10px] font-mono text-pink-400">{viewport.zoom < 0.01 ? viewport.zoom.toExponential(2) : viewport.zoom.toFixed(2)}x</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-[9px] text-slate-500">Position</span>
@@ -1318,11 +1562,179 @@ export default function FractalExplorer() {
                   </span>
                 </div>
               </div>
+
+              {/* Exact location, for sharing deep zooms */}
+              <div className="p-1.5 bg-slate-900/50 rounded border border-slate-700/30 space-y-1">
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] text-slate-500">Location</span>
+                  <button
+                    onClick={handleCopyLocation}
+                    className="text-[9px] px-1.5 py-0.5 rounded bg-slate-800 text-cyan-400 hover:bg-slate-700 transition"
+                    title="Copy the exact centre and zoom"
+                  >
+                    Copy
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={locationText}
+                  onChange={(e) => {
+                    setLocationText(e.target.value);
+                    setLocationError(false);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleGoToLocation();
+                  }}
+                  placeholder="re=… im=… zoom=… (Enter)"
+                  spellCheck={false}
+                  className={`w-full px-1.5 py-0.5 bg-slate-800 border rounded text-[9px] font-mono text-white focus:outline-none ${
+                    locationError ? 'border-red-500' : 'border-slate-700 focus:border-cyan-500'
+                  }`}
+                />
+              </div>
+
+              {/* Nearest minibrot or Misiurewicz point; its exact location lands in the box above */}
+              {featureFinderAvailable && (
+                <div className="p-1.5 bg-slate-900/50 rounded border border-slate-700/30 space-y-1">
+                  <div className="flex justify-between items-center">
+                    <select
+                      value={featureKind}
+                      onChange={(e) => {
+                        setFeatureKind(e.target.value as MandelbrotFeature['kind']);
+                        setFeatureNotFound(false);
+                      }}
+                      className="bg-slate-800 border border-slate-700 rounded text-[9px] text-slate-300 px-1 py-0.5 focus:outline-none"
+                    >
+                      <option value="nucleus">Minibrot</option>
+                      <option value="misiurewicz">Misiurewicz</option>
+                    </select>
+                    <button
+                      onClick={handleFindFeature}
+                      className="text-[9px] px-1.5 py-0.5 rounded bg-slate-800 text-cyan-400 hover:bg-slate-700 transition"
+                      title="Find the feature nearest the view centre and fly there"
+                    >
+                      Find
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    {featureKind === 'misiurewicz' && (
+                      <input
+                        type="text"
+                        value={featurePreperiod}
+                        onChange={(e) => setFeaturePreperiod(e.target.value)}
+                        placeholder="preperiod"
+                        title="Steps before the orbit of 0 reaches its cycle, at least 2"
+                        className="w-1/2 px-1.5 py-0.5 bg-slate-800 border border-slate-700 rounded text-[9px] font-mono text-white focus:outline-none focus:border-cyan-500"
+                      />
+                    )}
+                    <input
+                      type="text"
+                      value={featurePeriod}
+                      onChange={(e) => setFeaturePeriod(e.target.value)}
+                      placeholder={featureKind === 'nucleus' ? 'period (auto)' : 'period'}
+                      className="flex-1 min-w-0 px-1.5 py-0.5 bg-slate-800 border border-slate-700 rounded text-[9px] font-mono text-white focus:outline-none focus:border-cyan-500"
+                    />
+                  </div>
+                  {featureNotFound ? (
+                    <div className="text-[9px] text-red-400">None found here</div>
+                  ) : foundFeature && (
+                    <div className="text-[9px] font-mono text-slate-400">
+                      {foundFeature.kind === 'misiurewicz' ? `M${foundFeature.preperiod},${foundFeature.period}` : `period ${foundFeature.period}`}
+                      {' · size '}
+                      <span className="text-pink-400">{foundFeature.size.toExponential(2)}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Box-counting dimension of the boundary in view */}
+              <div className="p-1.5 bg-slate-900/50 rounded border border-slate-700/30 space-y-1">
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] text-slate-500">Box dimension</span>
+                  <button
+                    onClick={handleMeasureDimension}
+                    disabled={dimensionStatus === 'measuring'}
+                    className="text-[9px] px-1.5 py-0.5 rounded bg-slate-800 text-cyan-400 hover:bg-slate-700 transition disabled:opacity-50"
+                    title="Count boxes on the boundary of the set in view at doubling sizes and fit the log-log slope"
+                  >
+                    {dimensionStatus === 'measuring' ? 'Measuring…' : 'Measure'}
+                  </button>
+                </div>
+                {dimensionStatus === 'failed' ? (
+                  <div className="text-[9px] text-red-400">No boundary in view</div>
+                ) : dimensionEstimate && (
+                  <>
+                    <div className="text-[9px] font-mono text-slate-400" title="95% confidence interval">
+                      D = <span className="text-pink-400">{dimensionEstimate.dimension.toFixed(3)}</span>
+                      {' '}[{dimensionEstimate.interval[0].toFixed(3)}, {dimensionEstimate.interval[1].toFixed(3)}]
+                    </div>
+                    <div className="text-[9px] font-mono text-slate-500">R² {dimensionEstimate.rSquared.toFixed(4)}</div>
+                    <DimensionPlot estimate={dimensionEstimate} />
+                  </>
+                )}
+              </div>
+
+              {/* Monte Carlo area of the set, or of the filled Julia set at c */}
+              {areaRegion(formula.key, formulaInputs) && (
+                <div className="p-1.5 bg-slate-900/50 rounded border border-slate-700/30 space-y-1">
+                  <div className="flex justify-between items-center gap-1">
+                    <span className="text-[9px] text-slate-500">Area</span>
+                    <input
+                      type="text"
+                      value={areaSeed}
+                      onChange={(e) => setAreaSeed(e.target.value)}
+                      placeholder="seed"
+                      title="Seed of the sample points; the same seed repeats the same numbers"
+                      className="w-12 px-1.5 py-0.5 bg-slate-800 border border-slate-700 rounded text-[9px] font-mono text-white focus:outline-none focus:border-cyan-500"
+                    />
+                    <button
+                      onClick={handleToggleArea}
+                      className="text-[9px] px-1.5 py-0.5 rounded bg-slate-800 text-cyan-400 hover:bg-slate-700 transition"
+                      title="Estimate the area by stratified random sampling"
+                    >
+                      {areaRunning ? 'Stop' : 'Start'}
+                    </button>
+                  </div>
+                  {areaEstimate && (
+                    <>
+                      <div className="text-[9px] font-mono text-slate-400" title="Running estimate ± standard error">
+                        <span className="text-pink-400">{areaEstimate.area.toFixed(5)}</span>
+                        {isFinite(areaEstimate.standardError) && ` ± ${areaEstimate.standardError.toFixed(5)}`}
+                      </div>
+                      <div className="flex justify-between text-[9px] font-mono text-slate-500">
+                        <span>{areaEstimate.samples.toLocaleString()} pts</span>
+                        <span title="Area from points still undecided at the iteration limit, counted as inside">
+                          ? {areaEstimate.unresolvedArea.toFixed(5)}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {/* Linked Mandelbrot map: dragging its marker sets the Julia set's c */}
+      {!hideAllUI && juliaPickerEnabled && formula.key === 'julia' && (
+        <div className="absolute bottom-4 left-4 z-10">
+          <JuliaPicker
+            width={260}
+            height={200}
+            c={formulaInputs.c}
+            onCChange={(c) => {
+              setCReal(c.re);
+              setCImag(c.im);
+              if (trajectoryEnabled) setTrajectoryPoints([]);
+            }}
+            exponent={formulaInputs.x}
+            paletteName={palette}
+            onClose={() => setJuliaPickerEnabled(false)}
+          />
+        </div>
+      )}
+
       {/* Toggle Buttons - Left Side (only visible when panels are hidden) */}
       {!hideAllUI && (
         <div className="absolute left-4 top-1/2 -translate-y-1/2 z-10 flex flex-col gap-2">
@@ -3,6 +3,18 @@
 import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import { FractalSynth } from '@/lib/audio/fractal-synth';
+import { FRACTAL_FORMULAS, FormulaInputs, iterateFormula, smoothIterations } from '@/lib/fractals/formula-registry';
+import { TileRenderer } from '@/lib/render/tile-renderer';
+
+const formula = FRACTAL_FORMULAS.mandelbrot;
+
+// Classic z^2 + c with no slider offsets
+const inputs: FormulaInputs = {
+  z: { re: 0, im: 0 },
+  c: { re: 0, im: 0 },
+  x: { re: 2, im: 0 },
+  n: 2,
+};
 
 /**
  * Sonic Fractals - Interactive Landing Page
@@ -39,10 +51,18 @@ export default function SonicFractals() {
     }
   }, [volume]);
 
+  // Tiled worker renderer, so resizing never blocks the page
+  const tileRendererRef = useRef<TileRenderer | null>(null);
+  useEffect(() => {
+    tileRendererRef.current = new TileRenderer();
+    return () => tileRendererRef.current?.destroy();
+  }, []);
+
   // Render Mandelbrot set
   const renderFractal = () => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const renderer = tileRendererRef.current;
+    if (!canvas || !renderer) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -53,65 +73,15 @@ export default function SonicFractals() {
     // Skip if canvas not sized yet
     if (width === 0 || height === 0) return;
 
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-
+    // Use height as base scale to maintain vertical proportions
     const viewport = viewportRef.current;
-
-    for (let py = 0; py < height; py++) {
-      for (let px = 0; px < width; px++) {
-        // Convert pixel to complex plane with proper aspect ratio
-        // Use height as base scale to maintain vertical proportions
-        const x0 = ((px - width / 2) / height) / viewport.zoom + viewport.x;
-        const y0 = ((py - height / 2) / height) / viewport.zoom + viewport.y;
-
-        let x = 0;
-        let y = 0;
-        let iteration = 0;
-        let xtemp;
-
-        // Mandelbrot iteration
-        while (x * x + y * y <= 256 && iteration < maxIterations) {
-          xtemp = x * x - y * y + x0;
-          y = 2 * x * y + y0;
-          x = xtemp;
-          iteration++;
-        }
-
-        // Calculate smooth coloring
-        let smoothValue = iteration;
-        if (iteration < maxIterations) {
-          const logZn = Math.log(x * x + y * y) / 2;
-          const nu = Math.log(logZn / Math.log(2)) / Math.log(2);
-          smoothValue = iteration + 1 - nu;
-        }
-
-        // Color based on iterations (smooth gradient)
-        const idx = (py * width + px) * 4;
-        
-        if (iteration === maxIterations) {
-          // Inside the set - black
-          data[idx] = 0;
-          data[idx + 1] = 0;
-          data[idx + 2] = 0;
-        } else {
-          // Outside the set - gradient based on escape time
-          const t = smoothValue / maxIterations;
-          
-          // Beautiful purple-blue-cyan gradient
-          const r = Math.floor(9 * (1 - t) * t * t * t * 255);
-          const g = Math.floor(15 * (1 - t) * (1 - t) * t * t * 255);
-          const b = Math.floor(8.5 * (1 - t) * (1 - t) * (1 - t) * t * 255);
-          
-          data[idx] = r;
-          data[idx + 1] = g;
-          data[idx + 2] = b;
-        }
-        data[idx + 3] = 255; // Alpha
-      }
-    }
-
-    ctx.putImageData(imageData, 0, 0);
+    renderer.render(ctx, {
+      formulaKey: formula.key,
+      inputs,
+      view: { centerX: viewport.x, centerY: viewport.y, pixelSize: 1 / (height * viewport.zoom), width, height, yUp: false },
+      maxIterations,
+      colorMode: 'bernstein',
+    });
   };
 
   // Handle canvas resize and render
@@ -160,24 +130,16 @@ export default function SonicFractals() {
     const x0 = ((px - width / 2) / height) / viewport.zoom + viewport.x;
     const y0 = ((py - height / 2) / height) / viewport.zoom + viewport.y;
 
-    // Calculate orbit points
-    let x = 0;
-    let y = 0;
-    let iteration = 0;
+    // Store all iteration points, converted to screen coordinates
     const orbitPoints: { x: number; y: number }[] = [];
-
-    // Store all iteration points
-    while (x * x + y * y <= 256 && iteration < maxIterations) {
-      // Convert complex point to screen coordinates
-      const screenX = ((x - viewport.x) * height * viewport.zoom) + width / 2;
-      const screenY = ((y - viewport.y) * height * viewport.zoom) + height / 2;
-      orbitPoints.push({ x: screenX, y: screenY });
-
-      const xtemp = x * x - y * y + x0;
-      y = 2 * x * y + y0;
-      x = xtemp;
-      iteration++;
-    }
+    const { iterations: iteration } = iterateFormula(formula, { re: x0, im: y0 }, inputs, maxIterations, (z) => {
+      orbitPoints.push({
+        x: ((z.re - viewport.x) * height * viewport.zoom) + width / 2,
+        y: ((z.im - viewport.y) * height * viewport.zoom) + height / 2,
+      });
+    })!;
+    // The final iterate is usually far off screen once the orbit escapes
+    orbitPoints.pop();
 
     // Determine color based on stability
     const stability = iteration / maxIterations;
@@ -280,26 +242,10 @@ export default function SonicFractals() {
     const x0 = ((px - width / 2) / height) / viewport.zoom + viewport.x;
     const y0 = ((py - height / 2) / height) / viewport.zoom + viewport.y;
 
-    // Calculate escape time for this point
-    let x = 0;
-    let y = 0;
-    let iteration = 0;
-    let xtemp;
-
-    while (x * x + y * y <= 256 && iteration < maxIterations) {
-      xtemp = x * x - y * y + x0;
-      y = 2 * x * y + y0;
-      x = xtemp;
-      iteration++;
-    }
-
-    // Calculate smooth value
-    let smoothValue = iteration;
-    if (iteration < maxIterations) {
-      const logZn = Math.log(x * x + y * y) / 2;
-      const nu = Math.log(logZn / Math.log(2)) / Math.log(2);
-      smoothValue = iteration + 1 - nu;
-    }
+    // Calculate escape time and smooth value for this point
+    const orbit = iterateFormula(formula, { re: x0, im: y0 }, inputs, maxIterations)!;
+    const iteration = orbit.iterations;
+    const smoothValue = smoothIterations(orbit);
 
     // Play sound based on stability
     const normalizedX = px / canvas.width;
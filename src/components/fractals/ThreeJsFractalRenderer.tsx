@@ -1,21 +1,62 @@
 'use client';
 
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import * as THREE from 'three';
-import { materials, MaterialKey, createCustomMaterial } from '@/lib/webgl/shader-materials';
-import { getPaletteTexture, PaletteName, DEFAULT_PALETTE } from '@/lib/utils/palettes';
+import { parameterUniform } from '@/lib/webgl/equation-glsl';
+import { FractalFormula } from '@/lib/fractals/formula-registry';
+import {
+  computeReferenceOrbit,
+  PERTURBATION_ZOOM,
+  PerturbationKind,
+  perturbationKind,
+  splitZoom,
+  writeReferenceTexels,
+} from '@/lib/fractals/perturbation';
+import { computeSeriesApproximation } from '@/lib/fractals/series-approximation';
+import { createPerturbationMaterial, getBlankTrapImage, MAX_SHADER_ITERATIONS } from '@/lib/webgl/shader-materials';
+import { TileRenderer } from '@/lib/render/tile-renderer';
+import { Complex } from '@/lib/math/complex';
+import {
+  interpolateViewport,
+  PreciseViewport,
+  panViewport,
+  splitViewportCenter,
+  viewportCenter,
+  viewportFromNumbers,
+  zoomViewport,
+} from '@/lib/math/precise-viewport';
+import { buildNewtonSystem, findNewtonRoots } from '@/lib/math/newton';
+import { getPaletteColors, getPaletteTexture, PaletteName, DEFAULT_PALETTE } from '@/lib/utils/palettes';
+import {
+  COLORING_MODES,
+  ColoringMode,
+  DEFAULT_AVERAGING,
+  DEFAULT_ORBIT_TRAP,
+  ORBIT_TRAP_SHAPES,
+  OrbitTrap,
+} from '@/lib/utils/color-utils';
 
 export interface ThreeJsFractalRendererProps {
   width: number;
   height: number;
-  materialKey: MaterialKey;
-  customEquation?: string;
-  initialViewport?: { x: number; y: number; zoom: number };
+  formula: FractalFormula;
+  customEquation?: string; // z = f(z, c) or Newton's f(z), for formulas with a typed equation
+  relaxation?: number; // Newton step factor a in z - a f(z)/f'(z)
+  parameters?: Record<string, Complex>; // values for parameters declared in customEquation
+  initialViewport?: PreciseViewport;
+  flyTo?: PreciseViewport | null; // animate from the current view to this one when it changes
   onZoom?: (zoomLevel: number) => void;
   onPan?: (offsetX: number, offsetY: number) => void;
+  onViewportChange?: (viewport: PreciseViewport) => void; // exact view after each pan or zoom
+  onSkippedIterations?: (skipped: number) => void; // iterations the deep-zoom series approximation skips
   onClick?: (x: number, y: number, complexX: number, complexY: number) => void; // For sonic playback
   iterations?: number;
   paletteName?: PaletteName;
+  coloring?: ColoringMode; // colouring algorithm of the escape-time shaders and CPU tiles
+  orbitTrap?: OrbitTrap; // trap of the orbit-trap colouring
+  trapImage?: HTMLImageElement | null; // picture for the image trap
+  stripeDensity?: number; // stripes per turn of arg(z) in the stripe average
+  averageBlend?: number; // averaging colourings: 0 = average only, 1 = escape time only
   autoAdjustIterations?: boolean;
   autoAdjustSmoothing?: number; // 0..1 per frame smoothing toward target
   autoTone?: boolean;
@@ -35,22 +76,69 @@ export interface ThreeJsFractalRendererProps {
 }
 
 interface ViewState {
-  offset: { x: number; y: number };
-  scale: number;
+  viewport: PreciseViewport; // centre in fixed point; zoom is the shaders' scale
   time: number;
 }
 
+// Flight duration bounds for flyTo, growing with the octaves of zoom covered
+const FLIGHT_MIN_MS = 600;
+const FLIGHT_MS_PER_OCTAVE = 60;
+const FLIGHT_MAX_MS = 8000;
+
+// Push declared parameter values into their uParam_* uniforms, when the material has them
+const applyParameterUniforms = (material: THREE.RawShaderMaterial, parameters?: Record<string, Complex>): void => {
+  if (!parameters) return;
+  Object.entries(parameters).forEach(([name, value]) => {
+    const uniform = material.uniforms[parameterUniform(name)];
+    if (uniform) (uniform.value as THREE.Vector2).set(value.re, value.im);
+  });
+};
+
+// Largest side of the trap picture handed to the CPU fallback, which copies it into every tile
+const CPU_TRAP_IMAGE_SIZE = 256;
+
+// Pixels of the trap picture for the CPU fallback, scaled down to CPU_TRAP_IMAGE_SIZE
+const trapImagePixels = (image: HTMLImageElement): ImageData | undefined => {
+  const scale = Math.min(1, CPU_TRAP_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Push the orbit trap into the uTrap* uniforms, when the material has them
+const applyOrbitTrapUniforms = (material: THREE.RawShaderMaterial, trap: OrbitTrap, image: THREE.Texture | null): void => {
+  if (!material.uniforms.uTrapShape) return;
+  material.uniforms.uTrapShape.value = ORBIT_TRAP_SHAPES.indexOf(trap.shape);
+  (material.uniforms.uTrapCenter.value as THREE.Vector2).set(trap.center.re, trap.center.im);
+  (material.uniforms.uTrapAxis.value as THREE.Vector2).set(trap.size * Math.cos(trap.angle), trap.size * Math.sin(trap.angle));
+  material.uniforms.uTrapImage.value = image ?? getBlankTrapImage();
+};
+
 export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
   width,
   height,
-  materialKey,
+  formula,
   customEquation,
+  relaxation = 1.0,
+  parameters,
   initialViewport,
+  flyTo,
   onZoom,
   onPan,
+  onViewportChange,
+  onSkippedIterations,
   onClick,
   iterations = 150,
   paletteName = DEFAULT_PALETTE,
+  coloring = 'escape-time',
+  orbitTrap = DEFAULT_ORBIT_TRAP,
+  trapImage = null,
+  stripeDensity = DEFAULT_AVERAGING.stripeDensity,
+  averageBlend = DEFAULT_AVERAGING.blend,
   autoAdjustIterations = true,
   autoAdjustSmoothing = 0.15,
   autoTone = true,
@@ -74,15 +162,18 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.OrthographicCamera | null>(null);
   const materialRef = useRef<THREE.RawShaderMaterial | null>(null);
+  const equationActiveRef = useRef<boolean>(false); // current material was compiled from customEquation
+  const [cpuFallback, setCpuFallback] = useState<boolean>(false); // WebGL unavailable or lost
+  const cpuCanvasRef = useRef<HTMLCanvasElement>(null);
+  const tileRendererRef = useRef<TileRenderer | null>(null);
   const meshRef = useRef<THREE.Mesh | null>(null);
+  // Past float precision, formulas with a delta iteration switch to the perturbation shader
+  const [deepZoom, setDeepZoom] = useState<boolean>(() => (initialViewport?.zoom ?? 1.5) < PERTURBATION_ZOOM);
+  const perturbation = deepZoom ? perturbationKind(formula, { re: xReal, im: xImag }) : null;
 
   // Viewport/interaction state
   const viewStateRef = useRef<ViewState>({
-    offset: { 
-      x: initialViewport?.x ?? -0.8, 
-      y: initialViewport?.y ?? 0 
-    },
-    scale: initialViewport?.zoom ?? 1.5,
+    viewport: initialViewport ?? viewportFromNumbers(-0.8, 0, 1.5),
     time: 0,
   });
 
@@ -102,22 +193,81 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
   const autoEnabledRef = useRef<boolean>(autoAdjustIterations);
   const maxItersCapRef = useRef<number>(512);
   const autoToneRef = useRef<boolean>(autoTone);
-  const toneParamsRef = useRef({ gamma, bandStrength, bandCenter, bandWidth, interiorEnabled, bands });
+  const toneParamsRef = useRef({ gamma, bandStrength, bandCenter, bandWidth, interiorEnabled, bands, coloring, stripeDensity, averageBlend });
+  const trapTexture = useMemo(() => {
+    if (!trapImage) return null;
+    const texture = new THREE.Texture(trapImage);
+    texture.needsUpdate = true;
+    return texture;
+  }, [trapImage]);
+  const orbitTrapRef = useRef({ trap: orbitTrap, texture: trapTexture });
 
   const extractMaxItersCap = useCallback((shader: string | undefined): number => {
     if (!shader) return 512;
-    const m = shader.match(/#define\s+MAX_ITERS\s+(\d+)/);
+    // The last definition is the one the loops see
+    const m = [...shader.matchAll(/#define\s+MAX_ITERS\s+(\d+)/g)].pop();
     return m ? Math.max(1, parseInt(m[1], 10)) : 512;
   }, []);
 
+  // Perturbation shader: iterate the view centre in fixed point, find how many iterations the
+  // series approximation skips, and upload both with the scale. Requests are batched per frame.
+  const referenceInputsRef = useRef({ z: { re: zReal, im: zImag }, c: { re: cReal, im: cImag } });
+  const referenceDirtyRef = useRef<boolean>(true);
+  const skippedRef = useRef<number>(0);
+  const onSkippedIterationsRef = useRef(onSkippedIterations);
+  const requestReferenceOrbit = useCallback(() => {
+    referenceDirtyRef.current = true;
+  }, []);
+  const updateReferenceOrbit = useCallback(() => {
+    referenceDirtyRef.current = false;
+    const material = materialRef.current;
+    const kind = material?.userData.perturbation as PerturbationKind | undefined;
+    let skipped = 0;
+    if (material && kind) {
+      const { viewport } = viewStateRef.current;
+      const iterationLimit = Math.max(1, Math.round(targetItersRef.current));
+      const orbit = computeReferenceOrbit(kind, viewport, referenceInputsRef.current, iterationLimit);
+      const texture = material.uniforms.uRefOrbit.value as THREE.DataTexture;
+      writeReferenceTexels(orbit, texture.image.data as Float32Array);
+      texture.needsUpdate = true;
+      material.uniforms.uRefLength.value = orbit.length;
+      const { mantissa, exponent } = splitZoom(viewport.zoom);
+      material.uniforms.uScaleMantissa.value = mantissa;
+      material.uniforms.uScaleExponent.value = exponent;
+
+      // Series coefficients are taken relative to the view's corners
+      const resolution = material.uniforms.resolution.value as THREE.Vector2;
+      const aspect = resolution.x / resolution.y;
+      const series = computeSeriesApproximation(kind, orbit, viewport.zoom * Math.hypot(aspect, 1), aspect, iterationLimit);
+      skipped = series.skipped;
+      // Shared power-of-two exponent so the float uniforms hold the coefficients' mantissas
+      let largest = 0;
+      series.coefficients.forEach((value) => { largest = Math.max(largest, Math.abs(value)); });
+      const seriesExponent = skipped > 0 && largest > 0 ? Math.floor(Math.log2(largest)) : exponent;
+      (material.uniforms.uSeries.value as THREE.Vector2[]).forEach((slot, t) => {
+        slot.set(
+          (series.coefficients[t * 2] ?? 0) / 2 ** seriesExponent,
+          (series.coefficients[t * 2 + 1] ?? 0) / 2 ** seriesExponent
+        );
+      });
+      material.uniforms.uSeriesExponent.value = seriesExponent;
+      material.uniforms.uSeriesSkip.value = skipped;
+    }
+    if (skipped !== skippedRef.current) {
+      skippedRef.current = skipped;
+      onSkippedIterationsRef.current?.(skipped);
+    }
+  }, []);
+
   const maybeRecompileWithCap = useCallback((desiredCap: number) => {
     if (!materialRef.current) return;
     const currentCap = maxItersCapRef.current;
     if (desiredCap <= currentCap) return;
-    const newCap = Math.min(2048, desiredCap);
+    const newCap = Math.min(MAX_SHADER_ITERATIONS, desiredCap);
     const fs = (materialRef.current as any).fragmentShader as string | undefined;
     if (!fs) return;
-    const replaced = fs.replace(/#define\s+MAX_ITERS\s+\d+/, `#define MAX_ITERS ${newCap}`);
+    // Every definition, as some shaders redefine the shared one
+    const replaced = fs.replace(/#define\s+MAX_ITERS\s+\d+/g, `#define MAX_ITERS ${newCap}`);
     if (replaced !== fs) {
       (materialRef.current as any).fragmentShader = replaced;
       materialRef.current.needsUpdate = true;
@@ -140,13 +290,19 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     camera.lookAt(0, 0, 0);
     cameraRef.current = camera;
 
-    // Renderer
-    const renderer = new THREE.WebGLRenderer({
-      canvas: canvasRef.current || undefined,
-      preserveDrawingBuffer: true,
-      antialias: false,
-      precision: 'highp',
-    });
+    // Renderer; without WebGL the tiled CPU renderer takes over
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({
+        canvas: canvasRef.current || undefined,
+        preserveDrawingBuffer: true,
+        antialias: false,
+        precision: 'highp',
+      });
+    } catch {
+      setCpuFallback(true);
+      return;
+    }
     renderer.autoClear = false;
     renderer.setSize(width, height);
     renderer.setPixelRatio(window.devicePixelRatio);
@@ -161,21 +317,18 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     const geometry = new THREE.PlaneGeometry(2, 2, 1, 1);
 
     // Create and set material
-    let material: THREE.RawShaderMaterial;
-    if (materialKey === 'custom' && customEquation) {
-      material = createCustomMaterial();
-    } else {
-      const materialFactory = materials[materialKey];
-      material = materialFactory();
-    }
+    // Formulas with a typed equation fall back to their default shader until it compiles
+    const compiled = perturbation ? createPerturbationMaterial(perturbation) : formula.createMaterial(customEquation);
+    equationActiveRef.current = compiled !== null && formula.equationKind !== undefined;
+    const material = compiled ?? formula.createMaterial()!;
     materialRef.current = material;
+    requestReferenceOrbit();
 
     // Update uniforms with initial values
     material.uniforms.resolution.value.set(width, height);
-    material.uniforms.offset.value.copy(
-      new THREE.Vector2(viewStateRef.current.offset.x, viewStateRef.current.offset.y)
-    );
-    material.uniforms.scale.value = viewStateRef.current.scale;
+    const center = viewportCenter(viewStateRef.current.viewport);
+    material.uniforms.offset.value.copy(new THREE.Vector2(center.x, center.y));
+    material.uniforms.scale.value = viewStateRef.current.viewport.zoom;
     // Palette + iterations
     material.uniforms.palette.value = getPaletteTexture(paletteName);
     material.uniforms.uIters.value = iterations;
@@ -183,12 +336,17 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     if (material.uniforms.uZ0) material.uniforms.uZ0.value = new THREE.Vector2(zReal, zImag);
     if (material.uniforms.uC) material.uniforms.uC.value = new THREE.Vector2(cReal, cImag);
     if (material.uniforms.uX) material.uniforms.uX.value = new THREE.Vector2(xReal, xImag);
+    applyParameterUniforms(material, parameters);
     if (material.uniforms.uGamma) material.uniforms.uGamma.value = toneParamsRef.current.gamma;
     if (material.uniforms.uBandStrength) material.uniforms.uBandStrength.value = toneParamsRef.current.bandStrength;
     if (material.uniforms.uBandCenter) material.uniforms.uBandCenter.value = toneParamsRef.current.bandCenter;
     if (material.uniforms.uBandWidth) material.uniforms.uBandWidth.value = toneParamsRef.current.bandWidth;
     if (material.uniforms.uInteriorEnabled) material.uniforms.uInteriorEnabled.value = toneParamsRef.current.interiorEnabled ? 1 : 0;
     if (material.uniforms.uBands) material.uniforms.uBands.value = toneParamsRef.current.bands|0;
+    if (material.uniforms.uColoring) material.uniforms.uColoring.value = COLORING_MODES.indexOf(toneParamsRef.current.coloring);
+    if (material.uniforms.uStripeDensity) material.uniforms.uStripeDensity.value = toneParamsRef.current.stripeDensity;
+    if (material.uniforms.uAverageBlend) material.uniforms.uAverageBlend.value = toneParamsRef.current.averageBlend;
+    applyOrbitTrapUniforms(material, orbitTrapRef.current.trap, orbitTrapRef.current.texture);
 
     // Mesh
     const mesh = new THREE.Mesh(geometry, material);
@@ -209,46 +367,125 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     return () => {
       window.removeEventListener('resize', handleResize);
       geometry.dispose();
+      (material.uniforms.uRefOrbit?.value as THREE.DataTexture | undefined)?.dispose();
       material.dispose();
       renderer.dispose();
     };
-  }, [width, height, materialKey]);
+  }, [width, height, formula]);
 
-  // Update viewport when initialViewport prop changes
+  // Lost contexts (GPU reset, too many contexts) switch to the CPU renderer too
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleContextLost = () => setCpuFallback(true);
+    canvas.addEventListener('webglcontextlost', handleContextLost);
+    return () => canvas.removeEventListener('webglcontextlost', handleContextLost);
+  }, []);
+
+  // CPU fallback: render the same formula in tiles on worker threads
   useEffect(() => {
-    if (!initialViewport || !materialRef.current) return;
-
-    viewStateRef.current.offset.x = initialViewport.x;
-    viewStateRef.current.offset.y = initialViewport.y;
-    viewStateRef.current.scale = initialViewport.zoom;
-
-    // Update uniforms
-    materialRef.current.uniforms.offset.value.set(initialViewport.x, initialViewport.y);
-    materialRef.current.uniforms.scale.value = initialViewport.zoom;
-
-    // Update high precision uniforms if they exist
-    if (materialRef.current.uniforms.offsetMostSignificant) {
-      materialRef.current.uniforms.offsetMostSignificant.value.set(initialViewport.x, initialViewport.y);
-      materialRef.current.uniforms.offsetLeastSignificant.value.set(
-        initialViewport.x - Math.fround(initialViewport.x),
-        initialViewport.y - Math.fround(initialViewport.y)
-      );
+    if (!cpuFallback) return;
+    const tileRenderer = new TileRenderer();
+    tileRendererRef.current = tileRenderer;
+    return () => {
+      tileRenderer.destroy();
+      tileRendererRef.current = null;
+    };
+  }, [cpuFallback]);
+
+  const paletteColors = useMemo(() => getPaletteColors(paletteName), [paletteName]);
+  const trapPixels = useMemo(() => (cpuFallback && trapImage ? trapImagePixels(trapImage) : undefined), [cpuFallback, trapImage]);
+
+  const renderCpu = useCallback(() => {
+    const ctx = cpuCanvasRef.current?.getContext('2d');
+    if (!ctx || !tileRendererRef.current) return;
+    const { viewport } = viewStateRef.current;
+    const center = viewportCenter(viewport);
+    // Same mapping as the shaders: zoom is half the view height in the plane
+    tileRendererRef.current.render(ctx, {
+      formulaKey: formula.key,
+      inputs: {
+        z: { re: zReal, im: zImag },
+        c: { re: cReal, im: cImag },
+        x: { re: xReal, im: xImag },
+        n: power,
+        params: parameters,
+        equation: customEquation,
+        relaxation,
+      },
+      view: { centerX: center.x, centerY: center.y, pixelSize: (2 * viewport.zoom) / height, width, height, yUp: true },
+      maxIterations: iterations,
+      colorMode: coloring === 'escape-time' ? undefined : coloring,
+      palette: paletteColors,
+      tone: { gamma, bands: bands | 0, bandStrength, bandCenter, bandWidth },
+      averaging: { stripeDensity, blend: averageBlend },
+      orbitTrap,
+      trapImage: trapPixels,
+    });
+  }, [formula, customEquation, zReal, zImag, cReal, cImag, xReal, xImag, power, parameters, relaxation, iterations, coloring, paletteColors, gamma, bands, bandStrength, bandCenter, bandWidth, stripeDensity, averageBlend, orbitTrap, trapPixels, width, height]);
+
+  // Re-render whenever the inputs change; view changes call it through the ref
+  const renderCpuRef = useRef(renderCpu);
+  useEffect(() => {
+    renderCpuRef.current = renderCpu;
+    if (cpuFallback) renderCpu();
+  }, [cpuFallback, renderCpu]);
+
+  // Push the view state to the shader uniforms, or redraw the CPU fallback
+  const applyViewState = useCallback(() => {
+    const { viewport } = viewStateRef.current;
+    const material = materialRef.current;
+    if (material) {
+      const center = viewportCenter(viewport);
+      material.uniforms.offset.value.set(center.x, center.y);
+      material.uniforms.scale.value = viewport.zoom;
+
+      // Update high precision uniforms if they exist
+      if (material.uniforms.offsetMostSignificant) {
+        const { hi, lo } = splitViewportCenter(viewport);
+        material.uniforms.offsetMostSignificant.value.set(hi.x, hi.y);
+        material.uniforms.offsetLeastSignificant.value.set(lo.x, lo.y);
+      }
+      requestReferenceOrbit();
     }
-  }, [initialViewport]);
+    setDeepZoom(viewport.zoom < PERTURBATION_ZOOM);
+    if (tileRendererRef.current) renderCpuRef.current();
+  }, [requestReferenceOrbit]);
 
-  // Update material when materialKey or customEquation changes
+  // Update viewport when initialViewport prop changes
+  useEffect(() => {
+    if (!initialViewport) return;
+
+    viewStateRef.current.viewport = initialViewport;
+    applyViewState();
+  }, [initialViewport, applyViewState]);
+
+  // Fly to a requested view: longer flights for deeper zoom changes, eased at both ends
+  useEffect(() => {
+    if (!flyTo) return;
+    const from = viewStateRef.current.viewport;
+    const duration = Math.min(FLIGHT_MAX_MS, FLIGHT_MIN_MS + FLIGHT_MS_PER_OCTAVE * Math.abs(Math.log2(flyTo.zoom / from.zoom)));
+    const start = performance.now();
+    let frame = requestAnimationFrame(function fly(now: number) {
+      const t = Math.min(1, (now - start) / duration);
+      viewStateRef.current.viewport = interpolateViewport(from, flyTo, t * t * (3 - 2 * t));
+      applyViewState();
+      onViewportChange?.(viewStateRef.current.viewport);
+      if (t < 1) frame = requestAnimationFrame(fly);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [flyTo, applyViewState, onViewportChange]);
+
+  // Update material when the formula or customEquation changes
   useEffect(() => {
     if (!sceneRef.current || !meshRef.current) return;
 
     const oldMaterial = materialRef.current;
     
-    let newMaterial: THREE.RawShaderMaterial;
-    if (materialKey === 'custom' && customEquation) {
-      newMaterial = createCustomMaterial();
-    } else {
-      const materialFactory = materials[materialKey];
-      newMaterial = materialFactory();
-    }
+    const compiled = perturbation ? createPerturbationMaterial(perturbation) : formula.createMaterial(customEquation);
+    // Keep rendering the last valid equation while the user is mid-edit
+    if (!compiled && formula.equationKind && equationActiveRef.current) return;
+    const newMaterial = compiled ?? formula.createMaterial()!;
 
     // Preserve viewport state
     newMaterial.uniforms.resolution.value.copy(oldMaterial!.uniforms.resolution.value);
@@ -267,21 +504,30 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     if (newMaterial.uniforms.uC) newMaterial.uniforms.uC.value = new THREE.Vector2(cReal, cImag);
     if (newMaterial.uniforms.uX) newMaterial.uniforms.uX.value = new THREE.Vector2(xReal, xImag);
     if (newMaterial.uniforms.uPower) newMaterial.uniforms.uPower.value = power;
+    applyParameterUniforms(newMaterial, parameters);
     if (newMaterial.uniforms.uGamma) newMaterial.uniforms.uGamma.value = toneParamsRef.current.gamma;
     if (newMaterial.uniforms.uBandStrength) newMaterial.uniforms.uBandStrength.value = toneParamsRef.current.bandStrength;
     if (newMaterial.uniforms.uBandCenter) newMaterial.uniforms.uBandCenter.value = toneParamsRef.current.bandCenter;
     if (newMaterial.uniforms.uBandWidth) newMaterial.uniforms.uBandWidth.value = toneParamsRef.current.bandWidth;
     if (newMaterial.uniforms.uInteriorEnabled) newMaterial.uniforms.uInteriorEnabled.value = toneParamsRef.current.interiorEnabled ? 1 : 0;
     if (newMaterial.uniforms.uBands) newMaterial.uniforms.uBands.value = toneParamsRef.current.bands|0;
+    if (newMaterial.uniforms.uColoring) newMaterial.uniforms.uColoring.value = COLORING_MODES.indexOf(toneParamsRef.current.coloring);
+    if (newMaterial.uniforms.uStripeDensity) newMaterial.uniforms.uStripeDensity.value = toneParamsRef.current.stripeDensity;
+    if (newMaterial.uniforms.uAverageBlend) newMaterial.uniforms.uAverageBlend.value = toneParamsRef.current.averageBlend;
+    applyOrbitTrapUniforms(newMaterial, orbitTrapRef.current.trap, orbitTrapRef.current.texture);
 
     meshRef.current.material = newMaterial;
     materialRef.current = newMaterial;
+    equationActiveRef.current = compiled !== null && formula.equationKind !== undefined;
+
+    requestReferenceOrbit();
 
     if (oldMaterial) {
+      (oldMaterial.uniforms.uRefOrbit?.value as THREE.DataTexture | undefined)?.dispose();
       oldMaterial.dispose();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [materialKey, customEquation]);
+  }, [formula, customEquation, perturbation]);
   // Note: paletteName, iterations, and z/c/x params have their own effects - no need to recreate material
 
   // React to palette changes without recreating material
@@ -301,6 +547,8 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
 
   // Update z, c, and x parameters
   useEffect(() => {
+    referenceInputsRef.current = { z: { re: zReal, im: zImag }, c: { re: cReal, im: cImag } };
+    requestReferenceOrbit();
     if (!materialRef.current) return;
     if (materialRef.current.uniforms.uZ0) {
       materialRef.current.uniforms.uZ0.value = new THREE.Vector2(zReal, zImag);
@@ -311,12 +559,54 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     if (materialRef.current.uniforms.uX) {
       materialRef.current.uniforms.uX.value = new THREE.Vector2(xReal, xImag);
     }
-  }, [zReal, zImag, cReal, cImag, xReal, xImag]);
+  }, [zReal, zImag, cReal, cImag, xReal, xImag, requestReferenceOrbit]);
+
+  // Update declared equation parameters
+  useEffect(() => {
+    if (!materialRef.current) return;
+    applyParameterUniforms(materialRef.current, parameters);
+  }, [parameters]);
+
+  // Move, resize or reshape the orbit trap without recreating the material
+  useEffect(() => {
+    orbitTrapRef.current = { trap: orbitTrap, texture: trapTexture };
+    if (!materialRef.current) return;
+    applyOrbitTrapUniforms(materialRef.current, orbitTrap, trapTexture);
+  }, [orbitTrap, trapTexture]);
+
+  useEffect(() => () => trapTexture?.dispose(), [trapTexture]);
+
+  // Newton: locate the roots of f for basin colouring whenever f or its parameters change
+  const newtonSystem = useMemo(
+    () => (formula.equationKind === 'newton' && customEquation ? buildNewtonSystem(customEquation).system : null),
+    [formula, customEquation]
+  );
+
+  useEffect(() => {
+    const material = materialRef.current;
+    if (!material || !newtonSystem || !material.uniforms.uRoots) return;
+    const roots = findNewtonRoots(newtonSystem, {
+      c: { re: cReal, im: cImag },
+      x: { re: xReal, im: xImag },
+      n: power,
+      params: parameters,
+    });
+    const slots = material.uniforms.uRoots.value as THREE.Vector2[];
+    slots.forEach((slot, i) => slot.set(roots[i]?.re ?? 0, roots[i]?.im ?? 0));
+    material.uniforms.uRootCount.value = roots.length;
+    material.uniforms.uRelax.value = relaxation;
+    // width/height: the init effect rebuilds the material on resize
+  }, [newtonSystem, cReal, cImag, xReal, xImag, power, parameters, relaxation, width, height]);
 
   useEffect(() => {
     if (!materialRef.current) return;
     targetItersRef.current = iterations;
-  }, [iterations]);
+    requestReferenceOrbit();
+  }, [iterations, requestReferenceOrbit]);
+
+  useEffect(() => {
+    onSkippedIterationsRef.current = onSkippedIterations;
+  }, [onSkippedIterations]);
 
   useEffect(() => {
     autoEnabledRef.current = autoAdjustIterations;
@@ -324,7 +614,7 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
 
   useEffect(() => { autoToneRef.current = autoTone; }, [autoTone]);
   useEffect(() => {
-    toneParamsRef.current = { gamma, bandStrength, bandCenter, bandWidth, interiorEnabled, bands };
+    toneParamsRef.current = { gamma, bandStrength, bandCenter, bandWidth, interiorEnabled, bands, coloring, stripeDensity, averageBlend };
     if (!materialRef.current) return;
     if (!autoToneRef.current) {
       if (materialRef.current.uniforms.uGamma) materialRef.current.uniforms.uGamma.value = gamma;
@@ -334,7 +624,10 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     if (materialRef.current.uniforms.uBandWidth) materialRef.current.uniforms.uBandWidth.value = bandWidth;
     if (materialRef.current.uniforms.uInteriorEnabled) materialRef.current.uniforms.uInteriorEnabled.value = interiorEnabled ? 1 : 0;
     if (materialRef.current.uniforms.uBands) materialRef.current.uniforms.uBands.value = bands|0;
-  }, [gamma, bandStrength, bandCenter, bandWidth, interiorEnabled, bands, autoTone]);
+    if (materialRef.current.uniforms.uColoring) materialRef.current.uniforms.uColoring.value = COLORING_MODES.indexOf(coloring);
+    if (materialRef.current.uniforms.uStripeDensity) materialRef.current.uniforms.uStripeDensity.value = stripeDensity;
+    if (materialRef.current.uniforms.uAverageBlend) materialRef.current.uniforms.uAverageBlend.value = averageBlend;
+  }, [gamma, bandStrength, bandCenter, bandWidth, interiorEnabled, bands, coloring, stripeDensity, averageBlend, autoTone]);
 
   // Animation loop
   useEffect(() => {
@@ -343,13 +636,15 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
 
       if (!rendererRef.current || !sceneRef.current || !materialRef.current) return;
 
+      if (referenceDirtyRef.current) updateReferenceOrbit();
+
       // Update time for animated fractals (Julia)
       const currentTime = (Date.now() - startTimeRef.current) / 1000;
       materialRef.current.uniforms.time.value = currentTime;
 
       // Adaptive cinematic tone based on zoom depth (compromise for overview vs deep zoom)
       if (autoToneRef.current) {
-        const s = Math.max(1e-9, viewStateRef.current.scale);
+        const s = Math.max(1e-9, viewStateRef.current.viewport.zoom);
         const depth = Math.max(0, Math.min(1, (Math.log2(1 / s) + 2.0) / 12.0));
         const effectiveGamma = 0.9 + (1.6 - 0.9) * depth;
         const effectiveBandStrength = 0.2 + (0.9 - 0.2) * depth;
@@ -394,8 +689,9 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
         const rounded = Math.max(1, Math.round(next));
         materialRef.current.uniforms.uIters.value = rounded;
         // Safety: if manual target exceeds cap, trigger recompile
-        if (rounded > maxItersCapRef.current) {
-          maybeRecompileWithCap(rounded);
+        // The perturbation shader's loop starts after the iterations the series skips
+        if (rounded - skippedRef.current > maxItersCapRef.current) {
+          maybeRecompileWithCap(rounded - skippedRef.current);
         }
       }
     };
@@ -440,14 +736,16 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     const normalizedY = py / rect.height;
     
     const aspectRatio = rect.width / rect.height;
-    const complexX = ((normalizedX - 0.5) * 2 * aspectRatio * viewStateRef.current.scale) + viewStateRef.current.offset.x;
-    const complexY = ((0.5 - normalizedY) * 2 * viewStateRef.current.scale) + viewStateRef.current.offset.y;
+    const { viewport } = viewStateRef.current;
+    const center = viewportCenter(viewport);
+    const complexX = ((normalizedX - 0.5) * 2 * aspectRatio * viewport.zoom) + center.x;
+    const complexY = ((0.5 - normalizedY) * 2 * viewport.zoom) + center.y;
 
     onClick(normalizedX, normalizedY, complexX, complexY);
   }, [onClick]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!dragStateRef.current.isDragging || !canvasRef.current || !materialRef.current) return;
+    if (!dragStateRef.current.isDragging || !canvasRef.current) return;
 
     const deltaX = e.clientX - dragStateRef.current.dragStart.x;
     const deltaY = e.clientY - dragStateRef.current.dragStart.y;
@@ -456,38 +754,25 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     const ndcDeltaX = (deltaX / rect.width) * 2;
     const ndcDeltaY = (deltaY / rect.height) * 2;
 
+    const { viewport } = viewStateRef.current;
     if (dragStateRef.current.state === 'PAN') {
-      viewStateRef.current.offset.x -= ndcDeltaX * viewStateRef.current.scale;
-      viewStateRef.current.offset.y += ndcDeltaY * viewStateRef.current.scale;
+      viewStateRef.current.viewport = panViewport(viewport, -ndcDeltaX * viewport.zoom, ndcDeltaY * viewport.zoom);
+      applyViewState();
 
-      // Update standard offset uniform
-      materialRef.current.uniforms.offset.value.set(
-        viewStateRef.current.offset.x,
-        viewStateRef.current.offset.y
-      );
-
-      // Update high precision uniforms if they exist
-      if (materialRef.current.uniforms.offsetMostSignificant) {
-        const x = viewStateRef.current.offset.x;
-        const y = viewStateRef.current.offset.y;
-        materialRef.current.uniforms.offsetMostSignificant.value.set(x, y);
-        materialRef.current.uniforms.offsetLeastSignificant.value.set(
-          x - Math.fround(x), 
-          y - Math.fround(y)
-        );
-      }
-
-      onPan?.(viewStateRef.current.offset.x, viewStateRef.current.offset.y);
+      const center = viewportCenter(viewStateRef.current.viewport);
+      onPan?.(center.x, center.y);
+      onViewportChange?.(viewStateRef.current.viewport);
     } else if (dragStateRef.current.state === 'ZOOM') {
       const zoomFactor = Math.pow(2, deltaY * 0.01);
-      viewStateRef.current.scale *= zoomFactor;
-      materialRef.current.uniforms.scale.value = viewStateRef.current.scale;
+      viewStateRef.current.viewport = zoomViewport(viewport, zoomFactor);
+      applyViewState();
 
-      onZoom?.(viewStateRef.current.scale);
+      onZoom?.(viewStateRef.current.viewport.zoom);
+      onViewportChange?.(viewStateRef.current.viewport);
     }
 
     dragStateRef.current.dragStart = { x: e.clientX, y: e.clientY };
-  }, [onZoom, onPan]);
+  }, [onZoom, onPan, onViewportChange, applyViewState]);
 
   const handleMouseUp = useCallback(() => {
     dragStateRef.current.isDragging = false;
@@ -497,7 +782,7 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
 
-    if (!materialRef.current || !canvasRef.current) return;
+    if (!canvasRef.current) return;
 
     const rect = canvasRef.current.getBoundingClientRect();
     const aspectRatio = rect.width / rect.height;
@@ -506,41 +791,24 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
     const mouseX = ((e.clientX - rect.left) / rect.width) * 2 - 1;
     const mouseY = -((e.clientY - rect.top) / rect.height) * 2 + 1;
 
-    // Calculate fractal space coordinates under the mouse before zoom
+    // Offset of the mouse from the centre in fractal space
     // Account for aspect ratio in X direction (matches shader calculation)
-    const fractalX = viewStateRef.current.offset.x + mouseX * aspectRatio * viewStateRef.current.scale;
-    const fractalY = viewStateRef.current.offset.y + mouseY * viewStateRef.current.scale;
+    const { viewport } = viewStateRef.current;
+    const anchorX = mouseX * aspectRatio * viewport.zoom;
+    const anchorY = mouseY * viewport.zoom;
 
     // Inverted: scroll down (deltaY > 0) = zoom in (smaller scale)
     const zoomFactor = e.deltaY > 0 ? 1.25 : 0.8;
-    const newScale = viewStateRef.current.scale * zoomFactor;
-    viewStateRef.current.scale = newScale;
-
-    // Adjust center to keep the mouse-pointed location fixed
-    viewStateRef.current.offset.x = fractalX - mouseX * aspectRatio * newScale;
-    viewStateRef.current.offset.y = fractalY - mouseY * newScale;
-
-    // Update uniforms
-    materialRef.current.uniforms.scale.value = newScale;
-    materialRef.current.uniforms.offset.value.set(
-      viewStateRef.current.offset.x,
-      viewStateRef.current.offset.y
-    );
-
-    // Update high precision uniforms if they exist
-    if (materialRef.current.uniforms.offsetMostSignificant) {
-      const x = viewStateRef.current.offset.x;
-      const y = viewStateRef.current.offset.y;
-      materialRef.current.uniforms.offsetMostSignificant.value.set(x, y);
-      materialRef.current.uniforms.offsetLeastSignificant.value.set(
-        x - Math.fround(x), 
-        y - Math.fround(y)
-      );
-    }
 
-    onZoom?.(newScale);
-    onPan?.(viewStateRef.current.offset.x, viewStateRef.current.offset.y);
-  }, [onZoom, onPan]);
+    // Zoom about the mouse so the pointed-at location stays fixed
+    viewStateRef.current.viewport = zoomViewport(viewport, zoomFactor, anchorX, anchorY);
+    applyViewState();
+
+    const center = viewportCenter(viewStateRef.current.viewport);
+    onZoom?.(viewStateRef.current.viewport.zoom);
+    onPan?.(center.x, center.y);
+    onViewportChange?.(viewStateRef.current.viewport);
+  }, [onZoom, onPan, onViewportChange, applyViewState]);
 
   return (
     <div
@@ -555,6 +823,14 @@ export const ThreeJsFractalRenderer: React.FC<ThreeJsFractalRendererProps> = ({
       onContextMenu={(e) => e.preventDefault()}
     >
       <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+      {cpuFallback && (
+        <canvas
+          ref={cpuCanvasRef}
+          width={width}
+          height={height}
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { FormulaInputs, FractalViewport } from '@/lib/fractals/formula-registry';
+import { BuddhabrotRenderer } from '@/lib/render/buddhabrot-renderer';
+import { ToneMapping } from '@/lib/render/buddhabrot';
+import { getPaletteColors, PaletteName, DEFAULT_PALETTE } from '@/lib/utils/palettes';
+
+interface BuddhabrotCanvasProps {
+  width: number;
+  height: number;
+  viewport: FractalViewport;
+  /** Mandelbrot inputs: z0, the c offset and the exponent x */
+  inputs: FormulaInputs;
+  /** One iteration limit for the Buddhabrot, or red, green and blue limits for the Nebulabrot */
+  limits: number[];
+  toneMapping: ToneMapping;
+  paletteName?: PaletteName;
+  /** Samples accumulated so far, reported as the image refines */
+  onProgress?: (samples: number) => void;
+}
+
+/**
+ * Buddhabrot or Nebulabrot of the view, drawn on black in place of the Mandelbrot shader
+ * It refines until the view or inputs change, then starts over
+ */
+export const BuddhabrotCanvas: React.FC<BuddhabrotCanvasProps> = ({
+  width,
+  height,
+  viewport,
+  inputs,
+  limits,
+  toneMapping,
+  paletteName = DEFAULT_PALETTE,
+  onProgress,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<BuddhabrotRenderer | null>(null);
+  const onProgressRef = useRef(onProgress);
+
+  useEffect(() => {
+    onProgressRef.current = onProgress;
+  }, [onProgress]);
+
+  useEffect(() => {
+    const renderer = new BuddhabrotRenderer({ onProgress: (samples) => onProgressRef.current?.(samples) });
+    rendererRef.current = renderer;
+    return () => {
+      renderer.destroy();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.setTone(toneMapping, getPaletteColors(paletteName));
+  }, [toneMapping, paletteName]);
+
+  // Limits arrive as a fresh array each render; compare them by value
+  const limitsKey = limits.join(',');
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !rendererRef.current) return;
+    rendererRef.current.render(ctx, {
+      inputs,
+      view: { centerX: viewport.x, centerY: viewport.y, pixelSize: (2 * viewport.zoom) / height, width, height, yUp: true },
+      limits: limitsKey.split(',').map(Number),
+    });
+  }, [width, height, viewport, inputs, limitsKey]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 pointer-events-none bg-black"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+};
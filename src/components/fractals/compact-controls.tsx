@@ -1,9 +1,12 @@
 'use client';
 
 import React, { useState } from 'react';
+import { FractalFormula } from '@/lib/fractals/formula-registry';
+import { COLORING_MODE_LABELS, COLORING_MODES, ColoringMode, isAveragingMode } from '@/lib/utils/color-utils';
+import { MAX_SHADER_ITERATIONS } from '@/lib/webgl/shader-materials';
 
 interface CompactControlsProps {
-  presets: Record<string, { label: string; defaultIterations: number; equation?: string; materialKey?: string; viewport?: unknown; showZ?: boolean; showC?: boolean; showX?: boolean; [key: string]: unknown }>;
+  presets: Record<string, FractalFormula>;
   onPresetSelect: (presetKey: string) => void;
   maxIterations: number;
   onIterationsChange: (value: number) => void;
@@ -13,6 +16,12 @@ interface CompactControlsProps {
   palette: string;
   palettes: string[];
   onPaletteChange: (name: string) => void;
+  coloring?: ColoringMode;
+  onColoringChange?: (mode: ColoringMode) => void;
+  stripeDensity?: number;
+  onStripeDensityChange?: (v: number) => void;
+  averageBlend?: number;
+  onAverageBlendChange?: (v: number) => void;
   showAdvanced?: boolean;
   onShowAdvancedChange?: (show: boolean) => void;
   autoIterations?: boolean;
@@ -52,6 +61,9 @@ const SectionHeader: React.FC<{ children: React.ReactNode; color: 'cyan' | 'purp
   );
 };
 
+// Logarithmic sliders run the input over 0..LOG_SLIDER_STEPS and map it back to the value
+const LOG_SLIDER_STEPS = 1000;
+
 // Slider component with gradient fill
 const Slider: React.FC<{
   label: string;
@@ -62,8 +74,15 @@ const Slider: React.FC<{
   onChange: (v: number) => void;
   color?: string;
   unit?: string;
-}> = ({ label, value, min, max, step = 0.01, onChange, color = '#22d3ee', unit = '' }) => {
-  const percent = ((value - min) / (max - min)) * 100;
+  logarithmic?: boolean; // track position follows log(value), for ranges spanning decades
+}> = ({ label, value, min, max, step = 0.01, onChange, color = '#22d3ee', unit = '', logarithmic = false }) => {
+  const position = logarithmic ? (Math.log(value / min) / Math.log(max / min)) * LOG_SLIDER_STEPS : value;
+  const percent = logarithmic ? (position / LOG_SLIDER_STEPS) * 100 : ((value - min) / (max - min)) * 100;
+  const fromPosition = (p: number) => {
+    if (!logarithmic) return p;
+    const raw = min * Math.pow(max / min, p / LOG_SLIDER_STEPS);
+    return Math.min(max, Math.max(min, Math.round(raw / step) * step));
+  };
   
   return (
     <div className="space-y-2">
@@ -78,11 +97,11 @@ const Slider: React.FC<{
       </div>
       <input
         type="range"
-        min={min}
-        max={max}
-        step={step}
-        value={value}
-        onChange={(e) => onChange(parseFloat(e.target.value))}
+        min={logarithmic ? 0 : min}
+        max={logarithmic ? LOG_SLIDER_STEPS : max}
+        step={logarithmic ? 1 : step}
+        value={position}
+        onChange={(e) => onChange(fromPosition(parseFloat(e.target.value)))}
         className="w-full h-1.5 rounded-full cursor-pointer appearance-none"
         style={{ 
           background: `linear-gradient(to right, ${color} 0%, ${color} ${percent}%, rgba(51, 65, 85, 0.5) ${percent}%, rgba(51, 65, 85, 0.5) 100%)` 
@@ -125,6 +144,12 @@ export function CompactControls({
   palette,
   palettes,
   onPaletteChange,
+  coloring = 'escape-time',
+  onColoringChange,
+  stripeDensity = 5,
+  onStripeDensityChange,
+  averageBlend = 0,
+  onAverageBlendChange,
   showAdvanced = false,
   onShowAdvancedChange,
   autoTone = false,
@@ -191,8 +216,9 @@ export function CompactControls({
             label="Max Iterations"
             value={maxIterations}
             min={10}
-            max={512}
+            max={MAX_SHADER_ITERATIONS}
             step={5}
+            logarithmic
             onChange={onIterationsChange}
             color="#a78bfa"
           />
@@ -317,6 +343,44 @@ export function CompactControls({
             <option key={p} value={p} className="bg-slate-900">{p}</option>
           ))}
         </select>
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs text-slate-400" title="Atom domains colour each point by the step where |z| came closest to 0 (Mandelbrot, Julia, Tricorn); orbit traps by how close its orbit came to a shape you place on the view; the averages by the mean stripe, triangle inequality or curvature term along an escaping orbit">
+            Coloring
+          </span>
+          <select
+            value={coloring}
+            onChange={(e) => onColoringChange?.(e.target.value as ColoringMode)}
+            className="flex-1 px-2 py-1 bg-slate-900/60 border border-slate-600/50 rounded text-white text-xs hover:border-pink-500/50 transition-all cursor-pointer"
+          >
+            {COLORING_MODES.map((mode) => (
+              <option key={mode} value={mode} className="bg-slate-900">{COLORING_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        {isAveragingMode(coloring) && (
+          <div className="p-3 bg-slate-900/40 rounded-lg border border-slate-700/30 space-y-3">
+            {coloring === 'stripe-average' && (
+              <Slider
+                label="Stripe Density"
+                value={stripeDensity}
+                min={1}
+                max={20}
+                step={0.5}
+                onChange={(v) => onStripeDensityChange?.(v)}
+                color="#f472b6"
+              />
+            )}
+            <Slider
+              label="Escape Time Blend"
+              value={averageBlend}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(v) => onAverageBlendChange?.(v)}
+              color="#f472b6"
+            />
+          </div>
+        )}
       </div>
 
       {/* ═══ RESET ═══ */}
@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { DimensionEstimate } from '@/lib/analysis/box-counting';
+
+interface DimensionPlotProps {
+  estimate: DimensionEstimate;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 4;
+
+/** Log-log plot of box counts against box size, with the fitted line; unfitted counts are dimmed */
+export function DimensionPlot({ estimate, width = 156, height = 80 }: DimensionPlotProps) {
+  const xs = estimate.counts.map((count) => -Math.log2(count.size));
+  const ys = estimate.counts.map((count) => Math.log2(Math.max(count.boxes, 1)));
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const toX = (x: number) => PADDING + ((x - minX) / (maxX - minX || 1)) * (width - 2 * PADDING);
+  const toY = (y: number) => height - PADDING - ((y - minY) / (maxY - minY || 1)) * (height - 2 * PADDING);
+
+  // The fit drawn across the fitted range only
+  const fittedXs = xs.filter((_, i) => estimate.fitted[i]);
+  const lineFrom = Math.min(...fittedXs);
+  const lineTo = Math.max(...fittedXs);
+  const lineY = (x: number) => toY(estimate.intercept + estimate.dimension * x);
+
+  return (
+    <svg width={width} height={height} className="block">
+      <rect x={0} y={0} width={width} height={height} fill="rgba(15, 23, 42, 0.6)" rx={3} />
+      <line x1={toX(lineFrom)} y1={lineY(lineFrom)} x2={toX(lineTo)} y2={lineY(lineTo)} stroke="#f472b6" strokeWidth={1.5} />
+      {xs.map((x, i) => (
+        <circle key={i} cx={toX(x)} cy={toY(ys[i])} r={2} fill={estimate.fitted[i] ? '#22d3ee' : '#475569'} />
+      ))}
+      <text x={PADDING} y={height - PADDING} fill="#64748b" fontSize={8} fontFamily="monospace">log 1/ε</text>
+      <text x={PADDING} y={PADDING + 7} fill="#64748b" fontSize={8} fontFamily="monospace">log N</text>
+    </svg>
+  );
+}
@@ -1,9 +1,12 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef } from 'react';
 import { InlineMath } from 'react-katex';
 import 'katex/dist/katex.min.css';
-import { ParsedEquation, validateEquationSyntax } from '@/lib/math/equation-parser';
+import { EquationError, ParsedEquation, parseEquationAst } from '@/lib/math/equation-parser';
+import { equationToLatex, LatexOptions, textToLatex, withConditionsLatex, withDefinitionsLatex } from '@/lib/math/equation-latex';
+import { Complex } from '@/lib/math/complex';
+import { applySuggestion, diagnoseEquation } from '@/lib/math/equation-diagnostics';
 
 interface EquationDisplayProps {
   equation: string;
@@ -11,37 +14,32 @@ interface EquationDisplayProps {
   parsed: ParsedEquation | null;
   power?: number;
   onPowerChange?: (n: number) => void;
+  label?: string;
+  placeholder?: string;
+  /** How z is printed in the rendered equation (z_n for iterations, z for f(z)) */
+  iterate?: string;
+  /** Slider values printed in place of their symbols */
+  substitutions?: Record<string, Complex>;
+  /** Flag non-analytic functions, for equations that get differentiated */
+  requireAnalytic?: boolean;
 }
 
 /**
- * Convert simple equation notation to LaTeX math notation
- * z**2 -> z^2, etc.
+ * Split the equation into plain and flagged segments for the underline overlay
+ * Zero-width spans (missing text at the end) get a one-character marker
  */
-function equationToLatex(eq: string): string {
-  if (!eq) return '';
-  
-  // First, normalize the input by handling common patterns
-  const latex = eq
-    // Replace ** with ^ for powers
-    .replace(/\*\*/g, '^')
-    // Wrap multi-digit or complex powers in braces
-    .replace(/\^([a-zA-Z0-9]{2,}|\{[^}]+\})/g, '^{$1}')
-    // Replace common functions with proper LaTeX BEFORE general replacements
-    .replace(/abs\s*\(\s*([^)]+)\s*\)/g, '\\left|$1\\right|')
-    .replace(/conj\s*\(\s*([^)]+)\s*\)/g, '\\overline{$1}')
-    .replace(/sqrt\s*\(\s*([^)]+)\s*\)/g, '\\sqrt{$1}')
-    .replace(/sin\s*\(\s*([^)]+)\s*\)/g, '\\sin($1)')
-    .replace(/cos\s*\(\s*([^)]+)\s*\)/g, '\\cos($1)')
-    .replace(/tan\s*\(\s*([^)]+)\s*\)/g, '\\tan($1)')
-    .replace(/exp\s*\(\s*([^)]+)\s*\)/g, 'e^{$1}')
-    .replace(/log\s*\(\s*([^)]+)\s*\)/g, '\\log($1)')
-    .replace(/ln\s*\(\s*([^)]+)\s*\)/g, '\\ln($1)')
-    // Clean up spacing around operators
-    .replace(/\s*\+\s*/g, ' + ')
-    .replace(/\s*-\s*/g, ' - ')
-    .replace(/\s*\/\s*/g, ' \\div ');
-
-  return latex;
+function underlineSegments(equation: string, diagnostics: EquationError[]): { text: string; error?: EquationError }[] {
+  const segments: { text: string; error?: EquationError }[] = [];
+  let cursor = 0;
+  for (const error of diagnostics) {
+    const start = Math.max(error.span.start, cursor);
+    if (start > error.span.end) continue;
+    if (start > cursor) segments.push({ text: equation.slice(cursor, start) });
+    segments.push({ text: equation.slice(start, error.span.end) || ' ', error });
+    cursor = Math.max(error.span.end, cursor);
+  }
+  if (cursor < equation.length) segments.push({ text: equation.slice(cursor) });
+  return segments;
 }
 
 export const EquationDisplay: React.FC<EquationDisplayProps> = ({
@@ -49,37 +47,72 @@ export const EquationDisplay: React.FC<EquationDisplayProps> = ({
   onEquationChange,
   parsed,
   power,
-  onPowerChange
+  onPowerChange,
+  label = 'Equation:',
+  placeholder = 'e.g., z^n + c, sin(z^n)+c',
+  iterate = 'z_n',
+  substitutions,
+  requireAnalytic = false
 }) => {
-  const latexEquation = useMemo(() => equationToLatex(equation), [equation]);
-  const validation = useMemo(() => validateEquationSyntax(equation), [equation]);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const latexEquation = useMemo(() => {
+    const result = parsed?.raw === equation.trim() ? parsed : parseEquationAst(equation.trim());
+    if (!result.ast) return textToLatex(equation);
+    const options: LatexOptions = { iterate, substitutions };
+    return withConditionsLatex(withDefinitionsLatex(equationToLatex(result.ast, options), result.definitions, options), result.conditions, options);
+  }, [equation, parsed, iterate, substitutions]);
+  const diagnostics = useMemo(
+    () => (equation.trim() ? diagnoseEquation(equation, { requireAnalytic }) : []),
+    [equation, requireAnalytic]
+  );
 
   return (
     <div className="bg-linear-to-r from-purple-900/30 to-cyan-900/30 border border-purple-500/30 rounded-lg p-4 space-y-3">
       {/* Header */}
       <div className="flex items-center justify-between">
-        <label className="text-sm font-medium text-gray-300">Equation:</label>
+        <label className="text-sm font-medium text-gray-300">{label}</label>
         <div className="flex items-center gap-3">
           {parsed && (
             <div className="text-xs text-cyan-400">
               Variables: {parsed.variables.map((v) => v.symbol).join(', ')}
             </div>
           )}
-          <div className={`text-xs px-2 py-0.5 rounded border ${validation.ok ? 'border-green-600 text-green-400' : 'border-red-600 text-red-400'}`}>
-            {validation.ok ? 'Valid' : validation.message || 'Invalid'}
-          </div>
+          {equation.trim() && diagnostics.length === 0 && (
+            <div className="text-xs px-2 py-0.5 rounded border border-green-600 text-green-400">Valid</div>
+          )}
         </div>
       </div>
 
       {/* Equation + quick n control */}
       <div className="flex items-center gap-3">
-        <input
-          type="text"
-          value={equation}
-          onChange={(e) => onEquationChange(e.target.value)}
-          placeholder="e.g., z^n + c, sin(z^n)+c"
-          className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-white text-sm font-mono focus:outline-none focus:border-cyan-500 transition"
-        />
+        <div className="relative flex-1">
+          <input
+            type="text"
+            value={equation}
+            onChange={(e) => onEquationChange(e.target.value)}
+            onScroll={(e) => {
+              if (overlayRef.current) overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+            }}
+            placeholder={placeholder}
+            spellCheck={false}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-white text-sm font-mono focus:outline-none focus:border-cyan-500 transition"
+          />
+          {/* Underlines drawn under the offending ranges; text is transparent so only the marks show */}
+          <div
+            ref={overlayRef}
+            aria-hidden
+            className="absolute inset-0 px-3 py-2 border border-transparent text-sm font-mono text-transparent whitespace-pre overflow-hidden pointer-events-none"
+          >
+            {underlineSegments(equation, diagnostics).map((segment, i) => (
+              <span
+                key={i}
+                className={segment.error ? 'underline decoration-wavy decoration-red-500 underline-offset-4' : undefined}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </div>
+        </div>
         {onPowerChange && (
           <div className="flex items-center gap-2">
             <label className="text-xs text-gray-300" title="Exponent n used in z^n or (expr)^n">n</label>
@@ -96,6 +129,26 @@ export const EquationDisplay: React.FC<EquationDisplayProps> = ({
         )}
       </div>
 
+      {/* Diagnostics with one-click fixes */}
+      {diagnostics.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {diagnostics.map((error, i) => (
+            <li key={i} className="flex flex-wrap items-center gap-x-2 text-red-300">
+              <span className="font-mono text-red-400">{error.span.start + 1}:</span>
+              <span>{error.message}</span>
+              {error.suggestion !== undefined && (
+                <button
+                  onClick={() => onEquationChange(applySuggestion(equation, error))}
+                  className="text-cyan-400 hover:text-cyan-300 underline underline-offset-2"
+                >
+                  {error.suggestion ? <>Did you mean <code>{applySuggestion(equation, error)}</code>?</> : 'Remove it'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* LaTeX rendered equation */}
       {equation && (
         <div className="bg-black/50 rounded border border-purple-500/30 overflow-hidden">
@@ -109,7 +162,7 @@ export const EquationDisplay: React.FC<EquationDisplayProps> = ({
 
       {/* Help text */}
       <p className="text-xs text-gray-400">
-        Supports powers with ^ or **, including z^n, (expr)^n, |z|^n, abs(z)^n, conj(z)^n. Functions accept implicit application: <code>sin z^n</code>, <code>imag z</code> → add parentheses automatically.
+        Supports powers with ^ or **, including z^n, (expr)^n, |z|^n, abs(z)^n, conj(z)^n. Functions accept implicit application: <code>sin z^n</code>, <code>imag z</code> → add parentheses automatically. Declare sliders before the equation: <code>a: real [0, 1] = 0.25; w: complex = 0.3+0.1i; z^2 + a*c + w</code>. Stop tests follow the equation: <code>escape |Re(z)| &gt; 50</code>, <code>until |z - zPrev| &lt; 1e-6</code>. Definitions go before it, each ended by <code>;</code>: <code>let w = z^2;</code>, <code>def fold(w) = if Re(w) &gt; 0 then w else -w;</code>, and <code>zPrev</code> is the previous iterate.
       </p>
     </div>
   );
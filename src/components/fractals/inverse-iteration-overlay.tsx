@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import { FractalViewport } from '@/lib/fractals/formula-registry';
+import { Complex } from '@/lib/math/complex';
+import { DensityResult, InverseIterationJob } from '@/lib/render/inverse-iteration';
+import { getPaletteColors, PaletteName, DEFAULT_PALETTE } from '@/lib/utils/palettes';
+
+export type InverseIterationMode = 'over' | 'instead';
+
+interface InverseIterationOverlayProps {
+  width: number;
+  height: number;
+  viewport: FractalViewport;
+  c: Complex;
+  budget: number;
+  depth: number;
+  /** Draw the points over the Julia shader, or on black in its place */
+  mode: InverseIterationMode;
+  paletteName?: PaletteName;
+}
+
+// Low palette entries are near black in most ramps; start the density ramp above them
+const RAMP_START = 0.35;
+
+/**
+ * Julia set point cloud from the inverse iteration worker, drawn on a canvas over the view
+ * Moving the view while a density is computing queues only the latest view
+ */
+export const InverseIterationOverlay: React.FC<InverseIterationOverlayProps> = ({
+  width,
+  height,
+  viewport,
+  c,
+  budget,
+  depth,
+  mode,
+  paletteName = DEFAULT_PALETTE,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef<boolean>(false);
+  const pendingRef = useRef<InverseIterationJob | null>(null);
+  const generationRef = useRef<number>(0);
+  const resultRef = useRef<DensityResult | null>(null);
+  const drawRef = useRef<() => void>(() => {});
+
+  const draw = useCallback(() => {
+    const result = resultRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!result || !ctx || result.width !== width || result.height !== height) return;
+    const palette = getPaletteColors(paletteName);
+    const image = ctx.createImageData(width, height);
+    const scale = 1 / Math.log1p(Math.max(1, result.maxCount));
+    for (let i = 0; i < result.counts.length; i++) {
+      const count = result.counts[i];
+      if (count === 0) {
+        if (mode === 'instead') image.data[i * 4 + 3] = 255;
+        continue;
+      }
+      const t = RAMP_START + (1 - RAMP_START) * Math.log1p(count) * scale;
+      const entry = Math.min(255, Math.floor(t * 255)) * 4;
+      image.data[i * 4] = palette[entry];
+      image.data[i * 4 + 1] = palette[entry + 1];
+      image.data[i * 4 + 2] = palette[entry + 2];
+      image.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [width, height, mode, paletteName]);
+
+  useEffect(() => {
+    drawRef.current = draw;
+    draw();
+  }, [draw]);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../../lib/render/inverse-iteration.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.addEventListener('message', (event: MessageEvent<DensityResult>) => {
+      busyRef.current = false;
+      if (event.data.generation === generationRef.current) {
+        resultRef.current = event.data;
+        drawRef.current();
+      }
+      const pending = pendingRef.current;
+      if (pending) {
+        pendingRef.current = null;
+        busyRef.current = true;
+        worker.postMessage(pending);
+      }
+    });
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      busyRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const job: InverseIterationJob = {
+      generation: ++generationRef.current,
+      c,
+      view: { centerX: viewport.x, centerY: viewport.y, pixelSize: (2 * viewport.zoom) / height, width, height, yUp: true },
+      budget,
+      depth,
+    };
+    if (busyRef.current) {
+      pendingRef.current = job;
+      return;
+    }
+    busyRef.current = true;
+    workerRef.current?.postMessage(job);
+  }, [width, height, viewport, c, budget, depth]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 pointer-events-none"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+};
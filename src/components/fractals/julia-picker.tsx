@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { ThreeJsFractalRenderer } from '@/components/fractals/ThreeJsFractalRenderer';
+import { bindFormula, FRACTAL_FORMULAS } from '@/lib/fractals/formula-registry';
+import { Complex } from '@/lib/math/complex';
+import { PreciseViewport, viewportCenter, viewportFromNumbers } from '@/lib/math/precise-viewport';
+import { PaletteName } from '@/lib/utils/palettes';
+import { MdClose } from 'react-icons/md';
+
+interface JuliaPickerProps {
+  width: number;
+  height: number;
+  /** Julia constant the marker sits on */
+  c: Complex;
+  onCChange: (c: Complex) => void;
+  /** Exponent of z^x + c, shared by the map so it shows the matching Multibrot */
+  exponent: Complex;
+  paletteName?: PaletteName;
+  onClose?: () => void;
+}
+
+// Orbit length for the marker's in-set check; cycle detection ends most interior orbits early
+const MEMBERSHIP_ITERATIONS = 2000;
+
+/**
+ * Mandelbrot map for choosing the Julia constant: drag the marker or click the map to set c,
+ * and pan or zoom the map as usual. The marker reports whether c is in the set
+ */
+export const JuliaPicker: React.FC<JuliaPickerProps> = ({ width, height, c, onCChange, exponent, paletteName, onClose }) => {
+  const mandelbrot = FRACTAL_FORMULAS.mandelbrot;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [mapViewport, setMapViewport] = useState<PreciseViewport>(() =>
+    viewportFromNumbers(mandelbrot.viewport.x, mandelbrot.viewport.y, mandelbrot.viewport.zoom)
+  );
+
+  // Same mapping as the shaders: zoom is half the map's height
+  const center = viewportCenter(mapViewport);
+  const aspect = width / height;
+  const markerX = ((c.re - center.x) / (mapViewport.zoom * aspect) + 1) * 0.5 * width;
+  const markerY = (1 - (c.im - center.y) / mapViewport.zoom) * 0.5 * height;
+
+  const pointerToC = useCallback((clientX: number, clientY: number): Complex | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const { x, y } = viewportCenter(mapViewport);
+    return {
+      re: ((clientX - rect.left) / rect.width - 0.5) * 2 * (rect.width / rect.height) * mapViewport.zoom + x,
+      im: (0.5 - (clientY - rect.top) / rect.height) * 2 * mapViewport.zoom + y,
+    };
+  }, [mapViewport]);
+
+  // The marker captures the pointer, so the drag continues past the map's edge
+  const handlePointerDown = (e: React.PointerEvent) => e.currentTarget.setPointerCapture(e.pointerId);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const picked = pointerToC(e.clientX, e.clientY);
+    if (picked) onCChange(picked);
+  };
+
+  // Membership of c in the Mandelbrot set of the same exponent, on the CPU
+  const membership = useMemo(() => {
+    const orbiter = bindFormula(mandelbrot, { z: { re: 0, im: 0 }, c: { re: 0, im: 0 }, x: exponent, n: 2 }, { detectInterior: true });
+    return orbiter?.orbit(c, MEMBERSHIP_ITERATIONS) ?? null;
+  }, [mandelbrot, c, exponent]);
+
+  return (
+    <div
+      className="rounded-lg overflow-hidden"
+      style={{
+        background: 'rgba(15, 23, 42, 0.95)',
+        border: '1px solid rgba(100, 116, 139, 0.3)',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
+      }}
+    >
+      <div className="flex items-center justify-between px-2.5 py-1.5 border-b border-slate-700/40">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-400">Pick c</span>
+        <span className="text-[9px] font-mono text-slate-400">
+          {c.re.toFixed(4)} {c.im < 0 ? '−' : '+'} {Math.abs(c.im).toFixed(4)}i
+        </span>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="w-5 h-5 flex items-center justify-center rounded text-slate-500 hover:text-white hover:bg-slate-700/50 transition-colors"
+          >
+            <MdClose className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div ref={containerRef} className="relative" style={{ width, height }}>
+        <ThreeJsFractalRenderer
+          width={width}
+          height={height}
+          formula={mandelbrot}
+          initialViewport={mapViewport}
+          iterations={200}
+          paletteName={paletteName}
+          autoAdjustIterations={false}
+          xReal={exponent.re}
+          xImag={exponent.im}
+          onViewportChange={setMapViewport}
+          onClick={(_x, _y, re, im) => onCChange({ re, im })}
+        />
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white cursor-grab active:cursor-grabbing"
+          style={{
+            left: markerX,
+            top: markerY,
+            background: membership?.escaped ? 'rgba(244, 114, 182, 0.6)' : 'rgba(34, 211, 238, 0.6)',
+            boxShadow: '0 0 6px black',
+            touchAction: 'none',
+          }}
+          title="Drag to set c"
+        />
+      </div>
+
+      <div className="px-2.5 py-1 text-[9px] font-mono">
+        {!membership ? null : membership.escaped ? (
+          <span className="text-pink-400">c ∉ M · escapes after {membership.iterations}</span>
+        ) : membership.period > 0 ? (
+          <span className="text-cyan-400">c ∈ M · period {membership.period}</span>
+        ) : (
+          <span className="text-cyan-400">c ∈ M · bounded for {MEMBERSHIP_ITERATIONS}</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useCallback, useRef } from 'react';
+import { FractalViewport } from '@/lib/fractals/formula-registry';
+import { Complex } from '@/lib/math/complex';
+import { OrbitTrap } from '@/lib/utils/color-utils';
+
+interface OrbitTrapHandlesProps {
+  width: number;
+  height: number;
+  viewport: FractalViewport;
+  trap: OrbitTrap;
+  onTrapChange: (trap: OrbitTrap) => void;
+}
+
+/**
+ * Outline of the orbit trap over the view, with a handle on its centre to move it and one at
+ * centre + size * e^(i angle) to resize and turn it
+ */
+export const OrbitTrapHandles: React.FC<OrbitTrapHandlesProps> = ({ width, height, viewport, trap, onTrapChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Same mapping as the shaders: zoom is half the view height
+  const aspect = width / height;
+  const toScreen = (z: Complex) => ({
+    x: ((z.re - viewport.x) / (viewport.zoom * aspect) + 1) * 0.5 * width,
+    y: (1 - (z.im - viewport.y) / viewport.zoom) * 0.5 * height,
+  });
+  const pointerToPlane = useCallback((clientX: number, clientY: number): Complex | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      re: ((clientX - rect.left) / rect.width - 0.5) * 2 * (rect.width / rect.height) * viewport.zoom + viewport.x,
+      im: (0.5 - (clientY - rect.top) / rect.height) * 2 * viewport.zoom + viewport.y,
+    };
+  }, [viewport]);
+
+  const center = toScreen(trap.center);
+  const radius = (trap.size * height) / (2 * viewport.zoom);
+  // Screen y runs down, so the trap's angle turns the other way on screen
+  const ux = Math.cos(trap.angle);
+  const uy = -Math.sin(trap.angle);
+  const reach = width + height;
+  const sizeHandle = { x: center.x + radius * ux, y: center.y + radius * uy };
+
+  // Handles capture the pointer, so a drag continues past the view's edge
+  const handlePointerDown = (e: React.PointerEvent) => e.currentTarget.setPointerCapture(e.pointerId);
+
+  const handleCenterMove = (e: React.PointerEvent) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const picked = pointerToPlane(e.clientX, e.clientY);
+    if (picked) onTrapChange({ ...trap, center: picked });
+  };
+
+  const handleSizeMove = (e: React.PointerEvent) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const picked = pointerToPlane(e.clientX, e.clientY);
+    if (!picked) return;
+    const re = picked.re - trap.center.re;
+    const im = picked.im - trap.center.im;
+    const size = Math.hypot(re, im);
+    if (size > 0) onTrapChange({ ...trap, size, angle: Math.atan2(im, re) });
+  };
+
+  const line = (dx: number, dy: number) => (
+    <line x1={center.x - reach * dx} y1={center.y - reach * dy} x2={center.x + reach * dx} y2={center.y + reach * dy} />
+  );
+  // Corners of the image's square, turned by the angle
+  const square = [[1, 1], [-1, 1], [-1, -1], [1, -1]]
+    .map(([a, b]) => `${center.x + radius * (a * ux - b * uy)},${center.y + radius * (a * uy + b * ux)}`)
+    .join(' ');
+
+  const handleClass = 'absolute w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full border-2 border-white pointer-events-auto cursor-grab active:cursor-grabbing';
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none z-5">
+      <svg width={width} height={height} className="absolute inset-0" style={{ overflow: 'visible' }}>
+        <g fill="none" stroke="rgba(255, 255, 255, 0.7)" strokeWidth={1.5} strokeDasharray="6 4">
+          {trap.shape === 'point' && <circle cx={center.x} cy={center.y} r={radius} />}
+          {trap.shape === 'circle' && <circle cx={center.x} cy={center.y} r={radius} strokeDasharray="none" />}
+          {(trap.shape === 'line' || trap.shape === 'cross') && line(ux, uy)}
+          {trap.shape === 'cross' && line(-uy, ux)}
+          {trap.shape === 'image' && <polygon points={square} />}
+          <line x1={center.x} y1={center.y} x2={sizeHandle.x} y2={sizeHandle.y} strokeDasharray="2 3" />
+        </g>
+      </svg>
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handleCenterMove}
+        className={handleClass}
+        style={{ left: center.x, top: center.y, background: 'rgba(236, 72, 153, 0.7)', boxShadow: '0 0 6px black', touchAction: 'none' }}
+        title="Drag to move the trap"
+      />
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handleSizeMove}
+        className={handleClass}
+        style={{ left: sizeHandle.x, top: sizeHandle.y, background: 'rgba(34, 211, 238, 0.7)', boxShadow: '0 0 6px black', touchAction: 'none' }}
+        title="Drag to resize and turn the trap"
+      />
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 'use client';
 
 import React from 'react';
+import { Complex } from '@/lib/math/complex';
+import { EquationVariable } from '@/lib/math/equation-parser';
 
 interface ParameterControlsProps {
   z_real: number;
@@ -18,8 +20,15 @@ interface ParameterControlsProps {
   showZ?: boolean;
   showC?: boolean;
   showX?: boolean;
+  /** Parameters declared in the equation, each rendered over its own range */
+  parameters?: EquationVariable[];
+  parameterValues?: Record<string, Complex>;
+  onParameterChange?: (name: string, value: Complex) => void;
 }
 
+// Colours for declared parameter groups, cycled in declaration order
+const PARAMETER_COLORS = ['#34d399', '#fbbf24', '#60a5fa', '#f87171', '#c084fc'];
+
 // Enhanced slider with gradient fill
 const Slider: React.FC<{
   label: string;
@@ -98,7 +107,10 @@ export const ParameterControls: React.FC<ParameterControlsProps> = ({
   onXImagChange,
   showZ = true,
   showC = true,
-  showX = true
+  showX = true,
+  parameters = [],
+  parameterValues = {},
+  onParameterChange,
 }) => {
   return (
     <div className="flex gap-8">
@@ -125,6 +137,37 @@ export const ParameterControls: React.FC<ParameterControlsProps> = ({
           <Slider label="Imaginary" value={x_imag} min={-6} max={6} onChange={onXImagChange} color="#f472b6" />
         </ParameterGroup>
       )}
+
+      {/* Declared parameters */}
+      {parameters.map((param, index) => {
+        const color = PARAMETER_COLORS[index % PARAMETER_COLORS.length];
+        const value = parameterValues[param.name] ?? { re: param.default, im: param.defaultImag ?? 0 };
+        const step = Math.min(0.01, (param.max - param.min) / 100);
+        return (
+          <ParameterGroup key={param.name} label={`${param.type === 'real' ? 'Real' : 'Complex'} ${param.symbol}`} color={color}>
+            <Slider
+              label="Real"
+              value={value.re}
+              min={param.min}
+              max={param.max}
+              step={step}
+              onChange={(re) => onParameterChange?.(param.name, { re, im: value.im })}
+              color={color}
+            />
+            {param.type === 'complex' && (
+              <Slider
+                label="Imaginary"
+                value={value.im}
+                min={param.min}
+                max={param.max}
+                step={step}
+                onChange={(im) => onParameterChange?.(param.name, { re: value.re, im })}
+                color={color}
+              />
+            )}
+          </ParameterGroup>
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,25 @@
+import { estimateAttractorDimension, fitDimension, SIERPINSKI_TRIANGLE } from './box-counting';
+
+describe('estimateAttractorDimension', () => {
+  it('brackets the Sierpinski triangle dimension log2 3', () => {
+    const estimate = estimateAttractorDimension({ maps: SIERPINSKI_TRIANGLE, aspect: 1, viewport: { x: 0, y: 0, zoom: 1.1 } });
+    expect(estimate).not.toBeNull();
+    const [low, high] = estimate!.interval;
+    expect(low).toBeLessThan(Math.log2(3));
+    expect(high).toBeGreaterThan(Math.log2(3));
+  });
+});
+
+describe('fitDimension', () => {
+  it('recovers the slope of exact counts', () => {
+    const counts = [1, 2, 4, 8].map((cells) => ({ cells, size: cells / 64, boxes: (64 / cells) ** 1.5 }));
+    const fit = fitDimension(counts)!;
+    expect(fit.dimension).toBeCloseTo(1.5, 12);
+    expect(fit.standardError).toBeCloseTo(0, 12);
+    expect(fit.rSquared).toBeCloseTo(1, 12);
+  });
+
+  it('needs three counts', () => {
+    expect(fitDimension([{ cells: 1, size: 1, boxes: 4 }, { cells: 2, size: 2, boxes: 1 }])).toBeNull();
+  });
+});
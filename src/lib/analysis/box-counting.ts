@@ -0,0 +1,255 @@
+/**
+ * Box-counting dimension
+ * The view is sampled on a fine grid with the CPU iteration and every cell where the orbit's
+ * outcome changes (escaping or not, or which root it settles on) is marked as boundary; an
+ * IFS attractor marks the cells its chaos-game points land in instead. Boxes of doubling size
+ * that hold a marked cell are counted, and the slope of log count against log 1/size is the
+ * dimension. Nothing here touches the DOM, so it runs in a worker or headless.
+ */
+
+import { bindFormula, FormulaInputs, FractalViewport, FRACTAL_FORMULAS } from '@/lib/fractals/formula-registry';
+import { Complex } from '@/lib/math/complex';
+import { createRandom } from '@/lib/math/random';
+
+/** Grid over the view with marked cells */
+export interface CellGrid {
+  width: number;
+  height: number;
+  /** Edge of a cell in the plane */
+  cellSize: number;
+  /** 1 where the cell is marked, row by row from the top */
+  cells: Uint8Array;
+}
+
+/** View the grid covers */
+export interface GridView {
+  viewport: FractalViewport;
+  /** Width over height */
+  aspect: number;
+  /** Cells across the view's height at the finest level */
+  resolution?: number;
+}
+
+export interface BoundaryOptions extends GridView {
+  /** Key into FRACTAL_FORMULAS, so the options can cross a worker boundary */
+  formulaKey: string;
+  inputs: FormulaInputs;
+  maxIterations: number;
+}
+
+/** Affine map (x, y) -> (a x + b y + e, c x + d y + f) of an iterated function system */
+export interface AffineMap {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export interface AttractorOptions extends GridView {
+  maps: AffineMap[];
+  /** Chaos-game points to plot */
+  points?: number;
+  seed?: number;
+}
+
+export interface BoxCount {
+  /** Box edge in grid cells */
+  cells: number;
+  /** Box edge in the plane */
+  size: number;
+  /** Boxes holding a marked cell */
+  boxes: number;
+}
+
+/** Least-squares fit of log2 boxes against log2 1/size */
+export interface DimensionFit {
+  dimension: number;
+  /** Standard error of the slope */
+  standardError: number;
+  /** 95% confidence interval of the dimension */
+  interval: [number, number];
+  intercept: number;
+  rSquared: number;
+}
+
+export interface DimensionEstimate extends DimensionFit {
+  /** Counts at every box size, finest first */
+  counts: BoxCount[];
+  /** Whether each count was in the fitted range */
+  fitted: boolean[];
+}
+
+export const DEFAULT_GRID_RESOLUTION = 512;
+const DEFAULT_ATTRACTOR_POINTS = 1000000;
+// Single cells see the grid more than the set, and a handful of boxes say little: fit box
+// sizes from 2 cells up to an eighth of the view's height
+const FIT_MIN_CELLS = 2;
+const FIT_MIN_BOXES_ACROSS = 8;
+// Converged orbits closer than this landed on the same root
+const ROOT_SPACING = 1e-3;
+// Chaos-game steps dropped while the point falls onto the attractor
+const CHAOS_WARMUP = 32;
+
+/** Sierpinski triangle with corners (-1, -1), (1, -1) and (-1, 1), as the IFS shader draws it */
+export const SIERPINSKI_TRIANGLE: AffineMap[] = [
+  { a: 0.5, b: 0, c: 0, d: 0.5, e: -0.5, f: -0.5 },
+  { a: 0.5, b: 0, c: 0, d: 0.5, e: 0.5, f: -0.5 },
+  { a: 0.5, b: 0, c: 0, d: 0.5, e: -0.5, f: 0.5 },
+];
+
+const gridSize = ({ aspect, resolution = DEFAULT_GRID_RESOLUTION }: GridView) => ({
+  width: Math.max(1, Math.round(resolution * aspect)),
+  height: resolution,
+});
+
+/**
+ * Mark the cells of the view on the boundary of the formula's set: those whose orbit ends
+ * differently from the cell to the right or below. Null when the typed equation does not compile
+ */
+export function classifyBoundary(options: BoundaryOptions): CellGrid | null {
+  const formula = FRACTAL_FORMULAS[options.formulaKey];
+  const orbiter = formula ? bindFormula(formula, options.inputs, { detectInterior: true }) : null;
+  if (!orbiter) return null;
+
+  const { viewport } = options;
+  const { width, height } = gridSize(options);
+  const cellSize = (2 * viewport.zoom) / height;
+  // 0 bounded, 1 escaped, 2 and up one per root converged on
+  const outcomes = new Int32Array(width * height);
+  const roots = new Map<string, number>();
+  for (let row = 0; row < height; row++) {
+    const im = viewport.y + (height / 2 - row - 0.5) * cellSize;
+    for (let col = 0; col < width; col++) {
+      const re = viewport.x + (col + 0.5 - width / 2) * cellSize;
+      const orbit = orbiter.orbit({ re, im }, options.maxIterations);
+      let outcome = orbit.escaped ? 1 : 0;
+      if (orbit.converged) {
+        const key = `${Math.round(orbit.z.re / ROOT_SPACING)},${Math.round(orbit.z.im / ROOT_SPACING)}`;
+        if (!roots.has(key)) roots.set(key, roots.size + 2);
+        outcome = roots.get(key)!;
+      }
+      outcomes[row * width + col] = outcome;
+    }
+  }
+
+  const cells = new Uint8Array(width * height);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const right = col + 1 < width && outcomes[i + 1] !== outcomes[i];
+      const below = row + 1 < height && outcomes[i + width] !== outcomes[i];
+      if (right || below) cells[i] = 1;
+    }
+  }
+  return { width, height, cellSize, cells };
+}
+
+/** Points of an IFS attractor by the chaos game: apply a map picked at random each step */
+export function chaosGame(maps: AffineMap[], count: number, seed = 1): Complex[] {
+  const random = createRandom(seed);
+  const points: Complex[] = [];
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < count + CHAOS_WARMUP; i++) {
+    const map = maps[Math.floor(random() * maps.length)];
+    [x, y] = [map.a * x + map.b * y + map.e, map.c * x + map.d * y + map.f];
+    if (i >= CHAOS_WARMUP) points.push({ re: x, im: y });
+  }
+  return points;
+}
+
+/** Mark the cells of the view that hold at least one of the points */
+export function occupancyGrid(points: Complex[], view: GridView): CellGrid {
+  const { viewport } = view;
+  const { width, height } = gridSize(view);
+  const cellSize = (2 * viewport.zoom) / height;
+  const cells = new Uint8Array(width * height);
+  for (const point of points) {
+    const col = Math.floor((point.re - viewport.x) / cellSize + width / 2);
+    const row = Math.floor(height / 2 - (point.im - viewport.y) / cellSize);
+    if (col >= 0 && col < width && row >= 0 && row < height) cells[row * width + col] = 1;
+  }
+  return { width, height, cellSize, cells };
+}
+
+/** Count the boxes holding a marked cell at box edges of 1, 2, 4, ... cells until one box spans the grid */
+export function countBoxes(grid: CellGrid): BoxCount[] {
+  const counts: BoxCount[] = [];
+  let { width, height, cells } = grid;
+  for (let size = 1; ; size *= 2) {
+    counts.push({ cells: size, size: size * grid.cellSize, boxes: cells.reduce((sum, cell) => sum + cell, 0) });
+    if (width === 1 && height === 1) return counts;
+    // Merge 2x2 blocks; the last row or column may be a partial box
+    const nextWidth = Math.ceil(width / 2);
+    const nextHeight = Math.ceil(height / 2);
+    const merged = new Uint8Array(nextWidth * nextHeight);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        if (cells[row * width + col]) merged[(row >> 1) * nextWidth + (col >> 1)] = 1;
+      }
+    }
+    cells = merged;
+    width = nextWidth;
+    height = nextHeight;
+  }
+}
+
+// Two-sided 95% quantile of Student's t; a Cornish-Fisher expansion past the table
+const T_975 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+function studentT975(degrees: number): number {
+  if (degrees <= T_975.length) return T_975[degrees - 1];
+  const z = 1.959964;
+  return z + (z ** 3 + z) / (4 * degrees) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * degrees ** 2);
+}
+
+/** Fit a line through the counts; null with fewer than three, or when one is empty */
+export function fitDimension(counts: BoxCount[]): DimensionFit | null {
+  const n = counts.length;
+  if (n < 3 || counts.some((count) => count.boxes === 0)) return null;
+  const xs = counts.map((count) => -Math.log2(count.size));
+  const ys = counts.map((count) => Math.log2(count.boxes));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  const dimension = sxy / sxx;
+  const intercept = meanY - dimension * meanX;
+  const residual = Math.max(0, syy - dimension * sxy);
+  const standardError = Math.sqrt(residual / (n - 2) / sxx);
+  const margin = studentT975(n - 2) * standardError;
+  return {
+    dimension,
+    standardError,
+    interval: [dimension - margin, dimension + margin],
+    intercept,
+    rSquared: syy > 0 ? 1 - residual / syy : 1,
+  };
+}
+
+/** Count boxes on a grid and fit the dimension over the usable box sizes */
+export function estimateDimension(grid: CellGrid): DimensionEstimate | null {
+  const counts = countBoxes(grid);
+  const fitted = counts.map((count) => count.cells >= FIT_MIN_CELLS && count.cells * FIT_MIN_BOXES_ACROSS <= grid.height);
+  const fit = fitDimension(counts.filter((_, i) => fitted[i]));
+  return fit && { ...fit, counts, fitted };
+}
+
+/** Box-counting dimension of the boundary of a formula's set in the view */
+export function estimateBoundaryDimension(options: BoundaryOptions): DimensionEstimate | null {
+  const grid = classifyBoundary(options);
+  return grid && estimateDimension(grid);
+}
+
+/** Box-counting dimension of an IFS attractor in the view */
+export function estimateAttractorDimension(options: AttractorOptions): DimensionEstimate | null {
+  const points = chaosGame(options.maps, options.points ?? DEFAULT_ATTRACTOR_POINTS, options.seed);
+  return estimateDimension(occupancyGrid(points, options));
+}
@@ -0,0 +1,9 @@
+/**
+ * Box-counting worker: estimates the boundary dimension for each BoundaryOptions it receives
+ */
+
+import { BoundaryOptions, estimateBoundaryDimension } from './box-counting';
+
+self.addEventListener('message', (event: MessageEvent<BoundaryOptions>) => {
+  self.postMessage(estimateBoundaryDimension(event.data));
+});
@@ -0,0 +1,38 @@
+import { FormulaInputs } from '@/lib/fractals/formula-registry';
+import { areaRegion, createAreaEstimator } from './monte-carlo-area';
+
+const CLASSIC: FormulaInputs = { z: { re: 0, im: 0 }, c: { re: 0, im: 0 }, x: { re: 2, im: 0 }, n: 2 };
+// Best known value of the Mandelbrot set's area
+const MANDELBROT_AREA = 1.50659;
+
+const sample = (rounds: number, seed?: number) => {
+  const estimator = createAreaEstimator({ formulaKey: 'mandelbrot', inputs: CLASSIC, seed })!;
+  let estimate = estimator.sampleRound();
+  for (let round = 1; round < rounds; round++) estimate = estimator.sampleRound();
+  return estimate;
+};
+
+describe('createAreaEstimator', () => {
+  it('reproduces the Mandelbrot area within two standard errors', () => {
+    const estimate = sample(40);
+    expect(estimate.samples).toBe(40 * 64 * 64);
+    expect(Math.abs(estimate.area - MANDELBROT_AREA)).toBeLessThan(2 * estimate.standardError);
+  });
+
+  it('repeats exactly for a seed', () => {
+    expect(sample(3, 7)).toEqual(sample(3, 7));
+    expect(sample(3, 7).area).not.toBe(sample(3, 8).area);
+  });
+});
+
+describe('areaRegion', () => {
+  it('has no region for sets other than z^2 + c', () => {
+    expect(areaRegion('mandelbrot', { ...CLASSIC, z: { re: 0.1, im: 0 } })).toBeNull();
+    expect(areaRegion('mandelbrot', { ...CLASSIC, x: { re: 3, im: 0 } })).toBeNull();
+    expect(areaRegion('burningship', CLASSIC)).toBeNull();
+  });
+
+  it('grows the Julia region with |c|', () => {
+    expect(areaRegion('julia', { ...CLASSIC, c: { re: 3, im: 4 } })).toEqual({ minRe: -5, maxRe: 5, minIm: -5, maxIm: 5 });
+  });
+});
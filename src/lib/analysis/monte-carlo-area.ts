@@ -0,0 +1,121 @@
+/**
+ * Monte Carlo area of the Mandelbrot set and filled Julia sets
+ * A rectangle known to hold the set is split into strata and each round draws one point per
+ * stratum, so the rounds are independent stratified estimates: their mean is the area and
+ * their spread gives its standard error. Cardioid, bulb and cycle checks settle interior
+ * points early; points still undecided at the iteration limit count as inside and are
+ * reported apart, bounding the bias. Everything follows from the seed, so runs repeat exactly.
+ */
+
+import { bindFormula, FormulaInputs, FRACTAL_FORMULAS } from '@/lib/fractals/formula-registry';
+import { createRandom } from '@/lib/math/random';
+
+/** Rectangle of the plane sampled, holding the whole set */
+export interface AreaRegion {
+  minRe: number;
+  maxRe: number;
+  minIm: number;
+  maxIm: number;
+}
+
+export interface AreaOptions {
+  /** 'mandelbrot' or 'julia'; other formulas have no area estimate */
+  formulaKey: string;
+  inputs: FormulaInputs;
+  seed?: number;
+  /** Strata along each side of the region; each round samples strata^2 points */
+  strata?: number;
+  maxIterations?: number;
+}
+
+export interface AreaEstimate {
+  rounds: number;
+  samples: number;
+  /** Mean of the rounds' estimates */
+  area: number;
+  /** Standard error of the mean; NaN before the second round */
+  standardError: number;
+  /** Part of the area from points neither escaped nor caught in a cycle by the limit */
+  unresolvedArea: number;
+  region: AreaRegion;
+}
+
+export interface AreaEstimator {
+  region: AreaRegion;
+  /** Sample one point per stratum and return the running estimate */
+  sampleRound: () => AreaEstimate;
+}
+
+export const DEFAULT_AREA_SEED = 1;
+const DEFAULT_STRATA = 64;
+const DEFAULT_AREA_ITERATIONS = 4096;
+
+// The Mandelbrot set lies in [-2, 0.471] x [-1.123, 1.123]
+const MANDELBROT_REGION: AreaRegion = { minRe: -2, maxRe: 0.5, minIm: -1.25, maxIm: 1.25 };
+
+/**
+ * Region holding the set the formula and inputs draw, or null when there is no area to
+ * estimate: only z^2 + c, from 0 for the Mandelbrot set
+ */
+export function areaRegion(formulaKey: string, inputs: FormulaInputs): AreaRegion | null {
+  if (inputs.x.re !== 2 || inputs.x.im !== 0) return null;
+  if (formulaKey === 'mandelbrot') return inputs.z.re === 0 && inputs.z.im === 0 ? MANDELBROT_REGION : null;
+  if (formulaKey !== 'julia') return null;
+  // Orbits leave the disc of radius max(2, |c|) for good
+  const radius = Math.max(2, Math.hypot(inputs.c.re, inputs.c.im));
+  return { minRe: -radius, maxRe: radius, minIm: -radius, maxIm: radius };
+}
+
+/** Sampler for the options' set; null when areaRegion has none */
+export function createAreaEstimator(options: AreaOptions): AreaEstimator | null {
+  const region = areaRegion(options.formulaKey, options.inputs);
+  const formula = FRACTAL_FORMULAS[options.formulaKey];
+  if (!region || !formula) return null;
+  // Sample c itself: the c slider only shifts the Mandelbrot's pixels
+  const inputs = formula.key === 'mandelbrot' ? { ...options.inputs, c: { re: 0, im: 0 } } : options.inputs;
+  const orbiter = bindFormula(formula, inputs, { detectInterior: true });
+  if (!orbiter) return null;
+
+  const random = createRandom(options.seed ?? DEFAULT_AREA_SEED);
+  const strata = options.strata ?? DEFAULT_STRATA;
+  const maxIterations = options.maxIterations ?? DEFAULT_AREA_ITERATIONS;
+  const width = (region.maxRe - region.minRe) / strata;
+  const height = (region.maxIm - region.minIm) / strata;
+  const regionArea = (region.maxRe - region.minRe) * (region.maxIm - region.minIm);
+
+  let rounds = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  let unresolved = 0;
+
+  return {
+    region,
+    sampleRound: () => {
+      let inside = 0;
+      for (let row = 0; row < strata; row++) {
+        for (let col = 0; col < strata; col++) {
+          const re = region.minRe + (col + random()) * width;
+          const im = region.minIm + (row + random()) * height;
+          const orbit = orbiter.orbit({ re, im }, maxIterations);
+          if (orbit.escaped) continue;
+          inside++;
+          if (orbit.period === 0) unresolved++;
+        }
+      }
+      const estimate = (inside / (strata * strata)) * regionArea;
+      rounds++;
+      sum += estimate;
+      sumSquares += estimate * estimate;
+      const area = sum / rounds;
+      const variance = rounds > 1 ? Math.max(0, sumSquares - rounds * area * area) / (rounds - 1) : NaN;
+      return {
+        rounds,
+        samples: rounds * strata * strata,
+        area,
+        standardError: Math.sqrt(variance / rounds),
+        unresolvedArea: (unresolved / (rounds * strata * strata)) * regionArea,
+        region,
+      };
+    },
+  };
+}
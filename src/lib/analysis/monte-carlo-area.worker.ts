@@ -0,0 +1,29 @@
+/**
+ * Area worker: samples rounds for the AreaJob it receives, posting the running AreaEstimate
+ * as it goes and a final one when the rounds run out
+ */
+
+import { AreaOptions, createAreaEstimator } from './monte-carlo-area';
+
+export interface AreaJob extends AreaOptions {
+  rounds: number;
+}
+
+// Posting every round would flood the page; one update per this many ms is plenty
+const UPDATE_INTERVAL_MS = 100;
+
+self.addEventListener('message', (event: MessageEvent<AreaJob>) => {
+  const estimator = createAreaEstimator(event.data);
+  if (!estimator) {
+    self.postMessage(null);
+    return;
+  }
+  let posted = 0;
+  for (let round = 1; round <= event.data.rounds; round++) {
+    const estimate = estimator.sampleRound();
+    if (round === event.data.rounds || performance.now() - posted >= UPDATE_INTERVAL_MS) {
+      self.postMessage(estimate);
+      posted = performance.now();
+    }
+  }
+});
@@ -0,0 +1,19 @@
+import { parseRayAngle } from './external-rays';
+
+describe('parseRayAngle', () => {
+  it('reads fractions in lowest terms', () => {
+    expect(parseRayAngle('1/3')).toEqual({ numerator: 1, denominator: 3 });
+    expect(parseRayAngle('2/6')).toEqual({ numerator: 1, denominator: 3 });
+  });
+
+  it('reads binary expansions with a repeating block', () => {
+    expect(parseRayAngle('.(001)')).toEqual({ numerator: 1, denominator: 7 });
+    expect(parseRayAngle('0.01(10)')).toEqual({ numerator: 5, denominator: 12 });
+    expect(parseRayAngle('.011')).toEqual({ numerator: 3, denominator: 8 });
+  });
+
+  it('rejects other text', () => {
+    expect(parseRayAngle('x')).toBeNull();
+    expect(parseRayAngle('.')).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * External rays and equipotentials of z^2 + c
+ * A ray of angle t is traced inward from a large radius: at each step Newton's method finds
+ * the point whose orbit reaches a target of slightly lower potential with angle 2^k t after
+ * k doublings, starting from the previous point. Equipotentials follow one potential level
+ * around the full turn the same way. Rays and curves are traced in the Mandelbrot parameter
+ * plane or a Julia set's dynamic plane, in doubles.
+ */
+
+import { Complex, cabs2, cdiv, csub } from '@/lib/math/complex';
+import type { FormulaInputs, FractalFormula } from './formula-registry';
+
+/** Rational external angle in turns, numerator / denominator in [0, 1) */
+export interface RayAngle {
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Plane rays are traced in: the Mandelbrot's parameter plane, whose pixels are offset from c
+ * by the c slider, or the dynamic plane of the Julia set for c
+ */
+export type RayPlane = { kind: 'parameter'; offset: Complex } | { kind: 'dynamic'; c: Complex };
+
+// Starting radius; the target radius falls from here to its square root at each depth
+const RAY_RADIUS = 65536;
+// Newton targets per depth
+const SHARPNESS = 8;
+const MAX_NEWTON_STEPS = 16;
+const MAX_RAY_POINTS = 4096;
+// An equipotential's target angle turns 2^depth times; this many points per turn keeps
+// Newton on the same branch
+const POINTS_PER_TURN = 8;
+const MAX_EQUIPOTENTIAL_STEPS = 65536;
+// Largest denominator whose doublings stay exact in doubles
+const MAX_DENOMINATOR = 2 ** 52;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+function reduceAngle(numerator: number, denominator: number): RayAngle | null {
+  if (!(denominator > 0) || denominator > MAX_DENOMINATOR || !Number.isSafeInteger(numerator)) return null;
+  const wrapped = numerator % denominator;
+  const divisor = gcd(wrapped, denominator);
+  return { numerator: wrapped / divisor, denominator: denominator / divisor };
+}
+
+/**
+ * Read an angle written as a fraction ("1/3", "2/7") or a binary expansion with an optional
+ * repeating block (".011", "0.(001)", ".01(10)"); null when the text is neither
+ */
+export function parseRayAngle(text: string): RayAngle | null {
+  const trimmed = text.trim();
+  const fraction = trimmed.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) return reduceAngle(Number(fraction[1]), Number(fraction[2]));
+
+  const binary = trimmed.match(/^0?\.([01]*)(?:\(([01]+)\))?$/);
+  if (!binary || (!binary[1] && !binary[2])) return null;
+  const prefix = binary[1];
+  const repeat = binary[2] ?? '';
+  if (prefix.length + repeat.length > 52) return null;
+  const prefixValue = prefix ? parseInt(prefix, 2) : 0;
+  if (!repeat) return reduceAngle(prefixValue, 2 ** prefix.length);
+  // 0.p(q) = (p (2^|q| - 1) + q) / (2^|p| (2^|q| - 1))
+  const cycle = 2 ** repeat.length - 1;
+  return reduceAngle(prefixValue * cycle + parseInt(repeat, 2), 2 ** prefix.length * cycle);
+}
+
+/**
+ * Plane for the formula's overlay; null unless it is the classic z^2 + c Mandelbrot started
+ * at 0 or its Julia set
+ */
+export function rayPlaneFor(formula: FractalFormula, inputs: Pick<FormulaInputs, 'z' | 'c' | 'x'>): RayPlane | null {
+  if (inputs.x.re !== 2 || inputs.x.im !== 0) return null;
+  if (formula.key === 'mandelbrot' && inputs.z.re === 0 && inputs.z.im === 0) return { kind: 'parameter', offset: inputs.c };
+  if (formula.key === 'julia') return { kind: 'dynamic', c: inputs.c };
+  return null;
+}
+
+const polar = (radius: number, turns: number): Complex => ({
+  re: radius * Math.cos(2 * Math.PI * turns),
+  im: radius * Math.sin(2 * Math.PI * turns),
+});
+
+// z after the depth's iterations from a point, with its derivative: in the parameter plane the
+// point is c and the orbit of 0 takes one step more, so both planes doubled depth times match
+function iterate(plane: RayPlane, point: Complex, depth: number): { z: Complex; dz: Complex } {
+  let z = plane.kind === 'parameter' ? { re: 0, im: 0 } : point;
+  let dz = plane.kind === 'parameter' ? { re: 0, im: 0 } : { re: 1, im: 0 };
+  const c = plane.kind === 'parameter' ? point : plane.c;
+  const steps = plane.kind === 'parameter' ? depth + 1 : depth;
+  for (let i = 0; i < steps; i++) {
+    dz = {
+      re: 2 * (z.re * dz.re - z.im * dz.im) + (plane.kind === 'parameter' ? 1 : 0),
+      im: 2 * (z.re * dz.im + z.im * dz.re),
+    };
+    z = { re: z.re * z.re - z.im * z.im + c.re, im: 2 * z.re * z.im + c.im };
+  }
+  return { z, dz };
+}
+
+// Point near start whose orbit reaches target after the depth's iterations; null when Newton fails
+function solve(plane: RayPlane, start: Complex, target: Complex, depth: number): Complex | null {
+  let point = start;
+  for (let step = 0; step < MAX_NEWTON_STEPS; step++) {
+    const { z, dz } = iterate(plane, point, depth);
+    const delta = cdiv(csub(z, target), dz);
+    point = csub(point, delta);
+    if (!isFinite(point.re) || !isFinite(point.im)) return null;
+    if (cabs2(delta) <= 1e-24 * Math.max(1, cabs2(point))) return point;
+  }
+  return point;
+}
+
+// Pixel coordinates of traced points: the parameter plane's pixels are offset by the c slider
+const toPlane = (plane: RayPlane, point: Complex): Complex =>
+  plane.kind === 'parameter' ? { re: point.re - plane.offset.re, im: point.im - plane.offset.im } : point;
+
+// Distance estimate to the set, |z| log|z| / |dz|, from the orbit that reached the point
+function distanceToSet(plane: RayPlane, point: Complex, depth: number): number {
+  const { z, dz } = iterate(plane, point, depth);
+  const modulus = Math.sqrt(cabs2(z));
+  return (modulus * Math.log(modulus)) / Math.sqrt(cabs2(dz));
+}
+
+/**
+ * Walk down the ray of an angle, stopping within resolution of the set or, when a potential
+ * is given, on reaching it. Points are in the plane's own coordinates
+ */
+function descend(plane: RayPlane, angle: RayAngle, resolution: number, potential?: number): Complex[] {
+  let point = polar(RAY_RADIUS, angle.numerator / angle.denominator);
+  let numerator = angle.numerator;
+  const points = [point];
+  for (let depth = 0; points.length < MAX_RAY_POINTS; depth++) {
+    for (let j = 1; j <= SHARPNESS; j++) {
+      // log of the target radius halves over the depth; the potential is that over 2^depth
+      let logRadius = Math.log(RAY_RADIUS) * 0.5 ** (j / SHARPNESS);
+      const reached = potential !== undefined && logRadius <= potential * 2 ** depth;
+      if (reached) logRadius = potential * 2 ** depth;
+      const next = solve(plane, point, polar(Math.exp(logRadius), numerator / angle.denominator), depth);
+      if (!next) return points;
+      points.push(next);
+      point = next;
+      if (reached || (potential === undefined && distanceToSet(plane, point, depth) < resolution)) return points;
+    }
+    numerator = (2 * numerator) % angle.denominator;
+  }
+  return points;
+}
+
+/**
+ * Trace the external ray of an angle from far outside down to within resolution, the plane
+ * distance of a pixel, of where it lands; points are in pixel coordinates
+ */
+export function traceExternalRay(plane: RayPlane, angle: RayAngle, resolution: number): Complex[] {
+  return descend(plane, angle, resolution).map((point) => toPlane(plane, point));
+}
+
+/**
+ * Trace the equipotential of a potential level G = lim log|z_n| / 2^n, points at least
+ * resolution apart; empty when the level is too close to the set to follow
+ */
+export function traceEquipotential(plane: RayPlane, potential: number, resolution: number): Complex[] {
+  if (!(potential > 0)) return [];
+  // Shallowest depth whose target radius exp(2^depth G) is at least sqrt(RAY_RADIUS)
+  const depth = Math.max(0, Math.ceil(Math.log2(Math.log(RAY_RADIUS) / 2 / potential)));
+  const steps = POINTS_PER_TURN * 2 ** depth;
+  if (steps > MAX_EQUIPOTENTIAL_STEPS) return [];
+
+  const ray = descend(plane, { numerator: 0, denominator: 1 }, resolution, potential);
+  let point = ray[ray.length - 1];
+  const radius = Math.exp(potential * 2 ** depth);
+  const points = [toPlane(plane, point)];
+  let last = point;
+  for (let i = 1; i <= steps; i++) {
+    // The target angle 2^depth t, kept in [0, 1) before scaling
+    const next = solve(plane, point, polar(radius, ((i * 2 ** depth) % steps) / steps), depth);
+    if (!next) break;
+    point = next;
+    if (i === steps || cabs2(csub(point, last)) >= resolution * resolution) {
+      points.push(toPlane(plane, point));
+      last = point;
+    }
+  }
+  return points;
+}
+
+export interface RayOverlayOptions {
+  plane: RayPlane;
+  /** Comma-separated angles, each as parseRayAngle reads them; unreadable ones are skipped */
+  angles: string;
+  /** Comma-separated potential levels; non-positive ones are skipped */
+  potentials: string;
+  /** Plane distance of a pixel */
+  resolution: number;
+}
+
+export interface RayOverlay {
+  rays: { label: string; points: Complex[] }[];
+  equipotentials: Complex[][];
+}
+
+/** Trace every ray and equipotential of the overlay; long rays take a few hundred ms each */
+export function traceRayOverlay(options: RayOverlayOptions): RayOverlay {
+  const { plane, resolution } = options;
+  const rays = options.angles.split(',').flatMap((text) => {
+    const angle = parseRayAngle(text);
+    return angle ? [{ label: text.trim(), points: traceExternalRay(plane, angle, resolution) }] : [];
+  });
+  const equipotentials = options.potentials
+    .split(',')
+    .map(Number)
+    .filter((potential) => potential > 0)
+    .map((potential) => traceEquipotential(plane, potential, resolution));
+  return { rays, equipotentials };
+}
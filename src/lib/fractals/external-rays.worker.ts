@@ -0,0 +1,9 @@
+/**
+ * External rays worker: traces the overlay for each RayOverlayOptions it receives
+ */
+
+import { RayOverlayOptions, traceRayOverlay } from './external-rays';
+
+self.addEventListener('message', (event: MessageEvent<RayOverlayOptions>) => {
+  self.postMessage(traceRayOverlay(event.data));
+});
@@ -0,0 +1,45 @@
+import { viewportCenter, viewportFromNumbers } from '@/lib/math/precise-viewport';
+import { findMisiurewicz, findNucleus } from './feature-finder';
+
+describe('findNucleus', () => {
+  it('finds the airship nucleus of period 3', () => {
+    const feature = findNucleus(viewportFromNumbers(-1.75, 0, 0.01))!;
+    expect(feature.period).toBe(3);
+    expect(viewportCenter(feature.viewport).x).toBeCloseTo(-1.754877666246693, 12);
+    expect(viewportCenter(feature.viewport).y).toBe(0);
+  });
+
+  it('moves past a ball period whose Newton lands on a lower period', () => {
+    // The ball method reports period 2 here first, but Newton for it converges to 0
+    const feature = findNucleus(viewportFromNumbers(-0.1, 0.65, 0.3))!;
+    expect(feature.period).toBe(3);
+    expect(viewportCenter(feature.viewport).x).toBeCloseTo(-0.122561166876654, 12);
+    expect(viewportCenter(feature.viewport).y).toBeCloseTo(0.744861766619744, 12);
+  });
+
+  it('finds nothing outside the set', () => {
+    expect(findNucleus(viewportFromNumbers(0.3, 0, 0.1))).toBeNull();
+  });
+});
+
+describe('findMisiurewicz', () => {
+  it('finds c = i, where 0 reaches the cycle -1 + i, -i after two steps', () => {
+    const feature = findMisiurewicz(viewportFromNumbers(0.01, 0.99, 0.1), 2, 2)!;
+    expect(feature.kind).toBe('misiurewicz');
+    expect(viewportCenter(feature.viewport)).toEqual({ x: 0, y: 1 });
+  });
+
+  it('finds c = -2, where 0 reaches the fixed point 2 after two steps', () => {
+    const feature = findMisiurewicz(viewportFromNumbers(-1.98, 0, 0.05), 2, 1)!;
+    expect(viewportCenter(feature.viewport)).toEqual({ x: -2, y: 0 });
+  });
+
+  it('rejects preperiod 1, whose only root is the nucleus 0', () => {
+    expect(findMisiurewicz(viewportFromNumbers(-1.98, 0, 0.05), 1, 1)).toBeNull();
+  });
+
+  it('rejects Newton creeping towards a multiple root', () => {
+    // g = z_3 - z_2 = c^3 (c + 2) has a triple root at 0, which is no Misiurewicz point
+    expect(findMisiurewicz(viewportFromNumbers(-0.1, 0.05, 0.05), 2, 1)).toBeNull();
+  });
+});
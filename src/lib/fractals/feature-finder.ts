@@ -0,0 +1,282 @@
+/**
+ * Mandelbrot feature finder
+ * Locates hyperbolic-component nuclei (the centres of minibrots and bulbs) and Misiurewicz
+ * points near a point of the plane. Newton's method runs in the viewport's fixed point, so
+ * features far below double precision come out exact to the digits the viewport carries.
+ * All of it is for z^2 + c started at 0.
+ */
+
+import { Complex, cadd, cdiv, cmul } from '@/lib/math/complex';
+import { fixedToNumber, MIN_ZOOM, PreciseViewport, requiredBits } from '@/lib/math/precise-viewport';
+
+export interface MandelbrotFeature {
+  kind: 'nucleus' | 'misiurewicz';
+  /** Steps before the orbit of 0 enters its cycle; 0 for a nucleus */
+  preperiod: number;
+  period: number;
+  /** Centred exactly on the feature and zoomed to its size */
+  viewport: PreciseViewport;
+  /**
+   * Estimated size in the plane: for a nucleus the atom size estimate, about the minibrot's
+   * radius; for a Misiurewicz point the spacing to its neighbours of the same kind
+   */
+  size: number;
+}
+
+export interface NucleusSearchOptions {
+  /** Period to look for; found with the ball method when unset */
+  period?: number;
+  /** Highest period the ball method tries */
+  maxPeriod?: number;
+}
+
+interface FixedComplex {
+  re: bigint;
+  im: bigint;
+}
+
+const DEFAULT_MAX_PERIOD = 16384;
+// Ball method periods tried in turn before the nucleus search gives up
+const MAX_PERIOD_CANDIDATES = 16;
+const MAX_NEWTON_STEPS = 64;
+// Fraction bits kept beyond the view's, so Newton's last steps do not round
+const NEWTON_GUARD_BITS = 32;
+// Orbits past this modulus have escaped, and Newton has wandered off any feature
+const ESCAPE_MODULUS = 1024;
+// Misiurewicz points further than this many view heights from the centre are not the one asked for
+const MISIUREWICZ_SEARCH_RADII = 4;
+
+const ZERO_FIXED = BigInt(0);
+const ONE_FIXED = BigInt(1);
+const TWO = BigInt(2);
+
+const abs = (value: bigint) => (value < ZERO_FIXED ? -value : value);
+
+const rescale = (value: bigint, from: number, to: number) =>
+  to >= from ? value << BigInt(to - from) : value >> BigInt(from - to);
+
+const toComplex = (z: FixedComplex, bits: number): Complex => ({ re: fixedToNumber(z.re, bits), im: fixedToNumber(z.im, bits) });
+
+/** Fixed-point complex arithmetic at a given number of fraction bits */
+function fixedArithmetic(bits: number) {
+  const shift = BigInt(bits);
+  const one = ONE_FIXED << shift;
+  const escape = BigInt(ESCAPE_MODULUS) << shift;
+  return {
+    // z^2 + c
+    step: (z: FixedComplex, c: FixedComplex): FixedComplex => ({
+      re: ((z.re * z.re - z.im * z.im) >> shift) + c.re,
+      im: ((TWO * z.re * z.im) >> shift) + c.im,
+    }),
+    // 2 z dz + 1, the derivative of the step with respect to c
+    derivative: (z: FixedComplex, dz: FixedComplex): FixedComplex => ({
+      re: ((TWO * (z.re * dz.re - z.im * dz.im)) >> shift) + one,
+      im: (TWO * (z.re * dz.im + z.im * dz.re)) >> shift,
+    }),
+    divide: (a: FixedComplex, b: FixedComplex): FixedComplex | null => {
+      const denominator = b.re * b.re + b.im * b.im;
+      if (denominator === ZERO_FIXED) return null;
+      return {
+        re: ((a.re * b.re + a.im * b.im) << shift) / denominator,
+        im: ((a.im * b.re - a.re * b.im) << shift) / denominator,
+      };
+    },
+    escaped: (z: FixedComplex) => abs(z.re) > escape || abs(z.im) > escape,
+    // Newton has converged once its step is down to the last few bits
+    settled: (delta: FixedComplex) => abs(delta.re) + abs(delta.im) < BigInt(1 << 16),
+    // Distinct at the precision Newton leaves: half the bits
+    distinct: (a: FixedComplex, b: FixedComplex) =>
+      abs(a.re - b.re) + abs(a.im - b.im) > ONE_FIXED << BigInt(Math.floor(bits / 2)),
+  };
+}
+
+/** Orbit of 0 under z^2 + c: z_0 .. z_steps, with dz/dc alongside */
+function orbitOfZero(c: FixedComplex, steps: number, bits: number): { z: FixedComplex[]; dz: FixedComplex[] } | null {
+  const fixed = fixedArithmetic(bits);
+  let z: FixedComplex = { re: ZERO_FIXED, im: ZERO_FIXED };
+  let dz: FixedComplex = { re: ZERO_FIXED, im: ZERO_FIXED };
+  const zs = [z];
+  const dzs = [dz];
+  for (let i = 0; i < steps; i++) {
+    dz = fixed.derivative(z, dz);
+    z = fixed.step(z, c);
+    if (fixed.escaped(z)) return null;
+    zs.push(z);
+    dzs.push(dz);
+  }
+  return { z: zs, dz: dzs };
+}
+
+/**
+ * Newton's method on g(c) = z_{preperiod+period} - z_preperiod, which is z_period for a
+ * nucleus; null when it escapes or does not settle
+ */
+function newton(start: FixedComplex, preperiod: number, period: number, bits: number): FixedComplex | null {
+  const fixed = fixedArithmetic(bits);
+  let c = start;
+  for (let step = 0; step < MAX_NEWTON_STEPS; step++) {
+    const orbit = orbitOfZero(c, preperiod + period, bits);
+    if (!orbit) return null;
+    const end = preperiod + period;
+    const g = { re: orbit.z[end].re - orbit.z[preperiod].re, im: orbit.z[end].im - orbit.z[preperiod].im };
+    const dg = { re: orbit.dz[end].re - orbit.dz[preperiod].re, im: orbit.dz[end].im - orbit.dz[preperiod].im };
+    const delta = fixed.divide(g, dg);
+    if (!delta) return null;
+    c = { re: c.re - delta.re, im: c.im - delta.im };
+    if (fixed.settled(delta)) return c;
+  }
+  return null;
+}
+
+const properDivisors = (n: number) => Array.from({ length: n - 1 }, (_, i) => i + 1).filter((d) => n % d === 0);
+
+/**
+ * Lowest period after the given one whose nucleus may lie near c, by the ball method: the disc
+ * of the given radius around c is iterated with a bound on its spread, and the steps at which
+ * it covers 0 give the candidate periods. 0 when none does up to maxPeriod
+ */
+function ballPeriod(c: FixedComplex, radius: number, bits: number, maxPeriod: number, after = 0): number {
+  const fixed = fixedArithmetic(bits);
+  let z: FixedComplex = { re: ZERO_FIXED, im: ZERO_FIXED };
+  let spread = 0;
+  for (let period = 1; period <= maxPeriod; period++) {
+    const modulus = Math.hypot(fixedToNumber(z.re, bits), fixedToNumber(z.im, bits));
+    spread = spread * (2 * modulus + spread) + radius;
+    z = fixed.step(z, c);
+    const next = Math.hypot(fixedToNumber(z.re, bits), fixedToNumber(z.im, bits));
+    if (next < spread && period > after) return period;
+    // The whole disc has escaped
+    if (next - spread > 2 || !isFinite(spread)) return 0;
+  }
+  return 0;
+}
+
+// Atom size estimate from the orbit of the nucleus: 1 / (b l^2), with l the product of the
+// derivatives 2 z_i and b the sum of 1 / l along it
+function atomSize(orbit: FixedComplex[], period: number, bits: number): number {
+  let l: Complex = { re: 1, im: 0 };
+  let b: Complex = { re: 1, im: 0 };
+  for (let i = 1; i < period; i++) {
+    const z = toComplex(orbit[i], bits);
+    l = cmul({ re: 2 * z.re, im: 2 * z.im }, l);
+    b = cadd(b, cdiv({ re: 1, im: 0 }, l));
+  }
+  const size = cdiv({ re: 1, im: 0 }, cmul(b, cmul(l, l)));
+  return Math.hypot(size.re, size.im);
+}
+
+// Refine at more bits until they cover the feature's own scale, then frame it
+function settleFeature(
+  found: FixedComplex,
+  bits: number,
+  preperiod: number,
+  period: number,
+  measure: (c: FixedComplex, bits: number) => number | null
+): { c: FixedComplex; bits: number; size: number } | null {
+  let c = found;
+  for (;;) {
+    const size = measure(c, bits);
+    if (size === null) return null;
+    const needed = requiredBits(Math.max(size, MIN_ZOOM)) + NEWTON_GUARD_BITS;
+    if (needed <= bits) return { c, bits, size };
+    const refined = newton({ re: rescale(c.re, bits, needed), im: rescale(c.im, bits, needed) }, preperiod, period, needed);
+    if (!refined) return null;
+    c = refined;
+    bits = needed;
+  }
+}
+
+const featureViewport = (c: FixedComplex, bits: number, size: number): PreciseViewport => ({
+  x: c.re,
+  y: c.im,
+  bits,
+  zoom: Math.max(size, MIN_ZOOM),
+});
+
+// Nucleus of exactly the given period by Newton from start; null when Newton fails or lands
+// on a component of a lower period
+function nucleusOfPeriod(start: FixedComplex, period: number, bits: number): MandelbrotFeature | null {
+  const nucleus = newton(start, 0, period, bits);
+  if (!nucleus) return null;
+  const settled = settleFeature(nucleus, bits, 0, period, (c, cBits) => {
+    const orbit = orbitOfZero(c, period, cBits);
+    if (!orbit) return null;
+    // z_d returning to 0 earlier means the period is really d
+    const fixed = fixedArithmetic(cBits);
+    const zero = { re: ZERO_FIXED, im: ZERO_FIXED };
+    if (properDivisors(period).some((d) => !fixed.distinct(orbit.z[d], zero))) return null;
+    return atomSize(orbit.z, period, cBits);
+  });
+  if (!settled) return null;
+
+  return {
+    kind: 'nucleus',
+    preperiod: 0,
+    period,
+    viewport: featureViewport(settled.c, settled.bits, settled.size),
+    size: settled.size,
+  };
+}
+
+/**
+ * Find the nucleus of a hyperbolic component near the viewport's centre
+ * Without a period, the ball method's periods for the view's half height are tried lowest
+ * first, as Newton from the centre can land on a lower period's nucleus instead.
+ * Null when there is none or Newton lands on a component of a lower period
+ */
+export function findNucleus(viewport: PreciseViewport, options: NucleusSearchOptions = {}): MandelbrotFeature | null {
+  const bits = viewport.bits + NEWTON_GUARD_BITS;
+  const start = { re: rescale(viewport.x, viewport.bits, bits), im: rescale(viewport.y, viewport.bits, bits) };
+  if (options.period !== undefined) return options.period < 1 ? null : nucleusOfPeriod(start, options.period, bits);
+
+  const maxPeriod = options.maxPeriod ?? DEFAULT_MAX_PERIOD;
+  let period = 0;
+  for (let tries = 0; tries < MAX_PERIOD_CANDIDATES; tries++) {
+    period = ballPeriod(start, viewport.zoom, bits, maxPeriod, period);
+    if (period < 1) return null;
+    const found = nucleusOfPeriod(start, period, bits);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Find the Misiurewicz point of the given preperiod and period near the viewport's centre,
+ * where the orbit of 0 lands on a repelling cycle after preperiod steps
+ * Preperiod 1 has none: 0 would itself be periodic, making c a nucleus. Null when Newton
+ * fails, lands on a point of lower preperiod or period, or wanders outside the search radius
+ * of a few view heights, as it does creeping towards a multiple root of g
+ */
+export function findMisiurewicz(viewport: PreciseViewport, preperiod: number, period: number): MandelbrotFeature | null {
+  if (preperiod < 2 || period < 1) return null;
+  const bits = viewport.bits + NEWTON_GUARD_BITS;
+  const start = { re: rescale(viewport.x, viewport.bits, bits), im: rescale(viewport.y, viewport.bits, bits) };
+  const searchRadius = MISIUREWICZ_SEARCH_RADII * viewport.zoom;
+
+  const point = newton(start, preperiod, period, bits);
+  if (!point) return null;
+  const settled = settleFeature(point, bits, preperiod, period, (c, cBits) => {
+    const orbit = orbitOfZero(c, preperiod + period, cBits);
+    if (!orbit) return null;
+    const fixed = fixedArithmetic(cBits);
+    const { z, dz } = orbit;
+    // Entering the cycle a step sooner, or a shorter cycle, means a different point
+    if (!fixed.distinct(z[preperiod - 1 + period], z[preperiod - 1])) return null;
+    if (properDivisors(period).some((d) => !fixed.distinct(z[preperiod + d], z[preperiod]))) return null;
+    // Neighbouring roots of g lie about 1 / |g'| away; a vanishing g' is a multiple root
+    const dg = toComplex({ re: dz[preperiod + period].re - dz[preperiod].re, im: dz[preperiod + period].im - dz[preperiod].im }, cBits);
+    const size = 1 / Math.hypot(dg.re, dg.im);
+    return size <= searchRadius ? size : null;
+  });
+  if (!settled) return null;
+  const offset = toComplex({ re: settled.c.re - rescale(start.re, bits, settled.bits), im: settled.c.im - rescale(start.im, bits, settled.bits) }, settled.bits);
+  if (Math.hypot(offset.re, offset.im) > searchRadius) return null;
+
+  return {
+    kind: 'misiurewicz',
+    preperiod,
+    period,
+    viewport: featureViewport(settled.c, settled.bits, settled.size),
+    size: settled.size,
+  };
+}
@@ -0,0 +1,472 @@
+/**
+ * Fractal formula registry
+ * One entry per fractal: the shader that renders it, the CPU iteration used for orbits and
+ * sound, how a clicked point becomes z0 and c, and the defaults and labels the UI shows.
+ * Adding a fractal is a single registration here.
+ */
+
+import * as THREE from 'three';
+import { Complex, cabs2, cadd, cdiv, cmul, conj, cpow, csub, ZERO } from '@/lib/math/complex';
+import { createEquationEvaluator } from '@/lib/math/equation-evaluator';
+import { equationToLatex, LatexOptions, withConditionsLatex, withDefinitionsLatex } from '@/lib/math/equation-latex';
+import { parseEquationAst } from '@/lib/math/equation-parser';
+import { buildNewtonSystem, NEWTON_TOLERANCE, newtonDelta } from '@/lib/math/newton';
+import type { PerturbationKind } from './perturbation';
+import {
+  createBurningShipMaterial,
+  createCollatzMaterial,
+  createCustomMaterial,
+  createEquationMaterial,
+  createJuliaMaterial,
+  createMagnetMaterial,
+  createNewtonEquationMaterial,
+  createNewtonMaterial,
+  createSemiBurningShipMaterial,
+  createSpiralMaterial,
+  createTricornMaterial,
+} from '@/lib/webgl/shader-materials';
+
+export interface FractalViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/** Slider values and typed equation the formula is evaluated with */
+export interface FormulaInputs {
+  z: Complex;
+  c: Complex;
+  x: Complex;
+  /** Power input */
+  n: number;
+  /** Values of parameters declared in the typed equation */
+  params?: Record<string, Complex>;
+  /** Typed equation, for formulas that compile one */
+  equation?: string;
+  /** Newton step factor a in z - a f(z)/f'(z) */
+  relaxation?: number;
+}
+
+/** Which sliders the formula reads */
+export interface FormulaSliders {
+  z: boolean;
+  c: boolean;
+  x: boolean;
+  /** Symbols in the formula bound directly to a slider, printed as values when substitution is on */
+  symbols: string[];
+}
+
+/** CPU iteration with the inputs bound */
+export interface FormulaIteration {
+  step: (z: Complex, c: Complex, zPrev: Complex) => Complex;
+  /** Checked before each step; |z|^2 > bailout unless given */
+  escaped?: (z: Complex, c: Complex, zPrev: Complex) => boolean;
+  /** Checked after each step, for formulas that settle on attractors */
+  converged?: (z: Complex, c: Complex, zPrev: Complex) => boolean;
+  /** Period of a component known to contain c without iterating, 0 when none is */
+  interior?: (c: Complex) => number;
+}
+
+export interface FormulaLatexOptions {
+  /** Typed equation, for formulas that compile one */
+  equation?: string;
+  /** Slider values to print in place of symbols; symbolic when unset */
+  substitutions?: Record<string, Complex>;
+  relaxation?: number;
+}
+
+export interface FractalFormula {
+  key: string;
+  label: string;
+  /** Formulas driven by a typed equation: an iteration z = f(z, c) or Newton's f(z) */
+  equationKind?: 'iteration' | 'newton';
+  /**
+   * Build the shader; formulas with a typed equation return null while it does not compile,
+   * and their default shader when called without one
+   */
+  createMaterial: (equation?: string) => THREE.RawShaderMaterial | null;
+  /** Starting z and constant c for a point of the plane, mirroring the shader */
+  init: (point: Complex, inputs: FormulaInputs) => { z: Complex; c: Complex };
+  /** Bind the inputs; null when the typed equation does not compile */
+  iteration: (inputs: FormulaInputs) => FormulaIteration | null;
+  /** Delta iteration the deep-zoom shader uses for this formula, when it has one */
+  perturbation?: PerturbationKind;
+  /** Squared escape radius */
+  bailout: number;
+  defaultIterations: number;
+  viewport: FractalViewport;
+  sliders: FormulaSliders;
+  /** Header equation */
+  latex: (options: FormulaLatexOptions) => string;
+}
+
+export interface FormulaOrbit {
+  /** Number of steps applied before stopping or hitting the limit */
+  iterations: number;
+  z: Complex;
+  escaped: boolean;
+  converged: boolean;
+  /** Period of the cycle the orbit was found in, 0 when none was detected */
+  period: number;
+  /** Step (from 1) at which |z| was smallest, the atom domain the point lies in; 0 before any step */
+  atomDomain: number;
+  /** |z|^2 at that step; Infinity before any step */
+  nearest: number;
+}
+
+/** Options for FormulaOrbiter */
+export interface OrbitOptions {
+  /**
+   * Stop bounded orbits early: skip points in known components and end orbits once they
+   * repeat. Off for trajectories and sound, which follow the full orbit
+   */
+  detectInterior?: boolean;
+}
+
+export const DEFAULT_VIEWPORT: FractalViewport = { x: -0.8, y: 0, zoom: 1.5 };
+
+const sliders = (z: boolean, c: boolean, x: boolean, symbols: string[] = []): FormulaSliders => ({ z, c, x, symbols });
+
+// Header printed from an equation-syntax formula, so the label always matches the AST
+const printedLatex = (formula: string) => {
+  const ast = parseEquationAst(formula).ast;
+  return ({ substitutions }: FormulaLatexOptions) => `z_{n+1} = ${ast ? equationToLatex(ast, { substitutions }) : formula}`;
+};
+
+// Hand-written header for formulas the equation syntax cannot express
+const fixedLatex = (latex: string) => () => latex;
+
+// Mandelbrot-family start: z from the slider, c from the point offset by the c slider
+const mandelbrotInit = (point: Complex, inputs: FormulaInputs) => ({ z: inputs.z, c: cadd(point, inputs.c) });
+
+// Squared distance under which an orbit counts as back at its saved point
+const PERIOD_TOLERANCE = 1e-20;
+
+/**
+ * Period of the main cardioid (1) or the period-2 bulb (2) of z^2 + c containing c;
+ * 0 outside both
+ */
+export function mandelbrotComponent(c: Complex): number {
+  const x = c.re - 0.25;
+  const q = x * x + c.im * c.im;
+  if (q * (q + x) <= 0.25 * c.im * c.im) return 1;
+  if ((c.re + 1) ** 2 + c.im * c.im <= 0.0625) return 2;
+  return 0;
+}
+
+// Julia-family start: z from the point, c from the slider
+const juliaInit = (point: Complex, inputs: FormulaInputs) => ({ z: point, c: inputs.c });
+
+// z^x + c, squaring directly for the classic exponent
+const powerStep = ({ x }: FormulaInputs): FormulaIteration => ({
+  step: x.re === 2 && x.im === 0 ? (z, c) => cadd(cmul(z, z), c) : (z, c) => cadd(cpow(z, x), c),
+});
+
+export const FRACTAL_FORMULAS: Record<string, FractalFormula> = {
+  mandelbrot: {
+    key: 'mandelbrot',
+    label: 'Mandelbrot',
+    createMaterial: createCustomMaterial,
+    init: mandelbrotInit,
+    // The component tests hold only for z^2 + c started at the critical point
+    iteration: (inputs) => ({
+      ...powerStep(inputs),
+      ...(inputs.x.re === 2 && inputs.x.im === 0 && cabs2(inputs.z) === 0 ? { interior: mandelbrotComponent } : {}),
+    }),
+    perturbation: 'mandelbrot',
+    bailout: 256,
+    defaultIterations: 75,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(true, false, true, ['x']),
+    latex: printedLatex('z^x + c'),
+  },
+  burningship: {
+    key: 'burningship',
+    label: 'Burning Ship',
+    createMaterial: createBurningShipMaterial,
+    // The shader flips the imaginary axis so the ship sails upright
+    init: (point, inputs) => ({ z: inputs.z, c: { re: point.re, im: -point.im } }),
+    iteration: ({ x }) => ({ step: (z, c) => cadd(cpow({ re: Math.abs(z.re), im: Math.abs(z.im) }, x), c) }),
+    perturbation: 'burningship',
+    bailout: 256,
+    defaultIterations: 75,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(true, false, true, ['x']),
+    latex: printedLatex('(|Re(z)| + i|Im(z)|)^x + c'),
+  },
+  burningship_semi: {
+    key: 'burningship_semi',
+    label: 'Semi Burning Ship',
+    createMaterial: createSemiBurningShipMaterial,
+    init: (point, inputs) => ({ z: inputs.z, c: { re: point.re, im: -point.im } }),
+    iteration: ({ x }) => ({ step: (z, c) => cadd(cpow({ re: Math.abs(z.re), im: z.im }, x), c) }),
+    bailout: 256,
+    defaultIterations: 75,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(true, false, true, ['x']),
+    latex: printedLatex('(|Re(z)| + i*Im(z))^x + c'),
+  },
+  julia: {
+    key: 'julia',
+    label: 'Julia Set',
+    createMaterial: createJuliaMaterial,
+    init: juliaInit,
+    iteration: powerStep,
+    bailout: 256,
+    defaultIterations: 75,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(false, true, true, ['c', 'x']),
+    latex: printedLatex('z^x + c'),
+  },
+  tricorn: {
+    key: 'tricorn',
+    label: 'Tricorn (Mandelbar)',
+    createMaterial: createTricornMaterial,
+    init: (point) => ({ z: ZERO, c: point }),
+    iteration: () => ({
+      step: (z, c) => {
+        const bar = conj(z);
+        return cadd(cmul(bar, bar), c);
+      },
+    }),
+    perturbation: 'tricorn',
+    bailout: 256,
+    defaultIterations: 75,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(false, false, false),
+    latex: printedLatex('conj(z)^2 + c'),
+  },
+  newton: {
+    key: 'newton',
+    label: "Newton's Fractal",
+    equationKind: 'newton',
+    createMaterial: (equation) => (equation ? createNewtonEquationMaterial(equation) : createNewtonMaterial()),
+    // c and x are available inside f(z)
+    init: juliaInit,
+    iteration: ({ equation, c, x, n, params, relaxation = 1 }) => {
+      const system = equation ? buildNewtonSystem(equation).system : null;
+      if (!system) return null;
+      const scope = { c, x, n, params };
+      return {
+        step: (z) => csub(z, newtonDelta(system, z, scope, relaxation)),
+        escaped: (z) => !isFinite(z.re) || !isFinite(z.im),
+        // Same tolerance as the shader
+        converged: (z, _c, zPrev) => cabs2(csub(z, zPrev)) < NEWTON_TOLERANCE * NEWTON_TOLERANCE,
+      };
+    },
+    bailout: Infinity,
+    defaultIterations: 75,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(false, true, true, ['c', 'x', 'n']),
+    latex: ({ equation, substitutions, relaxation = 1 }) => {
+      const parsed = equation ? parseEquationAst(equation) : null;
+      if (!parsed?.ast) return "z_{n+1} = z_n - \\frac{f(z_n)}{f'(z_n)}";
+      const options: LatexOptions = { iterate: 'z', substitutions };
+      const factor = relaxation === 1 ? '' : substitutions ? relaxation.toFixed(2) : 'a';
+      const f = withDefinitionsLatex(`f(z) = ${equationToLatex(parsed.ast, options)}`, parsed.definitions, options);
+      return `z_{n+1} = z_n - ${factor}\\frac{f(z_n)}{f'(z_n)}, \\quad ${f}`;
+    },
+  },
+  collatz: {
+    key: 'collatz',
+    label: 'Collatz Spiral',
+    createMaterial: createCollatzMaterial,
+    init: juliaInit,
+    // Smooth Collatz map, rotated by the c slider
+    iteration: ({ c: slider }) => {
+      const a = 0.25 + slider.re * 0.5;
+      const rotation = { re: Math.cos(slider.im * Math.PI), im: Math.sin(slider.im * Math.PI) };
+      return {
+        step: (z) => {
+          const phase = Math.PI * z.re * a;
+          const cos2 = Math.cos(phase) ** 2;
+          const sin2 = Math.sin(phase) ** 2;
+          const mixed = {
+            re: z.re * cos2 + (3 * z.re + 1) * 0.5 * sin2,
+            im: z.im * cos2 + 3 * z.im * 0.5 * sin2,
+          };
+          return cmul(mixed, rotation);
+        },
+      };
+    },
+    bailout: 10000,
+    defaultIterations: 100,
+    viewport: { x: 0, y: 0, zoom: 3.0 },
+    sliders: sliders(false, true, false),
+    latex: fixedLatex('z \\cdot \\cos^2(\\pi z a) + \\frac{3z+1}{2} \\cdot \\sin^2(\\pi z a)'),
+  },
+  magnet: {
+    key: 'magnet',
+    label: 'Magnet (Galaxy)',
+    createMaterial: createMagnetMaterial,
+    init: (point) => ({ z: ZERO, c: point }),
+    iteration: () => ({
+      step: (z, c) => {
+        const numerator = { re: z.re * z.re - z.im * z.im + c.re - 1, im: 2 * z.re * z.im + c.im };
+        const denominator = { re: 2 * z.re + c.re - 2, im: 2 * z.im + c.im };
+        // A vanishing denominator sends the orbit far past the bailout
+        const fraction = cabs2(denominator) < 1e-10 ? { re: 1e10, im: 1e10 } : cdiv(numerator, denominator);
+        return cmul(fraction, fraction);
+      },
+      // Attracted to the fixed point z = 1
+      converged: (z) => cabs2(csub(z, { re: 1, im: 0 })) < 1e-6,
+    }),
+    bailout: 1000,
+    defaultIterations: 100,
+    viewport: { x: 1.5, y: 0, zoom: 2.5 },
+    sliders: sliders(false, false, false),
+    latex: printedLatex('((z^2 + c - 1)/(2z + c - 2))^2'),
+  },
+  spiral: {
+    key: 'spiral',
+    label: 'Logarithmic Spiral',
+    createMaterial: createSpiralMaterial,
+    init: juliaInit,
+    // z^p e^(a+bi): the c slider sets growth a and rotation b, x the power
+    iteration: ({ c: slider, x }) => {
+      const growth = Math.exp(slider.re * 0.1);
+      const rotation = 0.3 + slider.im * 0.5;
+      const factor = { re: growth * Math.cos(rotation), im: growth * Math.sin(rotation) };
+      const power = x.re;
+      return {
+        step: (z) => {
+          const r = Math.hypot(z.re, z.im);
+          const raised = Math.abs(power - 1) > 0.01 && r > 1e-10
+            ? { re: Math.pow(r, power) * Math.cos(Math.atan2(z.im, z.re) * power), im: Math.pow(r, power) * Math.sin(Math.atan2(z.im, z.re) * power) }
+            : z;
+          return cmul(raised, factor);
+        },
+        converged: (z) => cabs2(z) < 1e-8,
+      };
+    },
+    bailout: 10000,
+    defaultIterations: 100,
+    viewport: { x: 0, y: 0, zoom: 2.0 },
+    sliders: sliders(false, true, true),
+    latex: fixedLatex('z_{n+1} = z_n^x \\cdot e^{a+bi}'),
+  },
+  custom: {
+    key: 'custom',
+    label: 'Custom Equation',
+    equationKind: 'iteration',
+    createMaterial: (equation) => (equation ? createEquationMaterial(equation) : createCustomMaterial()),
+    init: mandelbrotInit,
+    iteration: ({ equation, x, n, params }) => {
+      const program = equation ? createEquationEvaluator(equation) : null;
+      if (!program) return null;
+      const { step, escape, until } = program;
+      // Same scope and stop tests as the compiled shader
+      const scope = (z: Complex, c: Complex, zPrev: Complex) => ({ z, c, zPrev, x, n, params });
+      return {
+        step: (z, c, zPrev) => step(scope(z, c, zPrev)),
+        escaped: (z, c, zPrev) => (escape ? escape(scope(z, c, zPrev)) : cabs2(z) >= 256),
+        ...(until ? { converged: (z: Complex, c: Complex, zPrev: Complex) => until(scope(z, c, zPrev)) } : {}),
+      };
+    },
+    bailout: 256,
+    defaultIterations: 100,
+    viewport: DEFAULT_VIEWPORT,
+    sliders: sliders(true, true, true, ['x', 'n']),
+    latex: ({ equation, substitutions }) => {
+      const parsed = equation ? parseEquationAst(equation) : null;
+      if (!parsed?.ast) return 'z_{n+1} = f(z_n, c)';
+      const step = `z_{n+1} = ${equationToLatex(parsed.ast, { substitutions })}`;
+      return withConditionsLatex(withDefinitionsLatex(step, parsed.definitions, { substitutions }), parsed.conditions, { substitutions });
+    },
+  },
+};
+
+/** A formula with its inputs bound, for iterating many points */
+export interface FormulaOrbiter {
+  /**
+   * Iterate from a point of the plane until the orbit escapes, converges or hits the limit
+   * onStep receives the starting z (iteration 0) and then each new z
+   */
+  orbit: (point: Complex, maxIterations: number, onStep?: (z: Complex, iteration: number) => void) => FormulaOrbit;
+}
+
+/**
+ * Bind a formula's inputs once, compiling its typed equation if it has one
+ * Returns null when the equation does not compile
+ */
+export function bindFormula(formula: FractalFormula, inputs: FormulaInputs, options: OrbitOptions = {}): FormulaOrbiter | null {
+  const iteration = formula.iteration(inputs);
+  if (!iteration) return null;
+  const { step, converged } = iteration;
+  const escaped = iteration.escaped ?? ((z: Complex) => cabs2(z) > formula.bailout);
+  const interior = options.detectInterior ? iteration.interior : undefined;
+  const detectCycles = options.detectInterior ?? false;
+
+  return {
+    orbit: (point, maxIterations, onStep) => {
+      const start = formula.init(point, inputs);
+      const c = start.c;
+      let z = start.z;
+      let zPrev = z;
+      onStep?.(z, 0);
+      const component = interior?.(c) ?? 0;
+      if (component) {
+        return { iterations: maxIterations, z, escaped: false, converged: false, period: component, atomDomain: component, nearest: Infinity };
+      }
+      let atomDomain = 0;
+      let nearest = Infinity;
+
+      // Brent cycle detection: compare against the point saved at the last power-of-two step.
+      // Steps may read zPrev, so the pair must repeat
+      let saved = z;
+      let savedPrev = zPrev;
+      let savedAt = 0;
+      let window = 1;
+      for (let i = 0; i < maxIterations; i++) {
+        if (escaped(z, c, zPrev)) return { iterations: i, z, escaped: true, converged: false, period: 0, atomDomain, nearest };
+        const next = step(z, c, zPrev);
+        zPrev = z;
+        z = next;
+        onStep?.(z, i + 1);
+        if (cabs2(z) < nearest) {
+          nearest = cabs2(z);
+          atomDomain = i + 1;
+        }
+        if (converged?.(z, c, zPrev)) return { iterations: i + 1, z, escaped: false, converged: true, period: 0, atomDomain, nearest };
+        if (!detectCycles) continue;
+        if (cabs2(csub(z, saved)) + cabs2(csub(zPrev, savedPrev)) < PERIOD_TOLERANCE) {
+          return { iterations: i + 1, z, escaped: false, converged: false, period: i + 1 - savedAt, atomDomain, nearest };
+        }
+        if (i + 1 - savedAt === window) {
+          saved = z;
+          savedPrev = zPrev;
+          savedAt = i + 1;
+          window *= 2;
+        }
+      }
+      return { iterations: maxIterations, z, escaped: escaped(z, c, zPrev), converged: false, period: 0, atomDomain, nearest };
+    },
+  };
+}
+
+/**
+ * Iterate a single point; see FormulaOrbiter.orbit
+ * Returns null when the formula's typed equation does not compile
+ */
+export function iterateFormula(
+  formula: FractalFormula,
+  point: Complex,
+  inputs: FormulaInputs,
+  maxIterations: number,
+  onStep?: (z: Complex, iteration: number) => void
+): FormulaOrbit | null {
+  return bindFormula(formula, inputs)?.orbit(point, maxIterations, onStep) ?? null;
+}
+
+/**
+ * Fractional escape count for smooth colouring and pitch; the integer count for orbits
+ * that converged or never escaped
+ */
+export function smoothIterations(orbit: FormulaOrbit): number {
+  if (!orbit.escaped) return orbit.iterations;
+  const logZn = Math.log(cabs2(orbit.z)) / 2;
+  if (!(logZn > 0) || !isFinite(logZn)) return orbit.iterations;
+  const nu = Math.log(logZn / Math.log(2)) / Math.log(2);
+  const smooth = orbit.iterations + 1 - nu;
+  return isFinite(smooth) && smooth >= 0 ? smooth : orbit.iterations;
+}
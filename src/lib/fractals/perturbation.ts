@@ -0,0 +1,109 @@
+/**
+ * Perturbation deep zoom
+ * Past float precision the shader no longer iterates pixels directly: one reference orbit
+ * through the view centre is computed here in fixed point, uploaded as a float texture, and
+ * each pixel iterates only its small difference from it. Pixels whose difference stops being
+ * small relative to the reference rebase onto the reference's start (Zhuoran's method), so
+ * the reference may escape or wander without glitching the image.
+ */
+
+import { Complex } from '@/lib/math/complex';
+import { fixedToNumber, numberToFixed, PreciseViewport } from '@/lib/math/precise-viewport';
+import type { FractalFormula } from './formula-registry';
+
+/** Formulas with a delta iteration in the perturbation shader */
+export type PerturbationKind = 'mandelbrot' | 'burningship' | 'tricorn';
+
+/** Zoom below which float shaders lose pixels and the perturbation shader takes over */
+export const PERTURBATION_ZOOM = 1e-4;
+
+/** Reference orbit texture layout; its capacity bounds the reference's length */
+export const REFERENCE_TEXTURE_WIDTH = 1024;
+export const REFERENCE_TEXTURE_HEIGHT = 64;
+export const REFERENCE_ORBIT_CAPACITY = REFERENCE_TEXTURE_WIDTH * REFERENCE_TEXTURE_HEIGHT;
+
+const ZERO_FIXED = BigInt(0);
+const TWO = BigInt(2);
+
+export interface ReferenceOrbit {
+  /** Reference z per step as (re, im) pairs */
+  points: Float64Array;
+  /** Stored points, including the starting z and any escaping point */
+  length: number;
+}
+
+/**
+ * Perturbation kind for the formula, or null when it does not apply
+ * The delta iterations assume the classic square, so a changed x slider turns it off
+ */
+export function perturbationKind(formula: FractalFormula, x: Complex): PerturbationKind | null {
+  if (!formula.perturbation) return null;
+  if (formula.sliders.x && (x.re !== 2 || x.im !== 0)) return null;
+  return formula.perturbation;
+}
+
+/** Zoom as mantissa * 2^exponent, so the shader can scale deltas past float range */
+export function splitZoom(zoom: number): { mantissa: number; exponent: number } {
+  const exponent = Math.floor(Math.log2(zoom));
+  return { mantissa: zoom / 2 ** exponent, exponent };
+}
+
+/**
+ * Iterate the view centre in fixed point at the viewport's precision
+ * Starts and constants mirror the formulas' init: the Mandelbrot reads the z and c sliders,
+ * the Burning Ship the z slider with the imaginary axis flipped, the Tricorn neither.
+ */
+export function computeReferenceOrbit(
+  kind: PerturbationKind,
+  viewport: PreciseViewport,
+  inputs: { z: Complex; c: Complex },
+  maxIterations: number
+): ReferenceOrbit {
+  const { bits } = viewport;
+  const shift = BigInt(bits);
+  const fixed = (value: number) => numberToFixed(value, bits);
+
+  let cx = viewport.x;
+  let cy = viewport.y;
+  let zx = ZERO_FIXED;
+  let zy = ZERO_FIXED;
+  if (kind === 'mandelbrot') {
+    cx += fixed(inputs.c.re);
+    cy += fixed(inputs.c.im);
+  }
+  if (kind === 'burningship') cy = -cy;
+  if (kind !== 'tricorn') {
+    zx = fixed(inputs.z.re);
+    zy = fixed(inputs.z.im);
+  }
+
+  const bailout = fixed(256);
+  const count = Math.min(maxIterations + 1, REFERENCE_ORBIT_CAPACITY);
+  const points = new Float64Array(count * 2);
+  let length = 0;
+  while (length < count) {
+    points[length * 2] = fixedToNumber(zx, bits);
+    points[length * 2 + 1] = fixedToNumber(zy, bits);
+    length++;
+
+    const x2 = (zx * zx) >> shift;
+    const y2 = (zy * zy) >> shift;
+    if (x2 + y2 > bailout) break;
+    const xy = (zx * zy) >> shift;
+    if (kind === 'burningship') {
+      zy = TWO * (xy < ZERO_FIXED ? -xy : xy) + cy;
+    } else {
+      zy = (kind === 'tricorn' ? -TWO : TWO) * xy + cy;
+    }
+    zx = x2 - y2 + cx;
+  }
+  return { points, length };
+}
+
+/** Copy the orbit into RGBA float texels, z in red/green, for the uRefOrbit texture */
+export function writeReferenceTexels(orbit: ReferenceOrbit, texels: Float32Array): void {
+  for (let i = 0; i < orbit.length; i++) {
+    texels[i * 4] = orbit.points[i * 2];
+    texels[i * 4 + 1] = orbit.points[i * 2 + 1];
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Series approximation for perturbation rendering
+ * Early in the reference orbit, every pixel's delta is the same polynomial in its offset
+ * dc from the reference: delta_n = sum of b_ij u^i conj(u)^j, with u = dc / radius so that
+ * |u| <= 1 across the view. Iterating the coefficients once on the CPU lets the shader start
+ * each pixel at step n instead of 0. Probe points at the edge of the view are iterated
+ * exactly alongside, and the skip stops at the first step where the series misses them.
+ */
+
+import { Complex } from '@/lib/math/complex';
+import type { PerturbationKind, ReferenceOrbit } from './perturbation';
+
+/** Monomials u^i conj(u)^j of the series, as [i, j] */
+export type SeriesTerm = [number, number];
+
+export interface SeriesApproximation {
+  /** Iterations every pixel can skip */
+  skipped: number;
+  /** Coefficient of each term at the skipped step, as (re, im) pairs */
+  coefficients: Float64Array;
+}
+
+// Largest relative error allowed at a probe: a fraction of a pixel even at the view's edge
+const PROBE_TOLERANCE = 1e-5;
+
+// Analytic formulas need only powers of u; the Tricorn's conjugation mixes in conj(u).
+// The Burning Ship's absolute values break any polynomial, so it never skips.
+const termsUpTo = (degree: number, conjugate: boolean): SeriesTerm[] => {
+  const terms: SeriesTerm[] = [];
+  for (let total = 1; total <= degree; total++) {
+    for (let j = 0; j <= (conjugate ? total : 0); j++) terms.push([total - j, j]);
+  }
+  return terms;
+};
+
+export const SERIES_TERMS: Record<PerturbationKind, SeriesTerm[]> = {
+  mandelbrot: termsUpTo(8, false),
+  tricorn: termsUpTo(5, true),
+  burningship: [],
+};
+
+// Probes on the view's edge in u units: corners and edge midpoints for an aspect ratio
+const probeOffsets = (aspect: number): Complex[] => {
+  const norm = Math.hypot(aspect, 1);
+  const probes: Complex[] = [];
+  for (const [x, y] of [[-1, -1], [1, -1], [-1, 1], [1, 1], [0, -1], [0, 1], [-1, 0], [1, 0]]) {
+    probes.push({ re: (x * aspect) / norm, im: y / norm });
+  }
+  return probes;
+};
+
+// For each term, the pairs of terms whose product lands on it
+const squarePairs = (terms: SeriesTerm[]): number[][] =>
+  terms.map(([i, j]) => {
+    const pairs: number[] = [];
+    terms.forEach(([i1, j1], a) => {
+      const b = terms.findIndex(([i2, j2]) => i1 + i2 === i && j1 + j2 === j);
+      if (b >= 0) pairs.push(a, b);
+    });
+    return pairs;
+  });
+
+/** Evaluate the series at u */
+export function evaluateSeries(terms: SeriesTerm[], coefficients: Float64Array, u: Complex): Complex {
+  let re = 0;
+  let im = 0;
+  terms.forEach(([i, j], t) => {
+    // u^i conj(u)^j by repeated multiplication; degrees are small
+    let pre = 1;
+    let pim = 0;
+    for (let k = 0; k < i; k++) [pre, pim] = [pre * u.re - pim * u.im, pre * u.im + pim * u.re];
+    for (let k = 0; k < j; k++) [pre, pim] = [pre * u.re + pim * u.im, pim * u.re - pre * u.im];
+    re += coefficients[t * 2] * pre - coefficients[t * 2 + 1] * pim;
+    im += coefficients[t * 2] * pim + coefficients[t * 2 + 1] * pre;
+  });
+  return { re, im };
+}
+
+/**
+ * Find how far the series stays exact for the view
+ * radius is the distance from the reference to the view's corners in the plane and aspect
+ * the view's width over height; the result never skips past the reference or maxIterations.
+ */
+export function computeSeriesApproximation(
+  kind: PerturbationKind,
+  orbit: ReferenceOrbit,
+  radius: number,
+  aspect: number,
+  maxIterations: number
+): SeriesApproximation {
+  const terms = SERIES_TERMS[kind];
+  let coefficients = new Float64Array(terms.length * 2);
+  if (terms.length === 0) return { skipped: 0, coefficients };
+
+  const pairs = squarePairs(terms);
+  const linear = terms.findIndex(([i, j]) => i === 1 && j === 0);
+  const mirror = terms.map(([i, j]) => terms.findIndex(([i2, j2]) => i2 === j && j2 === i));
+  const conjugate = kind === 'tricorn';
+  const probes = probeOffsets(aspect);
+  const deltas = probes.map(() => ({ re: 0, im: 0 }));
+  const limit = Math.min(maxIterations - 1, orbit.length - 1);
+
+  const squared = new Float64Array(terms.length * 2);
+  let skipped = 0;
+  while (skipped < limit) {
+    const zre = orbit.points[skipped * 2];
+    const zim = orbit.points[skipped * 2 + 1];
+
+    // Coefficients of 2 Z delta + delta^2
+    for (let t = 0; t < terms.length; t++) {
+      let re = 2 * (zre * coefficients[t * 2] - zim * coefficients[t * 2 + 1]);
+      let im = 2 * (zre * coefficients[t * 2 + 1] + zim * coefficients[t * 2]);
+      const list = pairs[t];
+      for (let p = 0; p < list.length; p += 2) {
+        const a = list[p] * 2;
+        const b = list[p + 1] * 2;
+        re += coefficients[a] * coefficients[b] - coefficients[a + 1] * coefficients[b + 1];
+        im += coefficients[a] * coefficients[b + 1] + coefficients[a + 1] * coefficients[b];
+      }
+      squared[t * 2] = re;
+      squared[t * 2 + 1] = im;
+    }
+    // Conjugating swaps the roles of u and conj(u); then add dc = radius * u
+    const next = new Float64Array(terms.length * 2);
+    for (let t = 0; t < terms.length; t++) {
+      const source = conjugate ? mirror[t] : t;
+      next[t * 2] = squared[source * 2];
+      next[t * 2 + 1] = conjugate ? -squared[source * 2 + 1] : squared[source * 2 + 1];
+    }
+    next[linear * 2] += radius;
+
+    // Step the probes exactly and check the series against them at the next reference point
+    const nre = orbit.points[(skipped + 1) * 2];
+    const nim = orbit.points[(skipped + 1) * 2 + 1];
+    const valid = probes.every((u, p) => {
+      const d = deltas[p];
+      let re = 2 * (zre * d.re - zim * d.im) + d.re * d.re - d.im * d.im;
+      let im = 2 * (zre * d.im + zim * d.re) + 2 * d.re * d.im;
+      if (conjugate) im = -im;
+      re += radius * u.re;
+      im += radius * u.im;
+      deltas[p] = { re, im };
+
+      const magnitude = re * re + im * im;
+      const zx = nre + re;
+      const zy = nim + im;
+      // The pixel escapes or the shader would rebase it: stop before either
+      if (zx * zx + zy * zy >= 256 || zx * zx + zy * zy < magnitude) return false;
+      const series = evaluateSeries(terms, next, u);
+      const error = (series.re - re) ** 2 + (series.im - im) ** 2;
+      return error <= PROBE_TOLERANCE * PROBE_TOLERANCE * magnitude;
+    });
+    if (!valid) break;
+    coefficients = next;
+    skipped++;
+  }
+  return { skipped, coefficients };
+}
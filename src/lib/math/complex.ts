@@ -0,0 +1,81 @@
+/**
+ * Complex arithmetic for CPU-side fractal iteration
+ * Each helper mirrors the GLSL helper of the same name in shader-materials.ts,
+ * including its guards, so CPU orbits follow the same path as the shaders
+ */
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const complex = (re: number, im = 0): Complex => ({ re, im });
+
+export const ZERO: Complex = { re: 0, im: 0 };
+export const ONE: Complex = { re: 1, im: 0 };
+export const I: Complex = { re: 0, im: 1 };
+
+export const cadd = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const csub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+
+export const cneg = (a: Complex): Complex => ({ re: -a.re, im: -a.im });
+
+export const cscale = (a: Complex, k: number): Complex => ({ re: a.re * k, im: a.im * k });
+
+export const cmul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+/** Complex division; returns 0 for a near-zero divisor like the shader */
+export const cdiv = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  if (d < 1e-10) return { re: 0, im: 0 };
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+
+/** Squared modulus */
+export const cabs2 = (a: Complex): number => a.re * a.re + a.im * a.im;
+
+/** Modulus as a complex value (r, 0) */
+export const cmod = (a: Complex): Complex => ({ re: Math.hypot(a.re, a.im), im: 0 });
+
+/** Argument as a complex value (theta, 0) */
+export const carg = (a: Complex): Complex => ({ re: Math.atan2(a.im, a.re), im: 0 });
+
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+
+/** Complex power z^w through exp(w ln z); 0 when |z| is tiny */
+export const cpow = (z: Complex, w: Complex): Complex => {
+  const r = Math.hypot(z.re, z.im);
+  if (r < 1e-10) return { re: 0, im: 0 };
+  const theta = Math.atan2(z.im, z.re);
+  const lnR = Math.log(r);
+  const realExp = w.re * lnR - w.im * theta;
+  const imagExp = w.im * lnR + w.re * theta;
+  const e = Math.exp(realExp);
+  return { re: e * Math.cos(imagExp), im: e * Math.sin(imagExp) };
+};
+
+export const cexp = (z: Complex): Complex => {
+  const e = Math.exp(z.re);
+  return { re: e * Math.cos(z.im), im: e * Math.sin(z.im) };
+};
+
+export const clog = (z: Complex): Complex => ({ re: Math.log(Math.hypot(z.re, z.im)), im: Math.atan2(z.im, z.re) });
+
+export const csin = (z: Complex): Complex => ({ re: Math.sin(z.re) * Math.cosh(z.im), im: Math.cos(z.re) * Math.sinh(z.im) });
+
+export const ccos = (z: Complex): Complex => ({ re: Math.cos(z.re) * Math.cosh(z.im), im: -Math.sin(z.re) * Math.sinh(z.im) });
+
+export const csinh = (z: Complex): Complex => ({ re: Math.sinh(z.re) * Math.cos(z.im), im: Math.cosh(z.re) * Math.sin(z.im) });
+
+export const ccosh = (z: Complex): Complex => ({ re: Math.cosh(z.re) * Math.cos(z.im), im: Math.sinh(z.re) * Math.sin(z.im) });
+
+/** Principal square root, matching csqrt's sign convention on the negative real axis */
+export const csqrt = (z: Complex): Complex => {
+  const r = Math.hypot(z.re, z.im);
+  const sign = z.im + 1e-30 >= 0 ? 1 : -1;
+  return { re: Math.sqrt(0.5 * (r + z.re)), im: sign * Math.sqrt(Math.max(0.5 * (r - z.re), 0)) };
+};
@@ -0,0 +1,199 @@
+/**
+ * Symbolic differentiation of equation ASTs
+ * Used to build Newton iterations z - f(z)/f'(z) for any analytic f typed by the user
+ */
+
+import {
+  BinaryOperator,
+  EQUATION_FUNCTIONS,
+  EquationError,
+  EquationNode,
+  SourceSpan,
+  collectSymbols,
+} from './equation-parser';
+
+// Derived nodes point back at the source node they came from
+const num = (value: number, span: SourceSpan): EquationNode => ({ type: 'number', value, span });
+const call = (name: string, arg: EquationNode, span: SourceSpan): EquationNode => ({ type: 'call', name, args: [arg], span });
+
+const numberValue = (node: EquationNode): number | null => {
+  if (node.type === 'number') return node.value;
+  if (node.type === 'unary' && node.operand.type === 'number') return -node.operand.value;
+  return null;
+};
+
+/**
+ * Build a binary node, folding constants and identities (x + 0, 1*x, x^1, ...)
+ */
+export function simplifyBinary(op: BinaryOperator, left: EquationNode, right: EquationNode, span: SourceSpan): EquationNode {
+  const a = numberValue(left);
+  const b = numberValue(right);
+
+  if (a !== null && b !== null) {
+    const folded = op === '+' ? a + b : op === '-' ? a - b : op === '*' ? a * b : op === '/' ? (b !== 0 ? a / b : null) : Math.pow(a, b);
+    if (folded !== null && isFinite(folded)) return num(folded, span);
+  }
+
+  switch (op) {
+    case '+':
+      if (a === 0) return right;
+      if (b === 0) return left;
+      break;
+    case '-':
+      if (b === 0) return left;
+      if (a === 0) return negate(right, span);
+      break;
+    case '*':
+      if (a === 0 || b === 0) return num(0, span);
+      if (a === 1) return right;
+      if (b === 1) return left;
+      if (a === -1) return negate(right, span);
+      if (b === -1) return negate(left, span);
+      break;
+    case '/':
+      if (a === 0) return num(0, span);
+      if (b === 1) return left;
+      break;
+    case '^':
+      if (b === 0) return num(1, span);
+      if (b === 1) return left;
+      break;
+  }
+  return { type: 'binary', op, left, right, span };
+}
+
+function negate(node: EquationNode, span: SourceSpan): EquationNode {
+  const value = numberValue(node);
+  if (value !== null) return num(-value, span);
+  if (node.type === 'unary') return node.operand;
+  return { type: 'unary', op: '-', operand: node, span };
+}
+
+const dependsOn = (node: EquationNode, variable: string): boolean => collectSymbols(node).has(variable);
+
+/**
+ * Differentiate an AST with respect to a variable (z by default)
+ * Non-analytic functions of the variable (abs, conj, Re, Im, arg) have no complex
+ * derivative and are reported as errors at their source span
+ */
+export function differentiate(
+  ast: EquationNode,
+  variable = 'z'
+): { derivative: EquationNode | null; errors: EquationError[] } {
+  const errors: EquationError[] = [];
+
+  const d = (node: EquationNode): EquationNode => {
+    const span = node.span;
+    switch (node.type) {
+      case 'number':
+        return num(0, span);
+      case 'symbol':
+        return num(node.name === variable ? 1 : 0, span);
+      case 'unary':
+        return negate(d(node.operand), span);
+      case 'binary': {
+        const { left, right } = node;
+        switch (node.op) {
+          case '+':
+          case '-':
+            return simplifyBinary(node.op, d(left), d(right), span);
+          case '*':
+            // (uv)' = u'v + uv'
+            return simplifyBinary(
+              '+',
+              simplifyBinary('*', d(left), right, span),
+              simplifyBinary('*', left, d(right), span),
+              span
+            );
+          case '/':
+            // (u/v)' = (u'v - uv') / v^2
+            return simplifyBinary(
+              '/',
+              simplifyBinary('-', simplifyBinary('*', d(left), right, span), simplifyBinary('*', left, d(right), span), span),
+              simplifyBinary('^', right, num(2, span), span),
+              span
+            );
+          case '^': {
+            const baseVaries = dependsOn(left, variable);
+            const exponentVaries = dependsOn(right, variable);
+            if (!exponentVaries) {
+              if (!baseVaries) return num(0, span);
+              // (u^k)' = k u^(k-1) u'
+              const k = numberValue(right);
+              const lowered = k !== null ? num(k - 1, span) : simplifyBinary('-', right, num(1, span), span);
+              return simplifyBinary(
+                '*',
+                simplifyBinary('*', right, simplifyBinary('^', left, lowered, span), span),
+                d(left),
+                span
+              );
+            }
+            // (u^v)' = u^v (v' log u + v u'/u)
+            const logBase = call('log', left, span);
+            const growth = baseVaries
+              ? simplifyBinary('+', simplifyBinary('*', d(right), logBase, span), simplifyBinary('/', simplifyBinary('*', right, d(left), span), left, span), span)
+              : simplifyBinary('*', d(right), logBase, span);
+            return simplifyBinary('*', node, growth, span);
+          }
+        }
+        break;
+      }
+      case 'call': {
+        const arg = node.args[0];
+        if (!dependsOn(arg, variable)) return num(0, span);
+        if (!EQUATION_FUNCTIONS[node.name]?.analytic) {
+          errors.push({
+            kind: 'non-analytic',
+            message: `${node.name}() is not analytic, so it has no derivative in ${variable}`,
+            span,
+          });
+          return num(0, span);
+        }
+        const inner = d(arg);
+        let outer: EquationNode;
+        switch (node.name) {
+          case 'sin':
+            outer = call('cos', arg, span);
+            break;
+          case 'cos':
+            outer = negate(call('sin', arg, span), span);
+            break;
+          case 'tan':
+            outer = simplifyBinary('/', num(1, span), simplifyBinary('^', call('cos', arg, span), num(2, span), span), span);
+            break;
+          case 'sinh':
+            outer = call('cosh', arg, span);
+            break;
+          case 'cosh':
+            outer = call('sinh', arg, span);
+            break;
+          case 'tanh':
+            outer = simplifyBinary('/', num(1, span), simplifyBinary('^', call('cosh', arg, span), num(2, span), span), span);
+            break;
+          case 'exp':
+            outer = node;
+            break;
+          case 'log':
+            outer = simplifyBinary('/', num(1, span), arg, span);
+            break;
+          case 'sqrt':
+            outer = simplifyBinary('/', num(1, span), simplifyBinary('*', num(2, span), node, span), span);
+            break;
+          default:
+            errors.push({ kind: 'unsupported-function', message: `No derivative rule for ${node.name}()`, span });
+            return num(0, span);
+        }
+        return simplifyBinary('*', outer, inner, span);
+      }
+      case 'if': {
+        // Piecewise: differentiate each branch, keeping the condition
+        if (!dependsOn(node, variable)) return num(0, span);
+        return { ...node, then: d(node.then), otherwise: d(node.otherwise) };
+      }
+    }
+    return num(0, span);
+  };
+
+  const derivative = d(ast);
+  return errors.length > 0 ? { derivative: null, errors } : { derivative, errors };
+}
@@ -0,0 +1,155 @@
+/**
+ * Equation diagnostics
+ * Syntax errors from the parser plus semantic checks on the AST, each with the
+ * character range to underline and, where possible, a "did you mean" replacement
+ */
+
+import { differentiate } from './equation-derivative';
+import { newtonUnsupported } from './newton';
+import {
+  EQUATION_CONSTANTS,
+  EQUATION_FUNCTIONS,
+  EQUATION_VARIABLES,
+  CallNode,
+  EquationError,
+  EquationNode,
+  SourceSpan,
+  expandDefinitions,
+  parseEquationAst,
+  suggestName,
+  walkCondition,
+  walkEquation,
+} from './equation-parser';
+
+export interface DiagnoseOptions {
+  /** The equation is differentiated (Newton), so non-analytic functions of z, zPrev and stop clauses are errors */
+  requireAnalytic?: boolean;
+}
+
+const SYMBOL_NAMES: string[] = [...EQUATION_VARIABLES, ...EQUATION_CONSTANTS];
+const BUILT_IN_ARITY: Record<string, number> = Object.fromEntries(
+  Object.entries(EQUATION_FUNCTIONS).map(([name, info]) => [name, info.arity])
+);
+
+// Names visible at a point in the equation: definitions are only usable after they appear
+interface NameScope {
+  symbols: string[];
+  /** Built-in and helper functions with their arity */
+  functions: Record<string, number>;
+}
+
+// Span of the identifier at the start of a call node
+function nameSpan(node: EquationNode, source: string): SourceSpan {
+  const match = source.slice(node.span.start).match(/^[A-Za-z_π][A-Za-z0-9_]*/);
+  return { start: node.span.start, end: node.span.start + (match ? match[0].length : 0) };
+}
+
+const sourceText = (source: string, span: SourceSpan) => source.slice(span.start, span.end);
+
+function checkNode(node: EquationNode, source: string, { symbols, functions }: NameScope, errors: EquationError[]): void {
+  const functionNames = Object.keys(functions);
+  if (node.type === 'symbol' && !symbols.includes(node.name)) {
+    // `zc` is usually a missing multiplication between known symbols
+    const letters = node.name.split('');
+    const product = letters.length > 1 && letters.every((ch) => symbols.includes(ch)) ? letters.join('*') : null;
+    const suggestion = product ?? suggestName(node.name, [...symbols, ...functionNames]);
+    errors.push({
+      kind: 'unknown-identifier',
+      message: `Unknown identifier '${node.name}'`,
+      span: node.span,
+      ...(suggestion ? { suggestion } : {}),
+    });
+  }
+
+  if (node.type === 'call') {
+    const arity = functions[node.name];
+    if (arity === undefined) {
+      const suggestion = suggestName(node.name, functionNames);
+      errors.push({
+        kind: 'unsupported-function',
+        message: `Unsupported function '${node.name}'`,
+        span: nameSpan(node, source),
+        ...(suggestion ? { suggestion } : {}),
+      });
+    } else if (node.args.length !== arity) {
+      // Keep the first argument, or fall back to z when there is none
+      const first = node.args[0] ? sourceText(source, node.args[0].span) : 'z';
+      errors.push({
+        kind: 'arity',
+        message: `${node.name}() takes ${arity} argument${arity === 1 ? '' : 's'}, got ${node.args.length}`,
+        span: node.span,
+        ...(arity === 1 ? { suggestion: `${sourceText(source, nameSpan(node, source))}(${first})` } : {}),
+      });
+    }
+  }
+}
+
+/**
+ * Collect every problem with an equation, ordered by position
+ * Spans index into the string as given, so callers can underline it directly
+ */
+export function diagnoseEquation(equation: string, options: DiagnoseOptions = {}): EquationError[] {
+  const { ast: body, declarations, definitions, conditions, errors } = parseEquationAst(equation);
+  if (!body) return errors;
+
+  const diagnostics: EquationError[] = [];
+  const check = (scope: NameScope) => (node: EquationNode) => checkNode(node, equation, scope, diagnostics);
+
+  // Helpers see their parameters and the globals; lets also see earlier lets
+  const globals = [...SYMBOL_NAMES, ...declarations.map((decl) => decl.name)];
+  const functions = { ...BUILT_IN_ARITY };
+  const lets: string[] = [];
+  definitions.forEach((definition) => {
+    if (definition.kind === 'def') {
+      walkEquation(definition.body, check({ symbols: [...globals, ...definition.params], functions: { ...functions } }));
+      functions[definition.name] = definition.params.length;
+    } else {
+      walkEquation(definition.value, check({ symbols: [...globals, ...lets], functions: { ...functions } }));
+      lets.push(definition.name);
+    }
+  });
+  walkEquation(body, check({ symbols: [...globals, ...lets], functions }));
+  if (conditions.escape) walkCondition(conditions.escape, check({ symbols: globals, functions }));
+  if (conditions.until) walkCondition(conditions.until, check({ symbols: globals, functions }));
+
+  // Newton works on f with every definition substituted in
+  const ast = expandDefinitions(body, definitions);
+  if (options.requireAnalytic) diagnostics.push(...newtonUnsupported(ast, conditions));
+
+  // Derivatives only make sense once every name resolves
+  if (options.requireAnalytic && diagnostics.length === 0) {
+    const { errors: derivativeErrors } = differentiate(ast);
+    derivativeErrors.forEach((error) => {
+      // A helper used twice reports the same span twice
+      if (diagnostics.some((d) => d.span.start === error.span.start && d.span.end === error.span.end)) return;
+      // Suggest from the text as written, not the substituted tree
+      const call = [body, ...definitions.map((d) => (d.kind === 'let' ? d.value : d.body))]
+        .map((root) => findCallAt(root, error.span))
+        .find(Boolean);
+      diagnostics.push({
+        ...error,
+        message: `${error.message}; Newton needs an analytic f(z)`,
+        // Dropping the wrapper is the nearest analytic expression
+        ...(call?.args[0] ? { suggestion: sourceText(equation, call.args[0].span) } : {}),
+      });
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.span.start - b.span.start);
+}
+
+function findCallAt(ast: EquationNode, span: SourceSpan): CallNode | null {
+  let found: CallNode | null = null;
+  walkEquation(ast, (node) => {
+    if (!found && node.type === 'call' && node.span.start === span.start && node.span.end === span.end) found = node;
+  });
+  return found;
+}
+
+/**
+ * Apply a diagnostic's suggestion to the equation text
+ */
+export function applySuggestion(equation: string, error: EquationError): string {
+  if (error.suggestion === undefined) return equation;
+  return equation.slice(0, error.span.start) + error.suggestion + equation.slice(error.span.end);
+}
@@ -0,0 +1,44 @@
+import { createEquationEvaluator, iterateEquation, IterateOptions } from './equation-evaluator';
+
+const options = (z0: [number, number], c: [number, number]): IterateOptions => ({
+  z0: { re: z0[0], im: z0[1] },
+  c: { re: c[0], im: c[1] },
+  x: { re: 2, im: 0 },
+  n: 2,
+  maxIterations: 100,
+});
+
+describe('iterateEquation', () => {
+  const mandelbrot = createEquationEvaluator('z^2 + c')!;
+
+  it('escapes outside the Mandelbrot set', () => {
+    const orbit = iterateEquation(mandelbrot, options([0, 0], [0.3, 0]));
+    expect(orbit.escaped).toBe(true);
+    expect(orbit.iterations).toBe(14);
+  });
+
+  it('stays bounded on the period-2 cycle at c = -1', () => {
+    const orbit = iterateEquation(mandelbrot, options([0, 0], [-1, 0]));
+    expect(orbit).toEqual({ iterations: 100, z: { re: 0, im: 0 }, escaped: false, converged: false });
+  });
+
+  it('stops on an until clause once Newton converges', () => {
+    const newton = createEquationEvaluator('z - (z^3 - 1)/(3z^2) until |z - zPrev| < 1e-9')!;
+    const orbit = iterateEquation(newton, options([1.2, 0.1], [0, 0]));
+    expect(orbit.converged).toBe(true);
+    expect(orbit.z.re).toBeCloseTo(1, 12);
+    expect(orbit.z.im).toBeCloseTo(0, 12);
+  });
+
+  it('runs lets and helpers before the step', () => {
+    const program = createEquationEvaluator('def sq(w) = w*w; let k = c; sq(z) + k')!;
+    expect(program.step({ z: { re: 0, im: 1 }, c: { re: 0.5, im: 0 }, x: { re: 2, im: 0 }, n: 2 })).toEqual({ re: -0.5, im: 0 });
+  });
+});
+
+describe('createEquationEvaluator', () => {
+  it('returns null for equations it cannot evaluate', () => {
+    expect(createEquationEvaluator('z^2 +')).toBeNull();
+    expect(createEquationEvaluator('z + q')).toBeNull();
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * CPU evaluation of parsed fractal equations
+ * Compiles an equation AST into closures over the complex helpers, lowering each node
+ * the same way equation-glsl.ts does so orbits match what the shader renders
+ */
+
+import {
+  Complex,
+  ONE,
+  ZERO,
+  cadd,
+  carg,
+  ccos,
+  ccosh,
+  cdiv,
+  cexp,
+  clog,
+  cmod,
+  cmul,
+  cneg,
+  conj,
+  cpow,
+  cscale,
+  csin,
+  csinh,
+  csqrt,
+  csub,
+} from './complex';
+import { ConditionNode, EquationDefinition, EquationNode, parseEquationAst, StopConditions } from './equation-parser';
+
+/** Values bound to the equation symbols for one evaluation */
+export interface EquationScope {
+  z: Complex;
+  c: Complex;
+  /** Exponent slider, bound to uX in the shader */
+  x: Complex;
+  /** Power input, bound to uPower in the shader */
+  n: number;
+  /** Values of parameters declared in the equation, bound to uParam_* in the shader */
+  params?: Record<string, Complex>;
+  /** The iterate before z; equal to z on the first step */
+  zPrev?: Complex;
+  /** Values of let bindings, or of a helper's arguments inside its body, by position */
+  locals?: Complex[];
+}
+
+export type EquationFunction = (scope: EquationScope) => Complex;
+
+export type ConditionFunction = (scope: EquationScope) => boolean;
+
+/** A compiled equation with its stop tests */
+export interface EquationProgram {
+  step: EquationFunction;
+  /** True once the orbit has diverged; |z|^2 >= bailout unless the equation has an escape clause */
+  escape: ConditionFunction | null;
+  /** True once the orbit has converged, from an until clause */
+  until: ConditionFunction | null;
+}
+
+export interface EquationOrbit {
+  /** Number of steps applied before escaping or hitting the limit */
+  iterations: number;
+  /** Final z value */
+  z: Complex;
+  escaped: boolean;
+  /** Stopped by the until clause */
+  converged: boolean;
+}
+
+export interface IterateOptions {
+  z0: Complex;
+  c: Complex;
+  x: Complex;
+  n: number;
+  params?: Record<string, Complex>;
+  maxIterations: number;
+  /** Squared escape radius (the shaders use 256) */
+  bailout?: number;
+  /** Called with each new z */
+  onStep?: (z: Complex, iteration: number) => void;
+}
+
+// Keep in sync with MAX_UNROLLED_POWER in equation-glsl.ts
+const MAX_UNROLLED_POWER = 8;
+
+const UNARY_FUNCTIONS: Record<string, (a: Complex) => Complex> = {
+  sin: csin,
+  cos: ccos,
+  tan: (a) => cdiv(csin(a), ccos(a)),
+  sinh: csinh,
+  cosh: ccosh,
+  tanh: (a) => cdiv(csinh(a), ccosh(a)),
+  exp: cexp,
+  log: clog,
+  sqrt: csqrt,
+  abs: cmod,
+  conj,
+  Re: (a) => ({ re: a.re, im: 0 }),
+  Im: (a) => ({ re: a.im, im: 0 }),
+  arg: carg,
+};
+
+const CONSTANTS: Record<string, Complex> = {
+  i: { re: 0, im: 1 },
+  pi: { re: Math.PI, im: 0 },
+  e: { re: Math.E, im: 0 },
+};
+
+// Real constant value of a node, if it is a plain (possibly negated) number
+function realConstant(node: EquationNode): number | null {
+  if (node.type === 'number') return node.value;
+  if (node.type === 'unary' && node.operand.type === 'number') return -node.operand.value;
+  return null;
+}
+
+// Square-and-multiply, the same multiplication order as the generated GLSL
+function integerPower(base: Complex, exponent: number): Complex {
+  if (exponent === 0) return ONE;
+  if (exponent < 0) return cdiv(ONE, integerPower(base, -exponent));
+  let result: Complex | null = null;
+  let square = base;
+  let remaining = exponent;
+  while (remaining > 0) {
+    if (remaining & 1) result = result ? cmul(result, square) : square;
+    remaining >>= 1;
+    if (remaining > 0) square = cmul(square, square);
+  }
+  return result as Complex;
+}
+
+// Names visible while compiling a node
+interface CompileContext {
+  /** Declared parameters, read from scope.params */
+  parameters: string[];
+  /** Lets or helper arguments, read from scope.locals */
+  locals: string[];
+  helpers: Record<string, { arity: number; body: EquationFunction }>;
+}
+
+// Compile with lets and helpers in scope, lowering each node like the GLSL emitter
+function compileNode(ast: EquationNode, context: CompileContext): EquationFunction {
+  const { parameters, locals, helpers } = context;
+  const compile = (node: EquationNode): EquationFunction => {
+    switch (node.type) {
+      case 'number': {
+        const value: Complex = { re: node.value, im: 0 };
+        return () => value;
+      }
+      case 'symbol': {
+        switch (node.name) {
+          case 'z':
+            return (scope) => scope.z;
+          case 'c':
+            return (scope) => scope.c;
+          case 'x':
+            return (scope) => scope.x;
+          case 'n':
+            return (scope) => ({ re: scope.n, im: 0 });
+          case 'zPrev':
+            return (scope) => scope.zPrev ?? scope.z;
+        }
+        const name = node.name;
+        const local = locals.indexOf(name);
+        if (local >= 0) return (scope) => scope.locals![local];
+        if (parameters.includes(name)) return (scope) => scope.params?.[name] ?? ZERO;
+        const constant = CONSTANTS[name];
+        if (!constant) throw new Error(`Unknown symbol '${node.name}'`);
+        return () => constant;
+      }
+      case 'unary': {
+        const operand = compile(node.operand);
+        return (scope) => cneg(operand(scope));
+      }
+      case 'binary': {
+        const leftConstant = realConstant(node.left);
+        const rightConstant = realConstant(node.right);
+        const left = compile(node.left);
+        if (node.op === '^') {
+          if (rightConstant !== null && Number.isInteger(rightConstant) && Math.abs(rightConstant) <= MAX_UNROLLED_POWER) {
+            return (scope) => integerPower(left(scope), rightConstant);
+          }
+          const exponent = compile(node.right);
+          return (scope) => cpow(left(scope), exponent(scope));
+        }
+        const right = compile(node.right);
+        switch (node.op) {
+          case '+':
+            return (scope) => cadd(left(scope), right(scope));
+          case '-':
+            return (scope) => csub(left(scope), right(scope));
+          case '*':
+            // Real factors scale componentwise
+            if (leftConstant !== null) return (scope) => cscale(right(scope), leftConstant);
+            if (rightConstant !== null) return (scope) => cscale(left(scope), rightConstant);
+            return (scope) => cmul(left(scope), right(scope));
+          case '/':
+            if (rightConstant !== null && rightConstant !== 0) {
+              return (scope) => {
+                const value = left(scope);
+                return { re: value.re / rightConstant, im: value.im / rightConstant };
+              };
+            }
+            return (scope) => cdiv(left(scope), right(scope));
+        }
+        break;
+      }
+      case 'call': {
+        const helper = helpers[node.name];
+        if (helper) {
+          if (node.args.length !== helper.arity) throw new Error(`${node.name}() takes ${helper.arity} argument${helper.arity === 1 ? '' : 's'}`);
+          const args = node.args.map(compile);
+          return (scope) => helper.body({ ...scope, locals: args.map((arg) => arg(scope)) });
+        }
+        const fn = UNARY_FUNCTIONS[node.name];
+        if (!fn) throw new Error(`Unsupported function '${node.name}'`);
+        if (node.args.length !== 1) throw new Error(`${node.name}() takes 1 argument`);
+        const arg = compile(node.args[0]);
+        return (scope) => fn(arg(scope));
+      }
+      case 'if': {
+        const condition = compileConditionNode(node.condition, context);
+        const then = compile(node.then);
+        const otherwise = compile(node.otherwise);
+        return (scope) => (condition(scope) ? then(scope) : otherwise(scope));
+      }
+    }
+    throw new Error('Unsupported expression');
+  };
+
+  return compile(ast);
+}
+
+function compileConditionNode(condition: ConditionNode, context: CompileContext): ConditionFunction {
+  if (condition.type === 'logical') {
+    const left = compileConditionNode(condition.left, context);
+    const right = compileConditionNode(condition.right, context);
+    return condition.op === 'and' ? (scope) => left(scope) && right(scope) : (scope) => left(scope) || right(scope);
+  }
+  const left = compileNode(condition.left, context);
+  const right = compileNode(condition.right, context);
+  switch (condition.op) {
+    case '<':
+      return (scope) => left(scope).re < right(scope).re;
+    case '<=':
+      return (scope) => left(scope).re <= right(scope).re;
+    case '>':
+      return (scope) => left(scope).re > right(scope).re;
+    case '>=':
+      return (scope) => left(scope).re >= right(scope).re;
+  }
+}
+
+/**
+ * Compile an equation AST into a function of the iteration scope
+ * Throws on symbols or functions the evaluator does not know, like compileEquationToGlsl
+ * Declared parameter names are read from scope.params, defaulting to 0 when unset
+ */
+export function compileEquation(ast: EquationNode, parameters: string[] = []): EquationFunction {
+  return compileNode(ast, { parameters, locals: [], helpers: {} });
+}
+
+/**
+ * Compile a condition; comparisons use the real parts of both sides, as in the shader
+ */
+export function compileCondition(condition: ConditionNode, parameters: string[] = []): ConditionFunction {
+  return compileConditionNode(condition, { parameters, locals: [], helpers: {} });
+}
+
+/**
+ * Compile an iteration expression with its definitions and stop clauses
+ * Scoping matches compileProgramToGlsl: helpers see their arguments and the globals, lets are
+ * visible to later lets and the step, and stop clauses may call helpers but not read lets
+ */
+export function compileEquationProgram(
+  ast: EquationNode,
+  definitions: EquationDefinition[],
+  conditions: StopConditions,
+  parameters: string[] = []
+): EquationProgram {
+  const helpers: CompileContext['helpers'] = {};
+  const lets: EquationFunction[] = [];
+  const letNames: string[] = [];
+
+  definitions.forEach((definition) => {
+    if (definition.kind === 'def') {
+      const body = compileNode(definition.body, { parameters, locals: definition.params, helpers: { ...helpers } });
+      helpers[definition.name] = { arity: definition.params.length, body };
+    } else {
+      lets.push(compileNode(definition.value, { parameters, locals: [...letNames], helpers: { ...helpers } }));
+      letNames.push(definition.name);
+    }
+  });
+
+  const body = compileNode(ast, { parameters, locals: letNames, helpers });
+  const step: EquationFunction = lets.length === 0 ? body : (scope) => {
+    const locals: Complex[] = [];
+    const inner = { ...scope, locals };
+    lets.forEach((value) => locals.push(value(inner)));
+    return body(inner);
+  };
+
+  const global = { parameters, locals: [], helpers };
+  return {
+    step,
+    escape: conditions.escape && compileConditionNode(conditions.escape, global),
+    until: conditions.until && compileConditionNode(conditions.until, global),
+  };
+}
+
+/**
+ * Parse and compile an equation string
+ * Returns null when the equation cannot be parsed or evaluated
+ */
+export function createEquationEvaluator(equation: string): EquationProgram | null {
+  const { ast, declarations, definitions, conditions } = parseEquationAst(equation.trim());
+  if (!ast) return null;
+  try {
+    return compileEquationProgram(ast, definitions, conditions, declarations.map((decl) => decl.name));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Iterate z = f(z, c) from z0 until it escapes, converges or hits the iteration limit
+ * Follows the shader loop: the escape test runs before each step and the until test after it
+ */
+export function iterateEquation(program: EquationProgram, options: IterateOptions): EquationOrbit {
+  const bailout = options.bailout ?? 256;
+  const escapeTest = program.escape ?? ((scope: EquationScope) => scope.z.re * scope.z.re + scope.z.im * scope.z.im >= bailout);
+  const scope: EquationScope = { z: options.z0, zPrev: options.z0, c: options.c, x: options.x, n: options.n, params: options.params };
+  let iterations = 0;
+  while (iterations < options.maxIterations) {
+    if (escapeTest(scope)) return { iterations, z: scope.z, escaped: true, converged: false };
+    const next = program.step(scope);
+    scope.zPrev = scope.z;
+    scope.z = next;
+    iterations++;
+    options.onStep?.(scope.z, iterations);
+    if (program.until?.(scope)) return { iterations, z: scope.z, escaped: false, converged: true };
+  }
+  return { iterations, z: scope.z, escaped: escapeTest(scope), converged: false };
+}
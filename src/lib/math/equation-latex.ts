@@ -0,0 +1,195 @@
+/**
+ * LaTeX printing for equation ASTs
+ * Walks the tree with the grammar's precedence so the KaTeX display always matches
+ * the equation the shaders compile
+ */
+
+import { Complex } from './complex';
+import { ConditionNode, EquationDefinition, EquationNode, StopConditions } from './equation-parser';
+
+export interface LatexOptions {
+  /** How the iterated variable z is printed (z_n in iteration formulas, z in f(z)) */
+  iterate?: string;
+  /** Current slider values to print in place of symbols */
+  substitutions?: Record<string, Complex>;
+  /** Significant digits for substituted values */
+  precision?: number;
+}
+
+// Binding strength, mirroring the grammar rules
+const ADDITIVE = 1;
+const MULTIPLICATIVE = 2;
+const UNARY = 3;
+const POWER = 4;
+const PRIMARY = 5;
+
+const SYMBOL_LATEX: Record<string, string> = {
+  pi: '\\pi',
+  zPrev: 'z_{n-1}',
+};
+
+const COMPARISON_LATEX: Record<string, string> = {
+  '<': '<',
+  '<=': '\\le',
+  '>': '>',
+  '>=': '\\ge',
+};
+
+const FUNCTION_LATEX: Record<string, (arg: string) => string> = {
+  sin: (a) => `\\sin\\left(${a}\\right)`,
+  cos: (a) => `\\cos\\left(${a}\\right)`,
+  tan: (a) => `\\tan\\left(${a}\\right)`,
+  sinh: (a) => `\\sinh\\left(${a}\\right)`,
+  cosh: (a) => `\\cosh\\left(${a}\\right)`,
+  tanh: (a) => `\\tanh\\left(${a}\\right)`,
+  exp: (a) => `e^{${a}}`,
+  log: (a) => `\\log\\left(${a}\\right)`,
+  sqrt: (a) => `\\sqrt{${a}}`,
+  abs: (a) => `\\left|${a}\\right|`,
+  conj: (a) => `\\overline{${a}}`,
+  Re: (a) => `\\operatorname{Re}\\left(${a}\\right)`,
+  Im: (a) => `\\operatorname{Im}\\left(${a}\\right)`,
+  arg: (a) => `\\arg\\left(${a}\\right)`,
+};
+
+const formatNumber = (value: number, precision: number): string => {
+  const rounded = Number(value.toPrecision(precision));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+// A substituted value with the precedence it prints at
+function complexLatex(value: Complex, precision: number): { text: string; precedence: number } {
+  const re = formatNumber(value.re, precision);
+  const im = formatNumber(Math.abs(value.im), precision);
+  if (value.im === 0 || im === '0') return { text: re, precedence: value.re < 0 ? UNARY : PRIMARY };
+  const imaginary = im === '1' ? 'i' : `${im}i`;
+  if (re === '0') return { text: value.im < 0 ? `-${imaginary}` : imaginary, precedence: value.im < 0 ? UNARY : PRIMARY };
+  return { text: `${re} ${value.im < 0 ? '-' : '+'} ${imaginary}`, precedence: ADDITIVE };
+}
+
+const paren = (text: string) => `\\left(${text}\\right)`;
+
+/**
+ * Print an equation AST as LaTeX
+ */
+export function equationToLatex(ast: EquationNode, options: LatexOptions = {}): string {
+  const iterate = options.iterate ?? 'z_n';
+  const precision = options.precision ?? 3;
+
+  const print = (node: EquationNode): { text: string; precedence: number } => {
+    switch (node.type) {
+      case 'number':
+        return { text: formatNumber(node.value, 12), precedence: node.value < 0 ? UNARY : PRIMARY };
+      case 'symbol': {
+        const value = options.substitutions?.[node.name];
+        if (value) return complexLatex(value, precision);
+        if (node.name === 'z') return { text: iterate, precedence: PRIMARY };
+        return { text: SYMBOL_LATEX[node.name] ?? node.name, precedence: PRIMARY };
+      }
+      case 'unary':
+        return { text: `-${wrap(node.operand, UNARY)}`, precedence: UNARY };
+      case 'binary':
+        switch (node.op) {
+          case '+':
+          case '-': {
+            const left = wrap(node.left, ADDITIVE);
+            const right = wrap(node.right, ADDITIVE + 1);
+            // A leading minus on the right term folds into the operator: a + -2z reads as a - 2z
+            if (right.startsWith('-')) {
+              return { text: `${left} ${node.op === '+' ? '-' : '+'} ${right.slice(1)}`, precedence: ADDITIVE };
+            }
+            return { text: `${left} ${node.op} ${right}`, precedence: ADDITIVE };
+          }
+          case '*': {
+            const left = wrap(node.left, MULTIPLICATIVE);
+            const right = print(node.right);
+            const rightText = right.precedence <= MULTIPLICATIVE ? paren(right.text) : right.text;
+            // Keep juxtaposition (2z, (z+1)(z-1)) unless the next factor starts with a digit
+            const juxtapose = (node.implicit || node.left.type === 'number') && !/^[\d.-]/.test(rightText);
+            return { text: juxtapose ? `${left}${rightText}` : `${left} \\cdot ${rightText}`, precedence: MULTIPLICATIVE };
+          }
+          case '/':
+            return { text: `\\frac{${print(node.left).text}}{${print(node.right).text}}`, precedence: PRIMARY };
+          case '^': {
+            const base = print(node.left);
+            // Fractions and powers as bases need explicit grouping
+            const groupBase = base.precedence < PRIMARY || (node.left.type === 'binary' && node.left.op === '/');
+            return { text: `${groupBase ? paren(base.text) : base.text}^{${print(node.right).text}}`, precedence: POWER };
+          }
+        }
+        break;
+      case 'call': {
+        const args = node.args.map((arg) => print(arg).text).join(', ');
+        const fn = FUNCTION_LATEX[node.name];
+        // exp prints as e^{...}, so it binds like a power
+        const precedence = node.name === 'exp' ? POWER : PRIMARY;
+        return { text: fn ? fn(args) : `\\operatorname{${node.name}}${paren(args)}`, precedence };
+      }
+      case 'if': {
+        const then = print(node.then).text;
+        const otherwise = print(node.otherwise).text;
+        const condition = conditionToLatex(node.condition, options);
+        return {
+          text: `\\begin{cases} ${then} & \\text{if } ${condition} \\\\ ${otherwise} & \\text{otherwise} \\end{cases}`,
+          precedence: PRIMARY,
+        };
+      }
+    }
+    return { text: '', precedence: PRIMARY };
+  };
+
+  const wrap = (node: EquationNode, minPrecedence: number): string => {
+    const printed = print(node);
+    return printed.precedence < minPrecedence ? paren(printed.text) : printed.text;
+  };
+
+  return print(ast).text;
+}
+
+/**
+ * Print a stop condition as LaTeX, e.g. \left|z_n - z_{n-1}\right| < 10^{-6}
+ */
+export function conditionToLatex(condition: ConditionNode, options: LatexOptions = {}): string {
+  if (condition.type === 'logical') {
+    const op = condition.op === 'and' ? '\\;\\land\\;' : '\\;\\lor\\;';
+    return `${conditionToLatex(condition.left, options)} ${op} ${conditionToLatex(condition.right, options)}`;
+  }
+  const left = equationToLatex(condition.left, options);
+  const right = equationToLatex(condition.right, options);
+  return `${left} ${COMPARISON_LATEX[condition.op]} ${right}`;
+}
+
+/**
+ * Append `escape`/`until` clauses to a printed iteration
+ */
+export function withConditionsLatex(latex: string, conditions: StopConditions, options: LatexOptions = {}): string {
+  const clauses = [
+    conditions.escape && `\\text{escape if } ${conditionToLatex(conditions.escape, options)}`,
+    conditions.until && `\\text{until } ${conditionToLatex(conditions.until, options)}`,
+  ].filter(Boolean);
+  return clauses.length > 0 ? `${latex}, \\quad ${clauses.join(', \\quad ')}` : latex;
+}
+
+/**
+ * Prefix a printed iteration with its let and def definitions
+ */
+export function withDefinitionsLatex(latex: string, definitions: EquationDefinition[], options: LatexOptions = {}): string {
+  const printed = definitions.map((definition) => {
+    if (definition.kind === 'let') return `${definition.name} = ${equationToLatex(definition.value, options)}`;
+    return `\\operatorname{${definition.name}}${paren(definition.params.join(', '))} = ${equationToLatex(definition.body, options)}`;
+  });
+  return [...printed, latex].join(', \\quad ');
+}
+
+const TEXT_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+};
+
+/**
+ * Show raw equation text in KaTeX, for input that does not parse
+ */
+export function textToLatex(text: string): string {
+  return `\\texttt{${text.replace(/[\\^~{}$&#%_]/g, (ch) => TEXT_ESCAPES[ch] ?? `\\${ch}`)}}`;
+}
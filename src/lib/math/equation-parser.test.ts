@@ -0,0 +1,38 @@
+import { formatEquation, parseEquation, parseEquationAst } from './equation-parser';
+
+const variableNames = (equation: string) => parseEquation(equation).variables.map((variable) => variable.name);
+
+describe('parseEquation', () => {
+  it('reports the sliders the iteration body uses', () => {
+    expect(variableNames('z^2 + c')).toEqual(['c']);
+    expect(variableNames('z^x + c')).toEqual(['c', 'x']);
+    expect(variableNames('z^2 + 1')).toEqual([]);
+  });
+
+  it('reports sliders used only in definitions or stop conditions', () => {
+    expect(variableNames('let w = c; z^2 + w')).toEqual(['c']);
+    expect(variableNames('def f(w) = w^x; f(z) + 1')).toEqual(['x']);
+    expect(variableNames('z^2 + 1 escape |z| > x')).toEqual(['x']);
+  });
+
+  it('adds declared parameters after the sliders', () => {
+    const parsed = parseEquation('a: real [0, 1] = 0.25; z^2 + a*c');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.variables.map((variable) => [variable.name, variable.declared ?? false])).toEqual([['c', false], ['a', true]]);
+  });
+
+  it('returns no AST for a dangling operator', () => {
+    const parsed = parseEquation('z^2 +');
+    expect(parsed.ast).toBeNull();
+    expect(parsed.errors.map((error) => error.kind)).toEqual(['dangling-operator']);
+  });
+});
+
+describe('formatEquation', () => {
+  it('prints equivalent inputs identically', () => {
+    const print = (equation: string) => formatEquation(parseEquationAst(equation).ast!);
+    expect(print('z**2+c')).toBe('z^2 + c');
+    expect(print('z ^ 2 + c')).toBe('z^2 + c');
+    expect(print('2z')).toBe('2*z');
+  });
+});
@@ -1,58 +1,1179 @@
 /**
- * Minimal equation parser for fractal equations
+ * Grammar-based equation parser for fractal equations
+ * Tokenizes with Chevrotain and builds a typed AST of complex expressions
  */
 
+import { createToken, EmbeddedActionsParser, IRecognitionException, IToken, Lexer, TokenType } from 'chevrotain';
+import { Complex, cadd, cdiv, cmul, cneg, cpow, csub } from './complex';
+import { equationToLatex, textToLatex, withConditionsLatex, withDefinitionsLatex } from './equation-latex';
+
 export interface EquationVariable {
   name: string;
   symbol: string;
   min: number;
   max: number;
   default: number;
+  /** Imaginary part of the default, for complex parameters */
+  defaultImag?: number;
   type: 'complex' | 'real' | 'integer';
+  /** Declared in the equation text rather than built in */
+  declared?: boolean;
+}
+
+/** Character range in the source string (end is exclusive) */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface NumberNode {
+  type: 'number';
+  value: number;
+  span: SourceSpan;
+}
+
+/** Variables (z, c, x, n) and constants (i, pi, e) */
+export interface SymbolNode {
+  type: 'symbol';
+  name: string;
+  span: SourceSpan;
+}
+
+export interface UnaryNode {
+  type: 'unary';
+  op: '-';
+  operand: EquationNode;
+  span: SourceSpan;
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+export interface BinaryNode {
+  type: 'binary';
+  op: BinaryOperator;
+  left: EquationNode;
+  right: EquationNode;
+  /** True for juxtaposition such as `2z` or `(z+1)(z-1)` */
+  implicit?: boolean;
+  span: SourceSpan;
+}
+
+export interface CallNode {
+  type: 'call';
+  name: string;
+  args: EquationNode[];
+  span: SourceSpan;
+}
+
+/** `if <condition> then <expression> else <expression>` */
+export interface ConditionalNode {
+  type: 'if';
+  condition: ConditionNode;
+  then: EquationNode;
+  otherwise: EquationNode;
+  span: SourceSpan;
+}
+
+export type EquationNode = NumberNode | SymbolNode | UnaryNode | BinaryNode | CallNode | ConditionalNode;
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=';
+
+/** Comparison of the real parts of two expressions, e.g. `|Re(z)| > 50` */
+export interface ComparisonNode {
+  type: 'compare';
+  op: ComparisonOperator;
+  left: EquationNode;
+  right: EquationNode;
+  span: SourceSpan;
+}
+
+export interface LogicalNode {
+  type: 'logical';
+  op: 'and' | 'or';
+  left: ConditionNode;
+  right: ConditionNode;
+  span: SourceSpan;
+}
+
+export type ConditionNode = ComparisonNode | LogicalNode;
+
+/** `let name = value;`, evaluated once per step before the iteration expression */
+export interface LetDefinition {
+  kind: 'let';
+  name: string;
+  value: EquationNode;
+  span: SourceSpan;
+}
+
+/** `def name(a, b) = body;`, a helper callable from later definitions and the equation */
+export interface FunctionDefinition {
+  kind: 'def';
+  name: string;
+  params: string[];
+  body: EquationNode;
+  span: SourceSpan;
+}
+
+export type EquationDefinition = LetDefinition | FunctionDefinition;
+
+/** Stop tests written after the iteration expression */
+export interface StopConditions {
+  /** `escape <condition>`: the orbit diverged; replaces the default |z|^2 >= 256 */
+  escape: ConditionNode | null;
+  /** `until <condition>`: the orbit converged */
+  until: ConditionNode | null;
+}
+
+export type EquationErrorKind =
+  | 'syntax'
+  | 'dangling-operator'
+  | 'unknown-identifier'
+  | 'unsupported-function'
+  | 'arity'
+  | 'non-analytic';
+
+export type ParameterType = 'real' | 'complex';
+
+/** A parameter declared in the equation, e.g. `a: real [0, 1] = 0.25` */
+export interface ParameterDeclaration {
+  name: string;
+  type: ParameterType;
+  /** Slider range (applied to both parts of complex parameters) */
+  min: number;
+  max: number;
+  default: Complex;
+  span: SourceSpan;
+}
+
+export interface EquationError {
+  kind: EquationErrorKind;
+  message: string;
+  span: SourceSpan;
+  /** Replacement text for the span that would fix the problem ("did you mean") */
+  suggestion?: string;
 }
 
 export interface ParsedEquation {
   latex: string;
   variables: EquationVariable[];
   raw: string;
+  ast: EquationNode | null;
+  declarations: ParameterDeclaration[];
+  definitions: EquationDefinition[];
+  conditions: StopConditions;
+  errors: EquationError[];
+}
+
+export interface EquationFunctionInfo {
+  arity: number;
+  /** Complex-differentiable, so usable in Newton iterations */
+  analytic: boolean;
+}
+
+/**
+ * Built-in functions, keyed by canonical name
+ */
+export const EQUATION_FUNCTIONS: Record<string, EquationFunctionInfo> = {
+  sin: { arity: 1, analytic: true },
+  cos: { arity: 1, analytic: true },
+  tan: { arity: 1, analytic: true },
+  sinh: { arity: 1, analytic: true },
+  cosh: { arity: 1, analytic: true },
+  tanh: { arity: 1, analytic: true },
+  exp: { arity: 1, analytic: true },
+  log: { arity: 1, analytic: true },
+  sqrt: { arity: 1, analytic: true },
+  abs: { arity: 1, analytic: false },
+  conj: { arity: 1, analytic: false },
+  Re: { arity: 1, analytic: false },
+  Im: { arity: 1, analytic: false },
+  arg: { arity: 1, analytic: false },
+};
+
+const FUNCTION_ALIASES: Record<string, string> = {
+  ln: 'log',
+  re: 'Re',
+  real: 'Re',
+  im: 'Im',
+  imag: 'Im',
+  mod: 'abs',
+};
+
+/** Iteration variables and their meaning in the shaders; zPrev is the iterate before z */
+export const EQUATION_VARIABLES = ['z', 'c', 'x', 'n', 'zPrev'] as const;
+export const EQUATION_CONSTANTS = ['i', 'pi', 'e'] as const;
+
+const SYMBOL_ALIASES: Record<string, string> = {
+  z_n: 'z',
+  z_prev: 'zPrev',
+  PI: 'pi',
+  π: 'pi',
+};
+
+/**
+ * Resolve a function name or alias to its canonical name
+ */
+export function canonicalFunctionName(name: string): string | null {
+  if (name in EQUATION_FUNCTIONS) return name;
+  return FUNCTION_ALIASES[name] ?? null;
+}
+
+function canonicalSymbolName(name: string): string {
+  return SYMBOL_ALIASES[name] ?? name;
+}
+
+function isKnownSymbol(name: string): boolean {
+  return (EQUATION_VARIABLES as readonly string[]).includes(name) ||
+    (EQUATION_CONSTANTS as readonly string[]).includes(name);
+}
+
+// --- Lexer ---
+
+const WhiteSpace = createToken({ name: 'WhiteSpace', pattern: /\s+/, group: Lexer.SKIPPED });
+const NumberLiteral = createToken({ name: 'NumberLiteral', pattern: /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/ });
+const Identifier = createToken({ name: 'Identifier', pattern: /[A-Za-z_π][A-Za-z0-9_]*/ });
+const Plus = createToken({ name: 'Plus', pattern: /\+/ });
+const Minus = createToken({ name: 'Minus', pattern: /-/ });
+const Caret = createToken({ name: 'Caret', pattern: /\^|\*\*/ });
+const Star = createToken({ name: 'Star', pattern: /\*/ });
+const Slash = createToken({ name: 'Slash', pattern: /\// });
+const LParen = createToken({ name: 'LParen', pattern: /\(/ });
+const RParen = createToken({ name: 'RParen', pattern: /\)/ });
+const Comma = createToken({ name: 'Comma', pattern: /,/ });
+const Pipe = createToken({ name: 'Pipe', pattern: /\|/ });
+const Colon = createToken({ name: 'Colon', pattern: /:/ });
+const Semicolon = createToken({ name: 'Semicolon', pattern: /;/ });
+const LBracket = createToken({ name: 'LBracket', pattern: /\[/ });
+const RBracket = createToken({ name: 'RBracket', pattern: /\]/ });
+const Equals = createToken({ name: 'Equals', pattern: /=/ });
+const LessEqual = createToken({ name: 'LessEqual', pattern: /<=/ });
+const Less = createToken({ name: 'Less', pattern: /</ });
+const GreaterEqual = createToken({ name: 'GreaterEqual', pattern: />=/ });
+const Greater = createToken({ name: 'Greater', pattern: />/ });
+// Keywords fall back to identifiers for longer names such as `escaped`
+const Escape = createToken({ name: 'Escape', pattern: /escape/, longer_alt: Identifier });
+const Until = createToken({ name: 'Until', pattern: /until/, longer_alt: Identifier });
+const And = createToken({ name: 'And', pattern: /and/, longer_alt: Identifier });
+const Or = createToken({ name: 'Or', pattern: /or/, longer_alt: Identifier });
+const Let = createToken({ name: 'Let', pattern: /let/, longer_alt: Identifier });
+const Def = createToken({ name: 'Def', pattern: /def/, longer_alt: Identifier });
+const If = createToken({ name: 'If', pattern: /if/, longer_alt: Identifier });
+const Then = createToken({ name: 'Then', pattern: /then/, longer_alt: Identifier });
+const Else = createToken({ name: 'Else', pattern: /else/, longer_alt: Identifier });
+
+// Order matters: keywords before identifiers, `**` before `*`, `<=` before `<`
+const allTokens: TokenType[] = [
+  WhiteSpace, NumberLiteral, Escape, Until, And, Or, Let, Def, If, Then, Else, Identifier, Plus, Minus, Caret, Star, Slash, LParen, RParen,
+  Comma, Pipe, Colon, Semicolon, LBracket, RBracket, LessEqual, Less, GreaterEqual, Greater, Equals,
+];
+
+const equationLexer = new Lexer(allTokens, { positionTracking: 'onlyOffset' });
+
+// --- Parser ---
+
+const tokenSpan = (token: IToken): SourceSpan => ({
+  start: token.startOffset,
+  end: token.startOffset + token.image.length,
+});
+
+const joinSpans = (a: SourceSpan, b: SourceSpan): SourceSpan => ({
+  start: Math.min(a.start, b.start),
+  end: Math.max(a.end, b.end),
+});
+
+// Declaration as written, checked and evaluated after parsing
+interface RawDeclaration {
+  name: IToken;
+  type: IToken;
+  range: [EquationNode, EquationNode] | null;
+  value: EquationNode | null;
+  span: SourceSpan;
+}
+
+interface RawClause {
+  keyword: IToken;
+  condition: ConditionNode;
+}
+
+// Definition as written, with token spans for name checks
+interface RawDefinition {
+  definition: EquationDefinition;
+  name: IToken;
+  params: IToken[];
+}
+
+interface RawProgram {
+  declarations: RawDeclaration[];
+  definitions: RawDefinition[];
+  body: EquationNode;
+  clauses: RawClause[];
+}
+
+class EquationParser extends EmbeddedActionsParser {
+  /** Nesting of `|...|` groups; an implicit factor may only open a bar outside them */
+  private absDepth = 0;
+  /** Names declared so far, which behave like built-in symbols */
+  private declared = new Set<string>();
+
+  constructor() {
+    super(allTokens, { recoveryEnabled: false });
+    this.performSelfAnalysis();
+  }
+
+  // Declarations, then let/def definitions, each ended by `;`, then the iteration
+  // expression and its stop clauses
+  public equation = this.RULE('equation', (): RawProgram => {
+    this.ACTION(() => {
+      this.absDepth = 0;
+      this.declared = new Set();
+    });
+    const declarations: RawDeclaration[] = [];
+    this.MANY({
+      GATE: () => this.LA(1).tokenType === Identifier && this.LA(2).tokenType === Colon,
+      DEF: () => {
+        declarations.push(this.SUBRULE(this.declaration));
+        this.CONSUME(Semicolon);
+      },
+    });
+    const definitions: RawDefinition[] = [];
+    this.MANY3(() => {
+      definitions.push(this.OR([
+        { ALT: () => this.SUBRULE(this.letDefinition) },
+        { ALT: () => this.SUBRULE(this.functionDefinition) },
+      ]));
+      this.CONSUME3(Semicolon);
+    });
+    const body = this.SUBRULE(this.expression);
+    const clauses: RawClause[] = [];
+    this.MANY2(() => { clauses.push(this.SUBRULE(this.clause)); });
+    this.OPTION(() => this.CONSUME2(Semicolon));
+    return { declarations, definitions, body, clauses };
+  });
+
+  // let name = value
+  private letDefinition = this.RULE('letDefinition', (): RawDefinition => {
+    const keyword = this.CONSUME(Let);
+    const name = this.CONSUME(Identifier);
+    this.CONSUME(Equals);
+    const value = this.SUBRULE(this.expression);
+    return this.ACTION(() => {
+      // Like declared parameters, `w(z + 1)` multiplies
+      this.declared.add(name.image);
+      return {
+        definition: { kind: 'let' as const, name: name.image, value, span: joinSpans(tokenSpan(keyword), value.span) },
+        name,
+        params: [],
+      };
+    });
+  });
+
+  // def name(a, b) = body
+  private functionDefinition = this.RULE('functionDefinition', (): RawDefinition => {
+    const keyword = this.CONSUME(Def);
+    const name = this.CONSUME(Identifier);
+    const params: IToken[] = [];
+    this.CONSUME(LParen);
+    this.MANY_SEP({
+      SEP: Comma,
+      DEF: () => { params.push(this.CONSUME2(Identifier)); },
+    });
+    this.CONSUME(RParen);
+    this.CONSUME(Equals);
+    const body = this.SUBRULE(this.expression);
+    return this.ACTION(() => ({
+      definition: {
+        kind: 'def' as const,
+        name: name.image,
+        params: params.map((param) => param.image),
+        body,
+        span: joinSpans(tokenSpan(keyword), body.span),
+      },
+      name,
+      params,
+    }));
+  });
+
+  // A conditional or an arithmetic expression
+  private expression = this.RULE('expression', (): EquationNode => this.OR([
+    { ALT: () => this.SUBRULE(this.conditional) },
+    { ALT: () => this.SUBRULE(this.additive) },
+  ]));
+
+  // if <condition> then <expression> else <expression>
+  private conditional = this.RULE('conditional', (): EquationNode => {
+    const keyword = this.CONSUME(If);
+    const condition = this.SUBRULE(this.condition);
+    this.CONSUME(Then);
+    const then = this.SUBRULE(this.expression);
+    this.CONSUME(Else);
+    const otherwise = this.SUBRULE2(this.expression);
+    return this.ACTION((): EquationNode => ({
+      type: 'if',
+      condition,
+      then,
+      otherwise,
+      span: joinSpans(tokenSpan(keyword), otherwise.span),
+    }));
+  });
+
+  // escape <condition> | until <condition>
+  private clause = this.RULE('clause', (): RawClause => {
+    const keyword = this.OR([
+      { ALT: () => this.CONSUME(Escape) },
+      { ALT: () => this.CONSUME(Until) },
+    ]);
+    const condition = this.SUBRULE(this.condition);
+    return { keyword, condition };
+  });
+
+  // `and` binds tighter than `or`
+  private condition = this.RULE('condition', (): ConditionNode => {
+    let left = this.SUBRULE(this.conjunction);
+    this.MANY(() => {
+      this.CONSUME(Or);
+      const right = this.SUBRULE2(this.conjunction);
+      left = this.ACTION(() => logical('or', left, right));
+    });
+    return left;
+  });
+
+  private conjunction = this.RULE('conjunction', (): ConditionNode => {
+    let left = this.SUBRULE(this.comparison);
+    this.MANY(() => {
+      this.CONSUME(And);
+      const right = this.SUBRULE2(this.comparison);
+      left = this.ACTION(() => logical('and', left, right));
+    });
+    return left;
+  });
+
+  private comparison = this.RULE('comparison', (): ConditionNode => {
+    const left = this.SUBRULE(this.additive);
+    const op = this.OR([
+      { ALT: () => this.CONSUME(LessEqual) },
+      { ALT: () => this.CONSUME(Less) },
+      { ALT: () => this.CONSUME(GreaterEqual) },
+      { ALT: () => this.CONSUME(Greater) },
+    ]);
+    const right = this.SUBRULE2(this.additive);
+    return this.ACTION((): ConditionNode => ({
+      type: 'compare',
+      op: op.image as ComparisonOperator,
+      left,
+      right,
+      span: joinSpans(left.span, right.span),
+    }));
+  });
+
+  // name: type [min, max] = default
+  private declaration = this.RULE('declaration', (): RawDeclaration => {
+    const name = this.CONSUME(Identifier);
+    this.CONSUME(Colon);
+    const type = this.CONSUME2(Identifier);
+    let range: [EquationNode, EquationNode] | null = null;
+    let value: EquationNode | null = null;
+    let end = tokenSpan(type);
+    this.OPTION(() => {
+      this.CONSUME(LBracket);
+      const min = this.SUBRULE(this.unary);
+      this.CONSUME(Comma);
+      const max = this.SUBRULE2(this.unary);
+      end = tokenSpan(this.CONSUME(RBracket));
+      range = [min, max];
+    });
+    this.OPTION2(() => {
+      this.CONSUME(Equals);
+      value = this.SUBRULE(this.additive);
+      end = value.span;
+    });
+    return this.ACTION(() => {
+      this.declared.add(name.image);
+      return { name, type, range, value, span: joinSpans(tokenSpan(name), end) };
+    });
+  });
+
+  private additive = this.RULE('additive', (): EquationNode => {
+    let left = this.SUBRULE(this.multiplicative);
+    this.MANY(() => {
+      const op = this.OR([
+        { ALT: () => this.CONSUME(Plus) },
+        { ALT: () => this.CONSUME(Minus) },
+      ]);
+      const right = this.SUBRULE2(this.multiplicative);
+      left = this.ACTION(() => binary(op.image as BinaryOperator, left, right));
+    });
+    return left;
+  });
+
+  private multiplicative = this.RULE('multiplicative', (): EquationNode => {
+    let left = this.SUBRULE(this.unary);
+    this.MANY({
+      // Inside `|...|` a bar closes the group rather than starting `|w|` as a factor
+      GATE: () => this.LA(1).tokenType !== Pipe || this.absDepth === 0,
+      DEF: () => {
+        this.OR([
+          {
+            ALT: () => {
+              this.CONSUME(Star);
+              const right = this.SUBRULE2(this.unary);
+              left = this.ACTION(() => binary('*', left, right));
+            },
+          },
+          {
+            ALT: () => {
+              this.CONSUME(Slash);
+              const right = this.SUBRULE3(this.unary);
+              left = this.ACTION(() => binary('/', left, right));
+            },
+          },
+          {
+            ALT: () => {
+              const right = this.SUBRULE(this.power);
+              left = this.ACTION(() => ({ ...binary('*', left, right), implicit: true }));
+            },
+          },
+        ]);
+      },
+    });
+    return left;
+  });
+
+  private unary = this.RULE('unary', (): EquationNode => this.OR([
+    {
+      ALT: () => {
+        const sign = this.CONSUME(Minus);
+        const operand = this.SUBRULE(this.unary);
+        return this.ACTION((): EquationNode => ({
+          type: 'unary',
+          op: '-',
+          operand,
+          span: joinSpans(tokenSpan(sign), operand.span),
+        }));
+      },
+    },
+    {
+      ALT: () => {
+        this.CONSUME(Plus);
+        return this.SUBRULE2(this.unary);
+      },
+    },
+    { ALT: () => this.SUBRULE(this.power) },
+  ]));
+
+  // Right-associative, and the exponent may carry a sign: z^-2, 2^3^2 = 2^(3^2)
+  private power = this.RULE('power', (): EquationNode => {
+    const base = this.SUBRULE(this.primary);
+    let exponent: EquationNode | undefined;
+    this.OPTION(() => {
+      this.CONSUME(Caret);
+      exponent = this.SUBRULE(this.unary);
+    });
+    return this.ACTION(() => (exponent ? binary('^', base, exponent) : base));
+  });
+
+  private primary = this.RULE('primary', (): EquationNode => this.OR([
+    {
+      ALT: () => {
+        const token = this.CONSUME(NumberLiteral);
+        return this.ACTION((): EquationNode => ({
+          type: 'number',
+          value: parseFloat(token.image),
+          span: tokenSpan(token),
+        }));
+      },
+    },
+    { ALT: () => this.SUBRULE(this.identifierExpression) },
+    {
+      ALT: () => {
+        const open = this.CONSUME(LParen);
+        const inner = this.SUBRULE(this.expression);
+        const close = this.CONSUME(RParen);
+        return this.ACTION(() => ({ ...inner, span: joinSpans(tokenSpan(open), tokenSpan(close)) }));
+      },
+    },
+    {
+      ALT: () => {
+        const open = this.CONSUME(Pipe);
+        this.ACTION(() => { this.absDepth++; });
+        const inner = this.SUBRULE2(this.additive);
+        const close = this.CONSUME2(Pipe);
+        this.ACTION(() => { this.absDepth--; });
+        return this.ACTION((): EquationNode => ({
+          type: 'call',
+          name: 'abs',
+          args: [inner],
+          span: joinSpans(tokenSpan(open), tokenSpan(close)),
+        }));
+      },
+    },
+  ]));
+
+  // name, name(args) or implicit application such as `sin z^n`
+  private identifierExpression = this.RULE('identifierExpression', (): EquationNode => {
+    const token = this.CONSUME(Identifier);
+    const args: EquationNode[] = [];
+    let called = false;
+    let close: IToken | undefined;
+    this.OPTION(() => {
+      this.CONSUME(LParen);
+      called = true;
+      this.OPTION2(() => {
+        this.AT_LEAST_ONE_SEP({
+          SEP: Comma,
+          DEF: () => { args.push(this.SUBRULE(this.expression)); },
+        });
+      });
+      close = this.CONSUME(RParen);
+    });
+    this.OPTION3({
+      GATE: () => !called && canonicalFunctionName(token.image) !== null,
+      DEF: () => {
+        called = true;
+        args.push(this.SUBRULE(this.power));
+      },
+    });
+    return this.ACTION(() => identifierNode(token, called, args, close, this.declared));
+  });
 }
 
+function binary(op: BinaryOperator, left: EquationNode, right: EquationNode): BinaryNode {
+  return { type: 'binary', op, left, right, span: joinSpans(left.span, right.span) };
+}
+
+function logical(op: LogicalNode['op'], left: ConditionNode, right: ConditionNode): LogicalNode {
+  return { type: 'logical', op, left, right, span: joinSpans(left.span, right.span) };
+}
+
+function identifierNode(
+  token: IToken,
+  called: boolean,
+  args: EquationNode[],
+  close: IToken | undefined,
+  declared: Set<string>
+): EquationNode {
+  const nameSpan = tokenSpan(token);
+  const span = close
+    ? joinSpans(nameSpan, tokenSpan(close))
+    : args.reduce((acc, arg) => joinSpans(acc, arg.span), nameSpan);
+
+  if (!called) {
+    return { type: 'symbol', name: canonicalSymbolName(token.image), span };
+  }
+
+  const fn = canonicalFunctionName(token.image);
+  const symbol = canonicalSymbolName(token.image);
+  // `z(z + 1)` is multiplication, not a call
+  if (!fn && (isKnownSymbol(symbol) || declared.has(symbol)) && args.length === 1) {
+    return {
+      type: 'binary',
+      op: '*',
+      left: { type: 'symbol', name: symbol, span: nameSpan },
+      right: args[0],
+      implicit: true,
+      span,
+    };
+  }
+  return { type: 'call', name: fn ?? token.image, args, span };
+}
+
+const equationParser = new EquationParser();
+
+const OPERATOR_TOKENS: TokenType[] = [Plus, Minus, Star, Slash, Caret];
+const isOperator = (token: IToken | undefined) => !!token && OPERATOR_TOKENS.includes(token.tokenType);
+
+// Turn a Chevrotain error into a diagnostic that names the actual mistake
+function describeParseError(error: IRecognitionException, tokens: IToken[], equation: string): EquationError {
+  const token = error.token;
+  const atEnd = token.tokenType.name === 'EOF' || isNaN(token.startOffset);
+  const index = atEnd ? tokens.length : tokens.indexOf(token);
+  const previous = index > 0 ? tokens[index - 1] : undefined;
+  const endSpan = { start: equation.length, end: equation.length };
+
+  // `z +` or `z + )`: the operator has nothing on its right
+  if ((atEnd || token.tokenType === RParen || token.tokenType === Pipe) && isOperator(previous)) {
+    return {
+      kind: 'dangling-operator',
+      message: `'${previous!.image}' is missing its right operand`,
+      span: tokenSpan(previous!),
+      suggestion: '',
+    };
+  }
+  // `* z` or `(+ * z)`: a binary operator with nothing on its left
+  if (!atEnd && isOperator(token) && token.tokenType !== Minus && token.tokenType !== Plus &&
+      (!previous || isOperator(previous) || previous.tokenType === LParen || previous.tokenType === Comma)) {
+    return {
+      kind: 'dangling-operator',
+      message: `'${token.image}' is missing its left operand`,
+      span: tokenSpan(token),
+      suggestion: '',
+    };
+  }
+  if (atEnd && previous && (previous.tokenType === Escape || previous.tokenType === Until)) {
+    return { kind: 'syntax', message: `'${previous.image}' needs a condition, e.g. |z| > 2`, span: tokenSpan(previous) };
+  }
+  if (atEnd) {
+    const missing = /RParen/.test(error.message) ? ')' : /Pipe/.test(error.message) ? '|' : null;
+    return missing
+      ? { kind: 'syntax', message: `Missing closing '${missing}'`, span: endSpan, suggestion: missing }
+      : { kind: 'syntax', message: 'Unexpected end of equation', span: endSpan };
+  }
+  if (token.tokenType === RParen && error.name === 'NotAllInputParsedException') {
+    return { kind: 'syntax', message: "Unmatched ')'", span: tokenSpan(token), suggestion: '' };
+  }
+  return { kind: 'syntax', message: `Unexpected '${token.image}'`, span: tokenSpan(token) };
+}
+
+export interface EquationParseResult {
+  /** The iteration expression, or null when there are errors */
+  ast: EquationNode | null;
+  declarations: ParameterDeclaration[];
+  /** let and def definitions in source order; each may use the ones before it */
+  definitions: EquationDefinition[];
+  conditions: StopConditions;
+  errors: EquationError[];
+}
+
+const NO_CONDITIONS: StopConditions = { escape: null, until: null };
+
 /**
- * Simple equation syntax validation
+ * Tokenize and parse an equation into an AST plus its parameter declarations
  */
-export function validateEquationSyntax(equation: string): { ok: boolean; message?: string } {
-  const eq = equation.trim();
-  if (!eq) return { ok: false, message: 'Empty equation' };
-  
-  // Check for balanced parentheses
-  let depth = 0;
-  for (const char of eq) {
-    if (char === '(') depth++;
-    if (char === ')') depth--;
-    if (depth < 0) return { ok: false, message: 'Unbalanced parentheses' };
-  }
-  if (depth !== 0) return { ok: false, message: 'Unbalanced parentheses' };
-  
-  return { ok: true };
+export function parseEquationAst(equation: string): EquationParseResult {
+  const lexed = equationLexer.tokenize(equation);
+  if (lexed.errors.length > 0) {
+    return {
+      ast: null,
+      declarations: [],
+      definitions: [],
+      conditions: NO_CONDITIONS,
+      errors: lexed.errors.map((e) => ({
+        kind: 'syntax' as const,
+        message: `Unexpected character '${equation.substr(e.offset, e.length)}'`,
+        span: { start: e.offset, end: e.offset + e.length },
+        suggestion: '',
+      })),
+    };
+  }
+  if (lexed.tokens.length === 0) {
+    return {
+      ast: null,
+      declarations: [],
+      definitions: [],
+      conditions: NO_CONDITIONS,
+      errors: [{ kind: 'syntax', message: 'Empty equation', span: { start: 0, end: equation.length }, suggestion: 'z^2 + c' }],
+    };
+  }
+
+  equationParser.input = lexed.tokens;
+  const program = equationParser.equation();
+  if (equationParser.errors.length > 0) {
+    return {
+      ast: null,
+      declarations: [],
+      definitions: [],
+      conditions: NO_CONDITIONS,
+      errors: [describeParseError(equationParser.errors[0], lexed.tokens, equation)],
+    };
+  }
+
+  const errors: EquationError[] = [];
+  const declarations = resolveDeclarations(program.declarations, errors);
+  const definitions = resolveDefinitions(program.definitions, declarations, errors);
+  const conditions = resolveClauses(program.clauses, errors);
+  return errors.length > 0
+    ? { ast: null, declarations, definitions, conditions, errors }
+    : { ast: program.body, declarations, definitions, conditions, errors };
+}
+
+// Names a declaration, definition or helper parameter may not take
+const isReservedName = (name: string): boolean =>
+  isKnownSymbol(canonicalSymbolName(name)) || canonicalFunctionName(name) !== null;
+
+// Definition names must be new, and helper parameters distinct and unshadowed
+function resolveDefinitions(
+  raw: RawDefinition[],
+  declarations: ParameterDeclaration[],
+  errors: EquationError[]
+): EquationDefinition[] {
+  const taken = new Set(declarations.map((decl) => decl.name));
+  const definitions: EquationDefinition[] = [];
+
+  for (const { definition, name, params } of raw) {
+    if (isReservedName(name.image) || taken.has(name.image)) {
+      errors.push({ kind: 'syntax', message: `'${name.image}' is already defined`, span: tokenSpan(name) });
+      continue;
+    }
+    if (name.image.includes('__')) {
+      errors.push({ kind: 'syntax', message: "Names cannot contain '__'", span: tokenSpan(name), suggestion: name.image.replace(/_+/g, '_') });
+      continue;
+    }
+    const seen = new Set<string>();
+    const badParam = params.find((param) => {
+      const bad = isReservedName(param.image) || taken.has(param.image) || seen.has(param.image) || param.image.includes('__');
+      seen.add(param.image);
+      return bad;
+    });
+    if (badParam) {
+      errors.push({
+        kind: 'syntax',
+        message: `Parameter '${badParam.image}' of ${name.image}() must be a new name`,
+        span: tokenSpan(badParam),
+      });
+      continue;
+    }
+    taken.add(name.image);
+    definitions.push(definition);
+  }
+
+  return definitions;
+}
+
+// At most one clause of each kind
+function resolveClauses(clauses: RawClause[], errors: EquationError[]): StopConditions {
+  const conditions: StopConditions = { escape: null, until: null };
+  clauses.forEach(({ keyword, condition }) => {
+    const kind = keyword.tokenType === Escape ? 'escape' : 'until';
+    if (conditions[kind]) {
+      errors.push({
+        kind: 'syntax',
+        message: `Only one '${kind}' clause is allowed; join conditions with 'or'`,
+        span: tokenSpan(keyword),
+        suggestion: 'or',
+      });
+      return;
+    }
+    conditions[kind] = condition;
+  });
+  return conditions;
+}
+
+// Value of an expression built only from numbers and the constants i, pi, e
+function constantValue(node: EquationNode): Complex | null {
+  switch (node.type) {
+    case 'number':
+      return { re: node.value, im: 0 };
+    case 'symbol':
+      return node.name === 'i' ? { re: 0, im: 1 } : node.name === 'pi' ? { re: Math.PI, im: 0 } : node.name === 'e' ? { re: Math.E, im: 0 } : null;
+    case 'unary': {
+      const operand = constantValue(node.operand);
+      return operand && cneg(operand);
+    }
+    case 'binary': {
+      const left = constantValue(node.left);
+      const right = constantValue(node.right);
+      if (!left || !right) return null;
+      const ops = { '+': cadd, '-': csub, '*': cmul, '/': cdiv, '^': cpow };
+      return ops[node.op](left, right);
+    }
+  }
+  return null;
+}
+
+// Edit distance counting adjacent transpositions as one edit (sni -> sin)
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
 }
 
 /**
- * Parse a simple equation string
+ * Closest known name to a misspelled one, or null when nothing is close
+ */
+export function suggestName(name: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance && distance <= 2 && distance < candidate.length) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+const PARAMETER_TYPES: ParameterType[] = ['real', 'complex'];
+const DEFAULT_PARAMETER_RANGE: [number, number] = [-2, 2];
+
+// Check declarations and evaluate their ranges and defaults
+function resolveDeclarations(raw: RawDeclaration[], errors: EquationError[]): ParameterDeclaration[] {
+  const declarations: ParameterDeclaration[] = [];
+  const seen = new Set<string>();
+
+  for (const decl of raw) {
+    const name = decl.name.image;
+    const nameSpan = tokenSpan(decl.name);
+    if (isKnownSymbol(canonicalSymbolName(name)) || canonicalFunctionName(name)) {
+      errors.push({ kind: 'syntax', message: `'${name}' is built in and cannot be declared`, span: nameSpan });
+      continue;
+    }
+    if (seen.has(name)) {
+      errors.push({ kind: 'syntax', message: `'${name}' is declared twice`, span: decl.span, suggestion: '' });
+      continue;
+    }
+    if (name.includes('__')) {
+      errors.push({ kind: 'syntax', message: "Parameter names cannot contain '__'", span: nameSpan, suggestion: name.replace(/_+/g, '_') });
+      continue;
+    }
+    seen.add(name);
+
+    const type = decl.type.image as ParameterType;
+    if (!PARAMETER_TYPES.includes(type)) {
+      const suggestion = suggestName(decl.type.image, PARAMETER_TYPES);
+      errors.push({
+        kind: 'syntax',
+        message: `Unknown parameter type '${decl.type.image}', expected real or complex`,
+        span: tokenSpan(decl.type),
+        ...(suggestion ? { suggestion } : {}),
+      });
+      continue;
+    }
+
+    let [min, max] = DEFAULT_PARAMETER_RANGE;
+    if (decl.range) {
+      const [lo, hi] = decl.range.map(constantValue);
+      if (!lo || !hi || lo.im !== 0 || hi.im !== 0) {
+        errors.push({ kind: 'syntax', message: 'Range bounds must be real constants', span: joinSpans(decl.range[0].span, decl.range[1].span) });
+        continue;
+      }
+      if (lo.re >= hi.re) {
+        errors.push({
+          kind: 'syntax',
+          message: 'Range minimum must be below its maximum',
+          span: joinSpans(decl.range[0].span, decl.range[1].span),
+          suggestion: `${hi.re}, ${lo.re}`,
+        });
+        continue;
+      }
+      [min, max] = [lo.re, hi.re];
+    }
+
+    // Without an explicit default, start at 0 or the nearest end of the range
+    let value: Complex = { re: Math.min(Math.max(0, min), max), im: 0 };
+    if (decl.value) {
+      const evaluated = constantValue(decl.value);
+      if (!evaluated || !isFinite(evaluated.re) || !isFinite(evaluated.im)) {
+        errors.push({ kind: 'syntax', message: 'Default value must be a constant', span: decl.value.span });
+        continue;
+      }
+      if (type === 'real' && evaluated.im !== 0) {
+        errors.push({ kind: 'syntax', message: `'${name}' is real but its default is complex`, span: decl.value.span, suggestion: String(evaluated.re) });
+        continue;
+      }
+      value = evaluated;
+    }
+
+    declarations.push({ name, type, min, max, default: value, span: decl.span });
+  }
+
+  return declarations;
+}
+
+/**
+ * Visit every node of an AST, depth first
+ */
+export function walkEquation(node: EquationNode, visit: (node: EquationNode) => void): void {
+  visit(node);
+  switch (node.type) {
+    case 'unary':
+      walkEquation(node.operand, visit);
+      break;
+    case 'binary':
+      walkEquation(node.left, visit);
+      walkEquation(node.right, visit);
+      break;
+    case 'call':
+      node.args.forEach((arg) => walkEquation(arg, visit));
+      break;
+    case 'if':
+      walkCondition(node.condition, visit);
+      walkEquation(node.then, visit);
+      walkEquation(node.otherwise, visit);
+      break;
+  }
+}
+
+/**
+ * Visit every expression node inside a condition
+ */
+export function walkCondition(condition: ConditionNode, visit: (node: EquationNode) => void): void {
+  if (condition.type === 'logical') {
+    walkCondition(condition.left, visit);
+    walkCondition(condition.right, visit);
+  } else {
+    walkEquation(condition.left, visit);
+    walkEquation(condition.right, visit);
+  }
+}
+
+/**
+ * Collect the distinct symbol names used by an AST
+ */
+export function collectSymbols(node: EquationNode): Set<string> {
+  const symbols = new Set<string>();
+  walkEquation(node, (n) => {
+    if (n.type === 'symbol') symbols.add(n.name);
+  });
+  return symbols;
+}
+
+// Binding strength used when printing, mirroring the grammar rules
+const PRECEDENCE = { additive: 1, multiplicative: 2, unary: 3, power: 4, primary: 5 };
+
+function nodePrecedence(node: EquationNode): number {
+  switch (node.type) {
+    case 'if':
+      return 0;
+    case 'unary':
+      return PRECEDENCE.unary;
+    case 'binary':
+      if (node.op === '+' || node.op === '-') return PRECEDENCE.additive;
+      if (node.op === '^') return PRECEDENCE.power;
+      return PRECEDENCE.multiplicative;
+    default:
+      return node.type === 'number' && node.value < 0 ? PRECEDENCE.unary : PRECEDENCE.primary;
+  }
+}
+
+/**
+ * Print an AST back to canonical equation text
+ * Equivalent inputs (spacing, `**`, implicit products) print identically
+ */
+export function formatEquation(node: EquationNode): string {
+  const wrap = (child: EquationNode, minPrecedence: number) => {
+    const text = formatEquation(child);
+    return nodePrecedence(child) < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'symbol':
+      return node.name;
+    case 'unary':
+      return `-${wrap(node.operand, PRECEDENCE.unary)}`;
+    case 'binary':
+      switch (node.op) {
+        case '+':
+        case '-':
+          return `${wrap(node.left, PRECEDENCE.additive)} ${node.op} ${wrap(node.right, PRECEDENCE.additive + 1)}`;
+        case '*':
+        case '/':
+          return `${wrap(node.left, PRECEDENCE.multiplicative)}${node.op}${wrap(node.right, PRECEDENCE.multiplicative + 1)}`;
+        case '^':
+          return `${wrap(node.left, PRECEDENCE.primary)}^${wrap(node.right, PRECEDENCE.unary)}`;
+      }
+      break;
+    case 'call':
+      return `${node.name}(${node.args.map(formatEquation).join(', ')})`;
+    case 'if':
+      return `if ${formatCondition(node.condition)} then ${formatEquation(node.then)} else ${formatEquation(node.otherwise)}`;
+  }
+  return '';
+}
+
+/**
+ * Print a condition back to canonical text
+ */
+export function formatCondition(condition: ConditionNode): string {
+  if (condition.type === 'logical') {
+    return `${formatCondition(condition.left)} ${condition.op} ${formatCondition(condition.right)}`;
+  }
+  return `${formatEquation(condition.left)} ${condition.op} ${formatEquation(condition.right)}`;
+}
+
+/**
+ * Print a let or def definition back to canonical text
+ */
+export function formatDefinition(definition: EquationDefinition): string {
+  return definition.kind === 'let'
+    ? `let ${definition.name} = ${formatEquation(definition.value)};`
+    : `def ${definition.name}(${definition.params.join(', ')}) = ${formatEquation(definition.body)};`;
+}
+
+/**
+ * Substitute let values and helper bodies into an expression, leaving one self-contained AST
+ * Used where the structure does not matter, such as differentiation
+ */
+export function expandDefinitions(node: EquationNode, definitions: EquationDefinition[]): EquationNode {
+  const lets = new Map<string, EquationNode>();
+  const helpers = new Map<string, FunctionDefinition>();
+
+  const expand = (n: EquationNode, bound: Map<string, EquationNode>): EquationNode => {
+    switch (n.type) {
+      case 'symbol':
+        return bound.get(n.name) ?? n;
+      case 'unary':
+        return { ...n, operand: expand(n.operand, bound) };
+      case 'binary':
+        return { ...n, left: expand(n.left, bound), right: expand(n.right, bound) };
+      case 'if':
+        return {
+          ...n,
+          condition: expandCondition(n.condition, bound),
+          then: expand(n.then, bound),
+          otherwise: expand(n.otherwise, bound),
+        };
+      case 'call': {
+        const args = n.args.map((arg) => expand(arg, bound));
+        const helper = helpers.get(n.name);
+        if (!helper || helper.params.length !== args.length) return { ...n, args };
+        // Helper bodies see only their own parameters and the globals
+        return expand(helper.body, new Map(helper.params.map((param, i) => [param, args[i]])));
+      }
+    }
+    return n;
+  };
+
+  const expandCondition = (condition: ConditionNode, bound: Map<string, EquationNode>): ConditionNode =>
+    condition.type === 'logical'
+      ? { ...condition, left: expandCondition(condition.left, bound), right: expandCondition(condition.right, bound) }
+      : { ...condition, left: expand(condition.left, bound), right: expand(condition.right, bound) };
+
+  definitions.forEach((definition) => {
+    if (definition.kind === 'let') lets.set(definition.name, expand(definition.value, lets));
+    else helpers.set(definition.name, definition);
+  });
+  return expand(node, lets);
+}
+
+/**
+ * Parse an equation string
  */
 export function parseEquation(equation: string): ParsedEquation {
   const raw = equation.trim();
-  
-  // Convert to simple LaTeX
-  const latex = raw
-    .replace(/\*\*/g, '^')
-    .replace(/\*/g, ' \\cdot ')
-    .replace(/z_n/g, 'z_n')
-    .replace(/z_0/g, 'z_0');
-  
-  // Detect basic variables
+  const { ast, declarations, definitions, conditions, errors } = parseEquationAst(raw);
+
+  const latex = ast
+    ? withConditionsLatex(withDefinitionsLatex(equationToLatex(ast), definitions), conditions)
+    : textToLatex(raw);
+
+  // Parameters come from the symbols the program actually references: the iteration body,
+  // the definitions and the stop tests
   const variables: EquationVariable[] = [];
-  
-  if (raw.includes('c') || raw.includes('C')) {
+  const symbols = ast ? collectSymbols(ast) : new Set<string>();
+  if (ast) {
+    definitions.forEach((definition) => {
+      collectSymbols(definition.kind === 'let' ? definition.value : definition.body).forEach((name) => symbols.add(name));
+    });
+    [conditions.escape, conditions.until].forEach((condition) => {
+      if (!condition) return;
+      walkCondition(condition, (n) => {
+        if (n.type === 'symbol') symbols.add(n.name);
+      });
+    });
+  }
+
+  if (symbols.has('c')) {
     variables.push({
       name: 'c',
       symbol: 'c',
@@ -62,8 +1183,8 @@ export function parseEquation(equation: string): ParsedEquation {
       type: 'complex'
     });
   }
-  
-  if (raw.includes('x') || raw.includes('X')) {
+
+  if (symbols.has('x')) {
     variables.push({
       name: 'x',
       symbol: 'x',
@@ -73,6 +1194,20 @@ export function parseEquation(equation: string): ParsedEquation {
       type: 'real'
     });
   }
-  
-  return { latex, variables, raw };
+
+  // Declared parameters get sliders whether or not the body uses them yet
+  declarations.forEach((decl) => {
+    variables.push({
+      name: decl.name,
+      symbol: decl.name,
+      min: decl.min,
+      max: decl.max,
+      default: decl.default.re,
+      defaultImag: decl.default.im,
+      type: decl.type,
+      declared: true,
+    });
+  });
+
+  return { latex, variables, raw, ast, declarations, definitions, conditions, errors };
 }
@@ -0,0 +1,178 @@
+/**
+ * Newton's method for user-entered f(z)
+ * Pairs f with its symbolic derivative, iterates z - a*f(z)/f'(z) on the CPU and
+ * locates the roots whose basins the Newton shader colours
+ */
+
+import { Complex, cabs2, cdiv, csub } from './complex';
+import { differentiate } from './equation-derivative';
+import { compileEquation, EquationFunction, EquationScope } from './equation-evaluator';
+import {
+  EquationError,
+  EquationNode,
+  expandDefinitions,
+  ParameterDeclaration,
+  parseEquationAst,
+  StopConditions,
+  walkEquation,
+} from './equation-parser';
+
+export interface NewtonSystem {
+  f: EquationNode;
+  /** Parameters declared in the equation text, read from scope.params */
+  declarations: ParameterDeclaration[];
+  derivative: EquationNode;
+  evaluateF: EquationFunction;
+  evaluateDerivative: EquationFunction;
+}
+
+/** Parameters shared by every Newton evaluation; z is supplied per point */
+export type NewtonScope = Omit<EquationScope, 'z'>;
+
+export interface NewtonResult {
+  /** Steps taken until the update fell below the tolerance or the limit was hit */
+  iterations: number;
+  z: Complex;
+  converged: boolean;
+}
+
+// Step size below which a Newton orbit counts as converged (the shader uses the same)
+export const NEWTON_TOLERANCE = 1e-4;
+
+// Largest number of distinct roots passed to the shader
+export const MAX_NEWTON_ROOTS = 16;
+
+/**
+ * Parts of the equation language that have no meaning in f(z): Newton stops on its own
+ * convergence test and keeps no previous iterate
+ */
+export function newtonUnsupported(ast: EquationNode, conditions: StopConditions): EquationError[] {
+  const errors: EquationError[] = [];
+  walkEquation(ast, (node) => {
+    if (node.type === 'symbol' && node.name === 'zPrev') {
+      errors.push({ kind: 'unknown-identifier', message: "zPrev is not defined in Newton's f(z)", span: node.span });
+    }
+  });
+  [conditions.escape, conditions.until].forEach((condition) => {
+    if (condition) {
+      errors.push({ kind: 'syntax', message: "Newton's method stops on its own convergence test; remove this clause", span: condition.span });
+    }
+  });
+  return errors;
+}
+
+/**
+ * Parse f(z) and differentiate it
+ * Errors carry source spans, including non-analytic functions that have no derivative
+ */
+export function buildNewtonSystem(equation: string): { system: NewtonSystem | null; errors: EquationError[] } {
+  const parsed = parseEquationAst(equation.trim());
+  if (!parsed.ast) return { system: null, errors: parsed.errors };
+  // Lets and helpers are substituted so f is one expression to differentiate
+  const ast = expandDefinitions(parsed.ast, parsed.definitions);
+  const { declarations, conditions } = parsed;
+  const unsupported = newtonUnsupported(ast, conditions);
+  if (unsupported.length > 0) return { system: null, errors: unsupported };
+
+  const { derivative, errors: derivativeErrors } = differentiate(ast);
+  if (!derivative) return { system: null, errors: derivativeErrors };
+
+  const parameters = declarations.map((decl) => decl.name);
+  try {
+    return {
+      system: {
+        f: ast,
+        declarations,
+        derivative,
+        evaluateF: compileEquation(ast, parameters),
+        evaluateDerivative: compileEquation(derivative, parameters),
+      },
+      errors: [],
+    };
+  } catch (error) {
+    return { system: null, errors: [{ kind: 'syntax', message: (error as Error).message, span: ast.span }] };
+  }
+}
+
+/**
+ * One relaxed Newton update, returning the step a*f(z)/f'(z)
+ * Mirrors the shader: cdiv returns 0 when f'(z) vanishes, which stalls the orbit
+ */
+export function newtonDelta(system: NewtonSystem, z: Complex, scope: NewtonScope, relaxation = 1): Complex {
+  const point: EquationScope = { ...scope, z };
+  const delta = cdiv(system.evaluateF(point), system.evaluateDerivative(point));
+  return { re: delta.re * relaxation, im: delta.im * relaxation };
+}
+
+/**
+ * Iterate Newton's method from z0 until the step is below NEWTON_TOLERANCE
+ */
+export function iterateNewton(
+  system: NewtonSystem,
+  z0: Complex,
+  scope: NewtonScope,
+  maxIterations: number,
+  relaxation = 1,
+  onStep?: (z: Complex, iteration: number) => void
+): NewtonResult {
+  let z = z0;
+  for (let i = 0; i < maxIterations; i++) {
+    const delta = newtonDelta(system, z, scope, relaxation);
+    z = csub(z, delta);
+    onStep?.(z, i + 1);
+    if (!isFinite(z.re) || !isFinite(z.im)) return { iterations: i + 1, z, converged: false };
+    if (cabs2(delta) < NEWTON_TOLERANCE * NEWTON_TOLERANCE) return { iterations: i + 1, z, converged: true };
+  }
+  return { iterations: maxIterations, z, converged: false };
+}
+
+/**
+ * Find the distinct roots of f reachable by Newton from a grid of seeds
+ * Roots are ordered by angle then modulus so basin colours stay stable as parameters move
+ */
+export function findNewtonRoots(system: NewtonSystem, scope: NewtonScope, radius = 3, gridSize = 20): Complex[] {
+  const roots: Complex[] = [];
+  const minSeparation = 1e-3;
+
+  for (let row = 0; row < gridSize && roots.length < MAX_NEWTON_ROOTS; row++) {
+    for (let col = 0; col < gridSize && roots.length < MAX_NEWTON_ROOTS; col++) {
+      // Offset seeds off the axes, where symmetric polynomials have critical points
+      const seed = {
+        re: ((col + 0.37) / gridSize * 2 - 1) * radius,
+        im: ((row + 0.61) / gridSize * 2 - 1) * radius,
+      };
+      const result = iterateNewton(system, seed, scope, 100);
+      if (!result.converged) continue;
+
+      // Only keep true roots, not points where the step merely stalled, and skip
+      // far-off roots (exp, sin) that single-precision shaders cannot resolve
+      const residual = system.evaluateF({ ...scope, z: result.z });
+      if (cabs2(residual) > 1e-6 || cabs2(result.z) > 100 * radius * radius) continue;
+
+      if (roots.every((root) => cabs2(csub(root, result.z)) > minSeparation * minSeparation)) {
+        roots.push(result.z);
+      }
+    }
+  }
+
+  return roots.sort((a, b) => {
+    const angle = Math.atan2(a.im, a.re) - Math.atan2(b.im, b.re);
+    return Math.abs(angle) > 1e-6 ? angle : cabs2(a) - cabs2(b);
+  });
+}
+
+/**
+ * Index of the root nearest to z within the tolerance, or -1
+ */
+export function nearestRoot(roots: Complex[], z: Complex, tolerance = 1e-2): number {
+  let best = -1;
+  let bestDistance = tolerance * tolerance;
+  roots.forEach((root, index) => {
+    const distance = cabs2(csub(root, z));
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
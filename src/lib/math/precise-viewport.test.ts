@@ -0,0 +1,21 @@
+import { formatViewport, parseViewport, viewportFromNumbers, zoomViewport } from './precise-viewport';
+
+describe('formatViewport / parseViewport', () => {
+  it('round trips a shallow viewport', () => {
+    const viewport = viewportFromNumbers(-0.75, 0.1, 0.5);
+    expect(parseViewport(formatViewport(viewport))).toEqual(viewport);
+  });
+
+  it('round trips a viewport zoomed far below double precision', () => {
+    let viewport = viewportFromNumbers(-0.75, 0.1, 1);
+    for (let i = 0; i < 200; i++) viewport = zoomViewport(viewport, 0.5, 0.3, -0.2);
+    expect(viewport.zoom).toBeLessThan(1e-55);
+    expect(parseViewport(formatViewport(viewport))).toEqual(viewport);
+  });
+
+  it('rejects text that is not a viewport', () => {
+    expect(parseViewport('re=1 im=2')).toBeNull();
+    expect(parseViewport('re=abc im=0 zoom=1')).toBeNull();
+    expect(parseViewport('re=0 im=0 zoom=0')).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Arbitrary-precision viewport
+ * The centre is stored as BigInt fixed-point (value / 2^bits) with the fraction bits
+ * growing as the view zooms in, so panning and zooming never round the position to a
+ * double. The zoom itself stays a double: its exponent range reaches far past any depth
+ * the renderers can resolve.
+ */
+
+export interface PreciseViewport {
+  /** Centre coordinates in fixed point: x / 2^bits */
+  x: bigint;
+  y: bigint;
+  bits: number;
+  /** Half the view height in the plane, the shaders' scale uniform */
+  zoom: number;
+}
+
+// Fraction bits kept beyond those needed to address one unit of zoom
+const GUARD_BITS = 64;
+
+// Largest power of two applied in one float multiply before the rest is shifted in BigInt
+const MAX_FLOAT_SHIFT = 960;
+
+// Deepest zoom; below it the view offsets passed in as doubles would lose their digits
+export const MIN_ZOOM = 1e-290;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const FIVE = BigInt(5);
+const TEN = BigInt(10);
+
+/** Fraction bits needed to pan smoothly at this zoom */
+export function requiredBits(zoom: number): number {
+  return Math.max(GUARD_BITS, Math.ceil(-Math.log2(zoom)) + GUARD_BITS);
+}
+
+/** Exact fixed-point value of a double (rounded only below 2^-960) */
+export function numberToFixed(value: number, bits: number): bigint {
+  const step = Math.min(bits, MAX_FLOAT_SHIFT);
+  return BigInt(Math.round(value * 2 ** step)) << BigInt(bits - step);
+}
+
+/** Nearest double to a fixed-point value */
+export function fixedToNumber(value: bigint, bits: number): number {
+  // Keep the BigInt within double range before converting
+  const shift = Math.max(0, bits - MAX_FLOAT_SHIFT);
+  return Number(value >> BigInt(shift)) / 2 ** (bits - shift);
+}
+
+// Round-half-away-from-zero division for BigInt
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const negative = numerator < ZERO;
+  const magnitude = negative ? -numerator : numerator;
+  const quotient = (TWO * magnitude + denominator) / (TWO * denominator);
+  return negative ? -quotient : quotient;
+}
+
+function rescale(value: bigint, from: number, to: number): bigint {
+  if (to >= from) return value << BigInt(to - from);
+  return divideRounded(value, ONE << BigInt(from - to));
+}
+
+/** Change the fraction bits to those the zoom needs, rounding when they shrink */
+function withZoom(viewport: PreciseViewport, zoom: number): PreciseViewport {
+  const bits = requiredBits(zoom);
+  return {
+    x: rescale(viewport.x, viewport.bits, bits),
+    y: rescale(viewport.y, viewport.bits, bits),
+    bits,
+    zoom,
+  };
+}
+
+export function viewportFromNumbers(x: number, y: number, zoom: number): PreciseViewport {
+  const bits = requiredBits(zoom);
+  return { x: numberToFixed(x, bits), y: numberToFixed(y, bits), bits, zoom };
+}
+
+/** Centre rounded to doubles, for display and double-precision renderers */
+export function viewportCenter(viewport: PreciseViewport): { x: number; y: number } {
+  return { x: fixedToNumber(viewport.x, viewport.bits), y: fixedToNumber(viewport.y, viewport.bits) };
+}
+
+/**
+ * Split the centre into a float and the remainder, for the double-single hp shader
+ * The remainder is taken in fixed point, so it is exact where Math.fround differences are not
+ */
+export function splitViewportCenter(viewport: PreciseViewport): { hi: { x: number; y: number }; lo: { x: number; y: number } } {
+  const split = (value: bigint) => {
+    const hi = Math.fround(fixedToNumber(value, viewport.bits));
+    return { hi, lo: fixedToNumber(value - numberToFixed(hi, viewport.bits), viewport.bits) };
+  };
+  const x = split(viewport.x);
+  const y = split(viewport.y);
+  return { hi: { x: x.hi, y: y.hi }, lo: { x: x.lo, y: y.lo } };
+}
+
+/**
+ * Move the centre by a plane offset
+ * Offsets are on the scale of the view, so a double carries them without loss
+ */
+export function panViewport(viewport: PreciseViewport, dx: number, dy: number): PreciseViewport {
+  return {
+    ...viewport,
+    x: viewport.x + numberToFixed(dx, viewport.bits),
+    y: viewport.y + numberToFixed(dy, viewport.bits),
+  };
+}
+
+/**
+ * Scale the view by factor about an anchor given as an offset from the centre,
+ * so the point under the anchor stays put
+ */
+export function zoomViewport(viewport: PreciseViewport, factor: number, anchorX = 0, anchorY = 0): PreciseViewport {
+  const zoom = Math.max(MIN_ZOOM, viewport.zoom * factor);
+  const applied = zoom / viewport.zoom;
+  // Grow the fraction bits before moving, so the shift lands exactly
+  const rescaled = withZoom(viewport, Math.min(zoom, viewport.zoom));
+  const moved = panViewport(rescaled, anchorX * (1 - applied), anchorY * (1 - applied));
+  return withZoom(moved, zoom);
+}
+
+/** Plane offset from one viewport's centre to another's, rounded to doubles */
+export function viewportOffset(from: PreciseViewport, to: PreciseViewport): { x: number; y: number } {
+  const bits = Math.max(from.bits, to.bits);
+  return {
+    x: fixedToNumber(rescale(to.x, to.bits, bits) - rescale(from.x, from.bits, bits), bits),
+    y: fixedToNumber(rescale(to.y, to.bits, bits) - rescale(from.y, from.bits, bits), bits),
+  };
+}
+
+/**
+ * Viewport a fraction t of the way along a flight between two viewports
+ * The zoom changes geometrically while the destination slides to the centre at a steady
+ * pace on screen, so deep destinations stay in view as they are approached
+ */
+export function interpolateViewport(from: PreciseViewport, to: PreciseViewport, t: number): PreciseViewport {
+  if (t <= 0) return from;
+  if (t >= 1) return to;
+  const zoom = from.zoom * (to.zoom / from.zoom) ** t;
+  const offset = viewportOffset(to, from);
+  const remaining = (1 - t) * (zoom / from.zoom);
+  return panViewport(zoomViewport(to, zoom / to.zoom), offset.x * remaining, offset.y * remaining);
+}
+
+// Exact decimal expansion: a fraction over 2^bits always terminates within bits digits
+function formatFixed(value: bigint, bits: number): string {
+  const negative = value < ZERO;
+  const magnitude = negative ? -value : value;
+  const whole = magnitude >> BigInt(bits);
+  const fraction = magnitude - (whole << BigInt(bits));
+  const digits = (fraction * FIVE ** BigInt(bits)).toString().padStart(bits, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${digits ? `.${digits}` : ''}`;
+}
+
+// Parse a decimal exactly when it has no more fraction digits than bits
+function parseFixed(text: string, bits: number): bigint | null {
+  const match = text.match(/^([+-])?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+  const fraction = match[3] ?? '';
+  const digits = BigInt(`${match[2] || '0'}${fraction}`);
+  const value = divideRounded(digits << BigInt(bits), TEN ** BigInt(fraction.length));
+  return match[1] === '-' ? -value : value;
+}
+
+/**
+ * Print a viewport exactly, e.g. "re=-0.75 im=0.1 zoom=1e-20"
+ */
+export function formatViewport(viewport: PreciseViewport): string {
+  return `re=${formatFixed(viewport.x, viewport.bits)} im=${formatFixed(viewport.y, viewport.bits)} zoom=${viewport.zoom}`;
+}
+
+/**
+ * Read a viewport printed by formatViewport; null when the text is not one
+ * Every digit given is kept, so printed viewports come back unchanged
+ */
+export function parseViewport(text: string): PreciseViewport | null {
+  const field = (name: string) => text.match(new RegExp(`\\b${name}\\s*=\\s*(\\S+)`))?.[1];
+  const re = field('re');
+  const im = field('im');
+  const zoom = Number(field('zoom'));
+  if (re === undefined || im === undefined || !(zoom >= MIN_ZOOM) || !isFinite(zoom)) return null;
+
+  const fractionDigits = (value: string) => value.split('.')[1]?.length ?? 0;
+  const bits = Math.max(requiredBits(zoom), fractionDigits(re), fractionDigits(im));
+  const x = parseFixed(re, bits);
+  const y = parseFixed(im, bits);
+  if (x === null || y === null) return null;
+  return { x, y, bits, zoom };
+}
@@ -0,0 +1,19 @@
+/**
+ * Seeded pseudo-random numbers
+ * Analyses that sample the plane take a seed so a run can be repeated exactly.
+ */
+
+/** Uniform numbers in [0, 1) */
+export type RandomSource = () => number;
+
+/** Mulberry32: a small 32-bit generator, plenty for sampling; the same seed gives the same stream */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Progressive Buddhabrot renderer
+ * Keeps a pool of Web Workers sampling batches of orbits for the view, adds each batch's
+ * histogram into the running total and repaints it tone mapped, so the image refines for as
+ * long as it runs. Starting a new render cancels the one in flight.
+ */
+
+import { FormulaInputs } from '@/lib/fractals/formula-registry';
+import { renderBufferToCanvas } from '@/lib/utils/canvas-utils';
+import { accumulateBuddhabrot, BuddhabrotJob, BuddhabrotResult, toneMapBuddhabrot, ToneMapping } from './buddhabrot';
+import type { TileView } from './render-tile';
+
+export interface BuddhabrotRequest {
+  inputs: FormulaInputs;
+  view: TileView;
+  /** Iteration limit per channel; see BuddhabrotJob */
+  limits: number[];
+}
+
+export interface BuddhabrotRendererOptions {
+  /** Samples per worker job */
+  batchSize?: number;
+  /** Samples after which the render stops refining */
+  maxSamples?: number;
+  /** Worker count; defaults to one less than the core count */
+  workers?: number;
+  /** Called after each repaint with the samples accumulated so far */
+  onProgress?: (samples: number) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 20000;
+const DEFAULT_MAX_SAMPLES = 200000000;
+const MAX_WORKERS = 8;
+// Tone mapping the whole frame is not free; repaint at most this often
+const PAINT_INTERVAL_MS = 250;
+
+export class BuddhabrotRenderer {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private generation = 0;
+  private request: BuddhabrotRequest | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  // View of the accumulated histogram, kept after a cancel so the tone can still change
+  private view: TileView | null = null;
+  private histogram: Float32Array | null = null;
+  private samples = 0;
+  private dispatched = 0;
+  private mapping: ToneMapping = 'log';
+  private palette: Uint8Array = new Uint8Array(256 * 4);
+  private paintTimer: ReturnType<typeof setTimeout> | null = null;
+  private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly batchSize: number;
+  private readonly maxSamples: number;
+  private readonly onProgress?: (samples: number) => void;
+
+  constructor(options: BuddhabrotRendererOptions = {}) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxSamples = options.maxSamples ?? DEFAULT_MAX_SAMPLES;
+    this.onProgress = options.onProgress;
+
+    // Without worker support batches run on the main thread, one per task
+    if (typeof Worker === 'undefined') return;
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    const count = options.workers ?? Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(new URL('./buddhabrot.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<BuddhabrotResult>) => this.handleResult(worker, event.data);
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /** Start accumulating the view from nothing into the canvas context */
+  render(ctx: CanvasRenderingContext2D, request: BuddhabrotRequest): void {
+    this.cancel();
+    this.ctx = ctx;
+    this.request = request;
+    this.view = request.view;
+    this.histogram = new Float32Array(request.view.width * request.view.height * request.limits.length);
+    this.samples = 0;
+    this.dispatched = 0;
+    this.dispatch();
+  }
+
+  /** Change the tone mapping or palette (256 RGBA entries) and repaint what has accumulated */
+  setTone(mapping: ToneMapping, palette: Uint8Array): void {
+    this.mapping = mapping;
+    this.palette = palette;
+    this.schedulePaint();
+  }
+
+  /** Stop refining; the accumulated image stays */
+  cancel(): void {
+    this.generation++;
+    this.request = null;
+    if (this.fallbackTimer !== null) {
+      clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+  }
+
+  destroy(): void {
+    this.cancel();
+    if (this.paintTimer !== null) clearTimeout(this.paintTimer);
+    this.paintTimer = null;
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+  }
+
+  // Seeds follow the job order, so a render repeats exactly for the same view and inputs
+  private nextJob(): BuddhabrotJob | null {
+    if (!this.request || this.dispatched >= this.maxSamples) return null;
+    this.dispatched += this.batchSize;
+    return {
+      generation: this.generation,
+      inputs: this.request.inputs,
+      view: this.request.view,
+      limits: this.request.limits,
+      samples: this.batchSize,
+      seed: this.dispatched / this.batchSize,
+    };
+  }
+
+  private dispatch(): void {
+    if (this.workers.length === 0) {
+      if (this.fallbackTimer !== null) return;
+      // Yield between batches so the page stays responsive
+      this.fallbackTimer = setTimeout(() => {
+        this.fallbackTimer = null;
+        const job = this.nextJob();
+        if (!job) return;
+        this.accept(accumulateBuddhabrot(job));
+        this.dispatch();
+      }, 0);
+      return;
+    }
+    while (this.idle.length > 0) {
+      const job = this.nextJob();
+      if (!job) return;
+      this.idle.pop()!.postMessage(job);
+    }
+  }
+
+  private handleResult(worker: Worker, result: BuddhabrotResult): void {
+    this.idle.push(worker);
+    this.accept(result);
+    this.dispatch();
+  }
+
+  private accept(result: BuddhabrotResult): void {
+    if (result.generation !== this.generation || !this.histogram) return;
+    const total = this.histogram;
+    const batch = result.histogram;
+    for (let i = 0; i < batch.length; i++) total[i] += batch[i];
+    this.samples += result.samples;
+    this.schedulePaint();
+  }
+
+  private schedulePaint(): void {
+    if (this.paintTimer !== null) return;
+    this.paintTimer = setTimeout(() => {
+      this.paintTimer = null;
+      if (!this.ctx || !this.view || !this.histogram) return;
+      const { width, height } = this.view;
+      const pixels = toneMapBuddhabrot(this.histogram, width, height, this.mapping, this.palette);
+      renderBufferToCanvas(this.ctx, pixels, width, height);
+      this.onProgress?.(this.samples);
+    }, PAINT_INTERVAL_MS);
+  }
+}
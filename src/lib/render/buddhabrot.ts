@@ -0,0 +1,209 @@
+/**
+ * Buddhabrot and Nebulabrot accumulation
+ * Random c values are iterated from z0 and the orbits that escape are plotted into a hit
+ * histogram of the view. Each channel has its own iteration limit and takes the orbits that
+ * escape within it: one channel is the Buddhabrot, three give the Nebulabrot's red, green and
+ * blue. Samples are drawn mostly from cells on the set's boundary, where the long escaping
+ * orbits start, and weighted by the inverse of that density so the histogram stays unbiased.
+ */
+
+import { bindFormula, FormulaInputs, FormulaOrbiter, FRACTAL_FORMULAS } from '@/lib/fractals/formula-registry';
+import { createRandom } from '@/lib/math/random';
+import type { TileView } from './render-tile';
+
+export interface BuddhabrotJob {
+  /** Render pass the job belongs to; results from cancelled passes are dropped */
+  generation: number;
+  /** Mandelbrot inputs: z0, the c offset and the exponent x */
+  inputs: FormulaInputs;
+  view: TileView;
+  /** Iteration limit of each channel: one for the Buddhabrot, red, green and blue for the Nebulabrot */
+  limits: number[];
+  samples: number;
+  seed: number;
+}
+
+export interface BuddhabrotResult {
+  generation: number;
+  width: number;
+  height: number;
+  /** Weighted hits, one width x height plane per channel */
+  histogram: Float32Array;
+  samples: number;
+}
+
+export type ToneMapping = 'log' | 'histogram';
+
+// Share of samples drawn from the boundary cells; the rest cover the whole region
+const IMPORTANCE_SHARE = 0.8;
+// Cells along each side of the importance grid
+const IMPORTANCE_GRID = 256;
+// Iterations used to tell the grid's cells in from out
+const IMPORTANCE_ITERATIONS = 1000;
+// Radius around -c (the c slider's offset) sampled: Multibrot sets lie within |c| <= 2
+const SAMPLE_RADIUS = 2;
+const HISTOGRAM_BINS = 4096;
+
+interface ImportanceMap {
+  key: string;
+  /** 1 for cells whose centre is in the set while a neighbour's is not, or the reverse */
+  boundary: Uint8Array;
+  /** Indices of the boundary cells */
+  cells: Uint32Array;
+}
+
+// Workers sample the same map job after job; keep the last one
+let cachedMap: ImportanceMap | null = null;
+
+function importanceMap(orbiter: FormulaOrbiter, inputs: FormulaInputs, minRe: number, minIm: number): ImportanceMap {
+  const key = JSON.stringify([inputs.z, inputs.c, inputs.x]);
+  if (cachedMap?.key === key) return cachedMap;
+
+  const size = IMPORTANCE_GRID;
+  const cell = (2 * SAMPLE_RADIUS) / size;
+  const inside = new Uint8Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const orbit = orbiter.orbit({ re: minRe + (col + 0.5) * cell, im: minIm + (row + 0.5) * cell }, IMPORTANCE_ITERATIONS);
+      inside[row * size + col] = orbit.escaped ? 0 : 1;
+    }
+  }
+  const boundary = new Uint8Array(size * size);
+  const cells: number[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const i = row * size + col;
+      const differs =
+        (col > 0 && inside[i - 1] !== inside[i]) ||
+        (col + 1 < size && inside[i + 1] !== inside[i]) ||
+        (row > 0 && inside[i - size] !== inside[i]) ||
+        (row + 1 < size && inside[i + size] !== inside[i]);
+      if (differs) {
+        boundary[i] = 1;
+        cells.push(i);
+      }
+    }
+  }
+  cachedMap = { key, boundary, cells: Uint32Array.from(cells) };
+  return cachedMap;
+}
+
+/** Sample the job's c values and accumulate the escaping orbits */
+export function accumulateBuddhabrot(job: BuddhabrotJob): BuddhabrotResult {
+  const { generation, inputs, view, limits, samples } = job;
+  // The Mandelbrot has no typed equation, so it always binds
+  const orbiter = bindFormula(FRACTAL_FORMULAS.mandelbrot, inputs, { detectInterior: true })!;
+
+  const { width, height } = view;
+  const plane = width * height;
+  const histogram = new Float32Array(plane * limits.length);
+  const maxLimit = Math.max(...limits);
+  const ySign = view.yUp ? -1 : 1;
+
+  // Sample the square around the point whose c is 0
+  const minRe = -inputs.c.re - SAMPLE_RADIUS;
+  const minIm = -inputs.c.im - SAMPLE_RADIUS;
+  const cell = (2 * SAMPLE_RADIUS) / IMPORTANCE_GRID;
+  const map = importanceMap(orbiter, inputs, minRe, minIm);
+  const share = map.cells.length > 0 ? IMPORTANCE_SHARE : 0;
+  // Density of the mixture relative to uniform, inside and outside the boundary cells
+  const boundaryDensity = 1 - share + (share * IMPORTANCE_GRID * IMPORTANCE_GRID) / Math.max(1, map.cells.length);
+
+  const random = createRandom(job.seed);
+  const orbitPixels = new Int32Array(maxLimit + 1);
+  let length = 0;
+  const record = (z: { re: number; im: number }, iteration: number) => {
+    if (iteration === 0) return;
+    const col = Math.floor((z.re - view.centerX) / view.pixelSize + width / 2);
+    const row = Math.floor((z.im - view.centerY) / (ySign * view.pixelSize) + height / 2);
+    orbitPixels[length++] = col >= 0 && col < width && row >= 0 && row < height ? row * width + col : -1;
+  };
+
+  for (let s = 0; s < samples; s++) {
+    let re: number;
+    let im: number;
+    if (random() < share) {
+      const index = map.cells[Math.floor(random() * map.cells.length)];
+      re = minRe + ((index % IMPORTANCE_GRID) + random()) * cell;
+      im = minIm + (Math.floor(index / IMPORTANCE_GRID) + random()) * cell;
+    } else {
+      re = minRe + random() * 2 * SAMPLE_RADIUS;
+      im = minIm + random() * 2 * SAMPLE_RADIUS;
+    }
+    const col = Math.min(IMPORTANCE_GRID - 1, Math.floor((re - minRe) / cell));
+    const row = Math.min(IMPORTANCE_GRID - 1, Math.floor((im - minIm) / cell));
+    const weight = 1 / (map.boundary[row * IMPORTANCE_GRID + col] ? boundaryDensity : 1 - share);
+
+    length = 0;
+    const orbit = orbiter.orbit({ re, im }, maxLimit, record);
+    if (!orbit.escaped) continue;
+    for (let channel = 0; channel < limits.length; channel++) {
+      if (orbit.iterations > limits[channel]) continue;
+      const offset = channel * plane;
+      for (let i = 0; i < length; i++) {
+        if (orbitPixels[i] >= 0) histogram[offset + orbitPixels[i]] += weight;
+      }
+    }
+  }
+
+  return { generation, width, height, histogram, samples };
+}
+
+// Brightness in [0, 1] for each hit count of one channel
+function toneChannel(values: Float32Array, mapping: ToneMapping): Float32Array {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i];
+  const out = new Float32Array(values.length);
+  if (max <= 0) return out;
+  const logMax = Math.log1p(max);
+  if (mapping === 'log') {
+    for (let i = 0; i < values.length; i++) out[i] = Math.log1p(values[i]) / logMax;
+    return out;
+  }
+
+  // Histogram equalisation over log-spaced bins of the lit pixels
+  const bins = new Float64Array(HISTOGRAM_BINS);
+  let lit = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] <= 0) continue;
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((Math.log1p(values[i]) / logMax) * HISTOGRAM_BINS))]++;
+    lit++;
+  }
+  for (let b = 1; b < HISTOGRAM_BINS; b++) bins[b] += bins[b - 1];
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] <= 0) continue;
+    out[i] = bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((Math.log1p(values[i]) / logMax) * HISTOGRAM_BINS))] / lit;
+  }
+  return out;
+}
+
+/**
+ * RGBA pixels for an accumulated histogram: one channel through the palette's 256 RGBA
+ * entries, three channels as red, green and blue
+ */
+export function toneMapBuddhabrot(
+  histogram: Float32Array,
+  width: number,
+  height: number,
+  mapping: ToneMapping,
+  palette: Uint8Array
+): Uint8ClampedArray {
+  const plane = width * height;
+  const channels = histogram.length / plane;
+  const pixels = new Uint8ClampedArray(plane * 4);
+  const tones = Array.from({ length: channels }, (_, channel) => toneChannel(histogram.subarray(channel * plane, (channel + 1) * plane), mapping));
+  for (let i = 0; i < plane; i++) {
+    if (channels === 1) {
+      const entry = Math.min(255, Math.floor(tones[0][i] * 255)) * 4;
+      pixels[i * 4] = palette[entry];
+      pixels[i * 4 + 1] = palette[entry + 1];
+      pixels[i * 4 + 2] = palette[entry + 2];
+    } else {
+      pixels[i * 4] = tones[0][i] * 255;
+      pixels[i * 4 + 1] = tones[1][i] * 255;
+      pixels[i * 4 + 2] = tones[2][i] * 255;
+    }
+    pixels[i * 4 + 3] = 255;
+  }
+  return pixels;
+}
@@ -0,0 +1,11 @@
+/**
+ * Buddhabrot worker: accumulates each BuddhabrotJob it receives and posts the histogram back
+ */
+
+import { accumulateBuddhabrot, BuddhabrotJob } from './buddhabrot';
+
+self.addEventListener('message', (event: MessageEvent<BuddhabrotJob>) => {
+  const result = accumulateBuddhabrot(event.data);
+  // Hand the histogram over instead of copying it
+  self.postMessage(result, { transfer: [result.histogram.buffer] });
+});
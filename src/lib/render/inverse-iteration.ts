@@ -0,0 +1,93 @@
+/**
+ * Julia sets by the modified inverse iteration method (MIIM)
+ * The Julia set of z^2 + c is invariant under the two inverse branches +-sqrt(z - c), so the
+ * tree of preimages of a repelling fixed point fills it in. Preimages crowd into the parts
+ * escape time renders well, so a branch is pruned once its pixel has been hit often enough,
+ * leaving the budget for thin parts such as dendrites and Siegel disc boundaries.
+ */
+
+import { Complex, csqrt } from '@/lib/math/complex';
+import type { TileView } from './render-tile';
+
+export interface InverseIterationJob {
+  /** Render pass the job belongs to; results from superseded passes are dropped */
+  generation: number;
+  c: Complex;
+  view: TileView;
+  /** Preimages to visit at most */
+  budget: number;
+  /** Longest chain of preimages followed from the fixed point */
+  depth: number;
+  /** Hits a pixel takes before the branches through it are pruned */
+  maxHits?: number;
+}
+
+export interface DensityResult {
+  generation: number;
+  width: number;
+  height: number;
+  /** Hits per canvas pixel, row by row from the top */
+  counts: Uint32Array;
+  maxCount: number;
+  /** Preimages visited */
+  visited: number;
+}
+
+const DEFAULT_MAX_HITS = 16;
+// Pruning grid over the whole Julia set, for the preimages that fall outside the view
+const SET_GRID = 1024;
+
+/** Repelling fixed point of z^2 + c, which lies on the Julia set */
+export function repellingFixedPoint(c: Complex): Complex {
+  // (1 +- sqrt(1 - 4c)) / 2; the one with |2z| >= 1
+  const root = csqrt({ re: 1 - 4 * c.re, im: -4 * c.im });
+  const plus = { re: (1 + root.re) / 2, im: root.im / 2 };
+  const minus = { re: (1 - root.re) / 2, im: -root.im / 2 };
+  return Math.hypot(plus.re, plus.im) >= Math.hypot(minus.re, minus.im) ? plus : minus;
+}
+
+/** Walk the preimage tree depth first and count the hits on each pixel of the view */
+export function inverseIterationDensity(job: InverseIterationJob): DensityResult {
+  const { c, view, budget, depth, generation } = job;
+  const maxHits = job.maxHits ?? DEFAULT_MAX_HITS;
+  const { width, height } = view;
+  const counts = new Uint32Array(width * height);
+  const ySign = view.yUp ? -1 : 1;
+
+  // The Julia set lies within |z| <= 1/2 + sqrt(1/4 + |c|)
+  const radius = 0.5 + Math.sqrt(0.25 + Math.hypot(c.re, c.im));
+  const setCell = (2 * radius) / SET_GRID;
+  const setHits = new Uint32Array(SET_GRID * SET_GRID);
+
+  // Pending preimages as (re, im, depth) triples
+  const stack: number[] = [];
+  const start = repellingFixedPoint(c);
+  stack.push(start.re, start.im, 0);
+  let visited = 0;
+  let maxCount = 0;
+
+  while (stack.length > 0 && visited < budget) {
+    const level = stack.pop()!;
+    const im = stack.pop()!;
+    const re = stack.pop()!;
+    visited++;
+
+    let hits: number;
+    const col = Math.floor((re - view.centerX) / view.pixelSize + width / 2);
+    const row = Math.floor((im - view.centerY) / (ySign * view.pixelSize) + height / 2);
+    if (col >= 0 && col < width && row >= 0 && row < height) {
+      hits = ++counts[row * width + col];
+      if (hits > maxCount) maxCount = hits;
+    } else {
+      const setCol = Math.min(SET_GRID - 1, Math.max(0, Math.floor((re + radius) / setCell)));
+      const setRow = Math.min(SET_GRID - 1, Math.max(0, Math.floor((im + radius) / setCell)));
+      hits = ++setHits[setRow * SET_GRID + setCol];
+    }
+    if (hits > maxHits || level >= depth) continue;
+
+    const root = csqrt({ re: re - c.re, im: im - c.im });
+    stack.push(root.re, root.im, level + 1, -root.re, -root.im, level + 1);
+  }
+
+  return { generation, width, height, counts, maxCount, visited };
+}
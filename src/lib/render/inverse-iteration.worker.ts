@@ -0,0 +1,11 @@
+/**
+ * Inverse iteration worker: accumulates the density for each InverseIterationJob it receives
+ * and posts the counts back
+ */
+
+import { InverseIterationJob, inverseIterationDensity } from './inverse-iteration';
+
+self.addEventListener('message', (event: MessageEvent<InverseIterationJob>) => {
+  const result = inverseIterationDensity(event.data);
+  self.postMessage(result, { transfer: [result.counts.buffer] });
+});
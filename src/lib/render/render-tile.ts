@@ -0,0 +1,149 @@
+/**
+ * CPU rendering of one tile of a fractal image
+ * Runs inside the tile workers, or on the main thread where workers are unavailable
+ */
+
+import { bindFormula, FormulaInputs, FRACTAL_FORMULAS } from '@/lib/fractals/formula-registry';
+import { cabs2, Complex } from '@/lib/math/complex';
+import { createImageBuffer, setPixelColor } from '@/lib/utils/canvas-utils';
+import {
+  addAverageTerm,
+  AveragingOptions,
+  ColorMode,
+  createOrbitAverage,
+  DEFAULT_AVERAGING,
+  foldOrbitTrap,
+  getColor,
+  isAveragingMode,
+  OrbitTrap,
+  smoothAverage,
+  ToneOptions,
+  TRAP_MISS,
+} from '@/lib/utils/color-utils';
+
+/** Mapping from canvas pixels to the complex plane */
+export interface TileView {
+  /** Complex coordinate at the centre of the canvas */
+  centerX: number;
+  centerY: number;
+  /** Width of one pixel in the plane */
+  pixelSize: number;
+  /** Full canvas size in pixels */
+  width: number;
+  height: number;
+  /** Imaginary axis points up the screen, as in the shaders; down for plain canvas coordinates */
+  yUp: boolean;
+}
+
+export interface TileJob {
+  /** Render pass the tile belongs to; results from cancelled passes are dropped */
+  generation: number;
+  /** Key into FRACTAL_FORMULAS; functions cannot cross the worker boundary */
+  formulaKey: string;
+  inputs: FormulaInputs;
+  view: TileView;
+  maxIterations: number;
+  colorMode: ColorMode;
+  /** Palette of the atom-domain, orbit-trap and averaging modes, 256 RGBA entries from getPaletteColors */
+  palette?: Uint8Array;
+  /** Tone controls of the orbit-trap and averaging modes' palette lookups */
+  tone?: ToneOptions;
+  /** Stripe density and escape-time blend of the averaging colour modes */
+  averaging?: AveragingOptions;
+  /** Trap of the orbit-trap mode, and the picture of an image trap */
+  orbitTrap?: OrbitTrap;
+  trapImage?: ImageData;
+  /** Tile rectangle in canvas pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TileResult {
+  generation: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** RGBA pixels of the tile, or null when the formula did not compile */
+  pixels: Uint8ClampedArray | null;
+  /** Detected period per pixel, 0 where none was; null with pixels */
+  periods: Uint16Array | null;
+}
+
+/**
+ * Iterate every pixel centre of the tile and colour it by escape time
+ * Points that neither escape nor converge are left black unless colouring by atom domain or
+ * orbit trap; bounded orbits stop as soon as they are known to be interior, and their period
+ * is recorded
+ */
+export function renderTile(job: TileJob): TileResult {
+  const { generation, view, maxIterations, colorMode, x, y, width, height } = job;
+  const formula = FRACTAL_FORMULAS[job.formulaKey];
+  const orbiter = formula ? bindFormula(formula, job.inputs, { detectInterior: true }) : null;
+  if (!orbiter) return { generation, x, y, width, height, pixels: null, periods: null };
+
+  const pixels = createImageBuffer(width, height);
+  const periods = new Uint16Array(width * height);
+  const black = { r: 0, g: 0, b: 0 };
+  const ySign = view.yUp ? -1 : 1;
+
+  // Averaging and trap modes follow the orbit step by step; the other modes need only its end
+  const averagingMode = isAveragingMode(colorMode) ? colorMode : null;
+  const { stripeDensity, blend } = job.averaging ?? DEFAULT_AVERAGING;
+  let average = createOrbitAverage();
+  let c: Complex = { re: 0, im: 0 };
+  let zPrev: Complex = c;
+  let zPrev2: Complex = c;
+  const orbitTrap = colorMode === 'orbit-trap' ? job.orbitTrap : undefined;
+  let trap = TRAP_MISS;
+  const onStep = averagingMode
+    ? (z: Complex, step: number) => {
+        if (step > 0) addAverageTerm(average, averagingMode, step, z, zPrev, zPrev2, c, stripeDensity);
+        zPrev2 = zPrev;
+        zPrev = z;
+      }
+    : orbitTrap
+      ? (z: Complex, step: number) => {
+          if (step > 0) trap = foldOrbitTrap(orbitTrap, job.trapImage, z, trap);
+        }
+      : undefined;
+
+  for (let row = 0; row < height; row++) {
+    const im = view.centerY + ySign * (y + row + 0.5 - view.height / 2) * view.pixelSize;
+    for (let col = 0; col < width; col++) {
+      const re = view.centerX + (x + col + 0.5 - view.width / 2) * view.pixelSize;
+      if (averagingMode) {
+        average = createOrbitAverage();
+        c = formula.init({ re, im }, job.inputs).c;
+      }
+      trap = TRAP_MISS;
+      const orbit = orbiter.orbit({ re, im }, maxIterations, onStep);
+      const magnitude = Math.sqrt(cabs2(orbit.z));
+      let averageValue: number | undefined;
+      if (averagingMode && orbit.escaped) {
+        const smoothIterations = magnitude > 1 ? orbit.iterations + 1 - Math.log2(Math.log2(magnitude)) : orbit.iterations;
+        const escapeValue = Math.max(0, Math.min(1, smoothIterations / maxIterations));
+        averageValue = smoothAverage(average, orbit.z, escapeValue, blend, formula.bailout);
+      }
+      // Converged orbits have no average and keep their smooth colour
+      const mode = averagingMode && !orbit.escaped ? 'smooth' : colorMode;
+      const color = orbit.escaped || orbit.converged || colorMode === 'atom-domain' || colorMode === 'orbit-trap'
+        ? getColor(mode, orbit.iterations, maxIterations, isFinite(magnitude) ? magnitude : 0, {
+            palette: job.palette,
+            tone: job.tone,
+            atomDomain: orbit.atomDomain,
+            nearest: orbit.nearest,
+            trapShape: orbitTrap?.shape,
+            trap,
+            average: averageValue,
+          })
+        : black;
+      setPixelColor(pixels, col, row, width, color);
+      periods[row * width + col] = Math.min(orbit.period, 0xffff);
+    }
+  }
+
+  return { generation, x, y, width, height, pixels, periods };
+}
@@ -0,0 +1,12 @@
+/**
+ * Tile worker: renders each TileJob it receives and posts the pixels back
+ */
+
+import { renderTile, TileJob } from './render-tile';
+
+self.addEventListener('message', (event: MessageEvent<TileJob>) => {
+  const result = renderTile(event.data);
+  // Hand the buffers over instead of copying them
+  const transfer = result.pixels && result.periods ? [result.pixels.buffer, result.periods.buffer] : [];
+  self.postMessage(result, { transfer });
+});
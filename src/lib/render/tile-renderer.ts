@@ -0,0 +1,215 @@
+/**
+ * Tiled CPU fractal renderer
+ * Splits the canvas into tiles, renders them on a pool of Web Workers from the centre
+ * outwards and paints each batch as it arrives, so the image sharpens progressively.
+ * Starting a new render cancels the one in flight.
+ */
+
+import { FormulaInputs } from '@/lib/fractals/formula-registry';
+import { createImageBuffer, renderBufferToCanvas } from '@/lib/utils/canvas-utils';
+import { AveragingOptions, ColorMode, OrbitTrap, ToneOptions } from '@/lib/utils/color-utils';
+import { renderTile, TileJob, TileResult, TileView } from './render-tile';
+
+export interface TileRenderRequest {
+  formulaKey: string;
+  inputs: FormulaInputs;
+  view: TileView;
+  maxIterations: number;
+  colorMode?: ColorMode;
+  palette?: Uint8Array;
+  tone?: ToneOptions;
+  averaging?: AveragingOptions;
+  orbitTrap?: OrbitTrap;
+  trapImage?: ImageData;
+}
+
+export interface TileRendererOptions {
+  /** Tile edge in pixels */
+  tileSize?: number;
+  /** Worker count; defaults to one less than the core count */
+  workers?: number;
+  /** Called after each painted batch with the tiles done so far */
+  onProgress?: (done: number, total: number) => void;
+}
+
+const DEFAULT_TILE_SIZE = 64;
+const MAX_WORKERS = 8;
+
+export class TileRenderer {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: TileJob[] = [];
+  private generation = 0;
+  private done = 0;
+  private total = 0;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private buffer: Uint8ClampedArray | null = null;
+  private periods: Uint16Array | null = null;
+  private bufferWidth = 0;
+  private bufferHeight = 0;
+  private paintFrame: number | null = null;
+  private finish: ((completed: boolean) => void) | null = null;
+  private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly tileSize: number;
+  private readonly onProgress?: (done: number, total: number) => void;
+
+  constructor(options: TileRendererOptions = {}) {
+    this.tileSize = options.tileSize ?? DEFAULT_TILE_SIZE;
+    this.onProgress = options.onProgress;
+
+    // Without worker support tiles run on the main thread, one per task
+    if (typeof Worker === 'undefined') return;
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    const count = options.workers ?? Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(new URL('./render-tile.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<TileResult>) => this.handleResult(worker, event.data);
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /**
+   * Render the view into the canvas context
+   * Resolves true once every tile is painted, or false if the render was cancelled or the
+   * formula did not compile
+   */
+  render(ctx: CanvasRenderingContext2D, request: TileRenderRequest): Promise<boolean> {
+    this.cancel();
+    const generation = this.generation;
+    const { width, height } = request.view;
+
+    // Keep the previous frame under the new tiles when the size is unchanged
+    if (!this.buffer || this.bufferWidth !== width || this.bufferHeight !== height) {
+      this.buffer = createImageBuffer(width, height);
+      this.periods = new Uint16Array(width * height);
+      this.bufferWidth = width;
+      this.bufferHeight = height;
+    }
+    this.ctx = ctx;
+
+    const tiles: TileJob[] = [];
+    for (let y = 0; y < height; y += this.tileSize) {
+      for (let x = 0; x < width; x += this.tileSize) {
+        tiles.push({
+          generation,
+          formulaKey: request.formulaKey,
+          inputs: request.inputs,
+          view: request.view,
+          maxIterations: request.maxIterations,
+          colorMode: request.colorMode ?? 'smooth',
+          palette: request.palette,
+          tone: request.tone,
+          averaging: request.averaging,
+          orbitTrap: request.orbitTrap,
+          trapImage: request.trapImage,
+          x,
+          y,
+          width: Math.min(this.tileSize, width - x),
+          height: Math.min(this.tileSize, height - y),
+        });
+      }
+    }
+    // Centre tiles first: that is where the eye is
+    const distance = (tile: TileJob) => Math.hypot(tile.x + tile.width / 2 - width / 2, tile.y + tile.height / 2 - height / 2);
+    this.queue = tiles.sort((a, b) => distance(a) - distance(b));
+    this.done = 0;
+    this.total = tiles.length;
+
+    return new Promise((resolve) => {
+      this.finish = resolve;
+      if (this.total === 0) this.complete(true);
+      else this.dispatch();
+    });
+  }
+
+  /**
+   * Period of the interior cycle found at a canvas pixel of the last render, 0 where none was
+   * found or the pixel is not rendered yet
+   */
+  periodAt(x: number, y: number): number {
+    if (!this.periods || x < 0 || y < 0 || x >= this.bufferWidth || y >= this.bufferHeight) return 0;
+    return this.periods[Math.floor(y) * this.bufferWidth + Math.floor(x)];
+  }
+
+  /** Drop queued tiles and ignore results still in flight */
+  cancel(): void {
+    this.generation++;
+    this.queue = [];
+    if (this.fallbackTimer !== null) {
+      clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+    this.complete(false);
+  }
+
+  destroy(): void {
+    this.cancel();
+    if (this.paintFrame !== null) cancelAnimationFrame(this.paintFrame);
+    this.paintFrame = null;
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+  }
+
+  private dispatch(): void {
+    if (this.workers.length === 0) {
+      if (this.fallbackTimer !== null) return;
+      // Yield between tiles so the page stays responsive
+      this.fallbackTimer = setTimeout(() => {
+        this.fallbackTimer = null;
+        const job = this.queue.shift();
+        if (!job) return;
+        this.accept(renderTile(job));
+        if (this.queue.length > 0) this.dispatch();
+      }, 0);
+      return;
+    }
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      this.idle.pop()!.postMessage(this.queue.shift());
+    }
+  }
+
+  private handleResult(worker: Worker, result: TileResult): void {
+    this.idle.push(worker);
+    this.accept(result);
+    this.dispatch();
+  }
+
+  private accept(result: TileResult): void {
+    if (result.generation !== this.generation || !this.buffer) return;
+    if (!result.pixels || !result.periods) {
+      // The formula did not compile; every other tile would fail the same way
+      this.queue = [];
+      this.complete(false);
+      return;
+    }
+
+    // Copy the tile into the frame row by row
+    const rowBytes = result.width * 4;
+    for (let row = 0; row < result.height; row++) {
+      const target = ((result.y + row) * this.bufferWidth + result.x) * 4;
+      this.buffer.set(result.pixels.subarray(row * rowBytes, (row + 1) * rowBytes), target);
+      this.periods?.set(result.periods.subarray(row * result.width, (row + 1) * result.width), target / 4);
+    }
+    this.done++;
+    this.schedulePaint();
+    if (this.done === this.total) this.complete(true);
+  }
+
+  // Paint at most once per frame however many tiles arrived
+  private schedulePaint(): void {
+    if (this.paintFrame !== null) return;
+    this.paintFrame = requestAnimationFrame(() => {
+      this.paintFrame = null;
+      if (this.ctx && this.buffer) renderBufferToCanvas(this.ctx, this.buffer, this.bufferWidth, this.bufferHeight);
+      this.onProgress?.(this.done, this.total);
+    });
+  }
+
+  private complete(completed: boolean): void {
+    const finish = this.finish;
+    this.finish = null;
+    finish?.(completed);
+  }
+}
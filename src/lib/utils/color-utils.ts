@@ -3,6 +3,8 @@
  * Centralized color conversion and manipulation
  */
 
+import { cabs2, cdiv, Complex, csub } from '@/lib/math/complex';
+
 export interface RGBColor {
   r: number;
   g: number;
@@ -166,6 +168,94 @@ export function classicColor(iterations: number, maxIterations: number): RGBColo
   return hslToRgb(hue, 100, 50);
 }
 
+/**
+ * Create purple-blue-cyan color from the smooth escape count (Bernstein polynomial gradient)
+ */
+export function bernsteinColor(
+  iterations: number,
+  maxIterations: number,
+  finalMagnitude: number
+): RGBColor {
+  if (iterations >= maxIterations) {
+    return { r: 0, g: 0, b: 0 };
+  }
+
+  let smoothIter = iterations;
+  if (finalMagnitude > 1) {
+    smoothIter = iterations + 1 - Math.log2(Math.log2(finalMagnitude));
+  }
+
+  const t = Math.max(0, Math.min(1, smoothIter / maxIterations));
+  return {
+    r: Math.floor(9 * (1 - t) * t * t * t * 255),
+    g: Math.floor(15 * (1 - t) * (1 - t) * t * t * 255),
+    b: Math.floor(8.5 * (1 - t) * (1 - t) * (1 - t) * t * 255)
+  };
+}
+
+/**
+ * Palette entry at t in [0, 1], interpolated between neighbouring entries as the shaders'
+ * linearly filtered palette texture is
+ * palette holds 256 RGBA entries, as getPaletteColors gives them; without one it is a grey ramp
+ */
+export function paletteColor(palette: Uint8Array | undefined, t: number): RGBColor {
+  const u = Math.max(0, Math.min(1, t));
+  if (!palette) {
+    const grey = Math.round(u * 255);
+    return { r: grey, g: grey, b: grey };
+  }
+  const entries = palette.length / 4;
+  const position = Math.max(0, Math.min(entries - 1, u * entries - 0.5));
+  const i = Math.floor(position);
+  const j = Math.min(i + 1, entries - 1);
+  const f = position - i;
+  const channel = (k: number) => Math.round(palette[i * 4 + k] + (palette[j * 4 + k] - palette[i * 4 + k]) * f);
+  return { r: channel(0), g: channel(1), b: channel(2) };
+}
+
+/** Tone controls the shaders apply to palette lookups */
+export interface ToneOptions {
+  /** Exponent of the tone curve */
+  gamma: number;
+  /** Quantization bands; 0 is off */
+  bands: number;
+  /** Highlight band mixed toward white: its strength in [0, 1], and centre and width in palette position */
+  bandStrength: number;
+  bandCenter: number;
+  bandWidth: number;
+}
+
+export const DEFAULT_TONE: ToneOptions = { gamma: 1, bands: 0, bandStrength: 0, bandCenter: 0.5, bandWidth: 0.1 };
+
+/**
+ * Palette colour at t in [0, 1] through the tone controls, as the shaders' samplePalette:
+ * quantized into bands, bent by gamma, then lifted toward white around the highlight band
+ */
+export function samplePalette(palette: Uint8Array | undefined, t: number, tone: ToneOptions = DEFAULT_TONE): RGBColor {
+  let u = Math.max(0, Math.min(1, t));
+  if (tone.bands > 0) u = Math.floor(u * tone.bands) / tone.bands;
+  u = Math.pow(u, Math.max(tone.gamma, 0.0001));
+  const color = paletteColor(palette, u);
+  const band = Math.exp(-0.5 * Math.pow((u - tone.bandCenter) / Math.max(tone.bandWidth, 0.0001), 2));
+  const highlight = Math.max(0, Math.min(1, tone.bandStrength)) * band;
+  return {
+    r: Math.round(color.r + (255 - color.r) * highlight),
+    g: Math.round(color.g + (255 - color.g) * highlight),
+    b: Math.round(color.b + (255 - color.b) * highlight),
+  };
+}
+
+/**
+ * Create atom-domain color: a palette entry per step at which the orbit came closest to 0,
+ * spaced by the golden ratio so neighbouring periods stay apart, and brighter toward the
+ * domain's nucleus where that least |z|^2 (nearest) approaches 0
+ */
+export function atomDomainColor(palette: Uint8Array | undefined, domain: number, nearest: number): RGBColor {
+  const color = paletteColor(palette, (domain * 0.618034) % 1);
+  const shade = 0.5 + 0.5 * Math.max(0, Math.min(1, -Math.log(nearest) / 16));
+  return { r: Math.round(color.r * shade), g: Math.round(color.g * shade), b: Math.round(color.b * shade) };
+}
+
 /**
  * Write RGB color to image data
  */
@@ -181,20 +271,224 @@ export function writePixel(
   data[index + 3] = alpha;
 }
 
+/** Averaging colourings: an escaped orbit is coloured by the mean of a term taken at each step */
+export const AVERAGING_MODES = ['stripe-average', 'triangle-average', 'curvature-average'] as const;
+export type AveragingMode = (typeof AVERAGING_MODES)[number];
+
+export const isAveragingMode = (mode: string): mode is AveragingMode => (AVERAGING_MODES as readonly string[]).includes(mode);
+
+export type ColorMode = 'smooth' | 'histogram' | 'classic' | 'bernstein' | 'atom-domain' | 'orbit-trap' | AveragingMode;
+
+/** Colouring algorithms the escape-time shaders offer; a shader's uColoring is the index */
+export const COLORING_MODES = ['escape-time', 'atom-domain', 'orbit-trap', ...AVERAGING_MODES] as const;
+export type ColoringMode = (typeof COLORING_MODES)[number];
+
+export const COLORING_MODE_LABELS: Record<ColoringMode, string> = {
+  'escape-time': 'Escape time',
+  'atom-domain': 'Atom domains',
+  'orbit-trap': 'Orbit trap',
+  'stripe-average': 'Stripe average',
+  'triangle-average': 'Triangle inequality',
+  'curvature-average': 'Curvature average',
+};
+
+/** Settings of the averaging colourings */
+export interface AveragingOptions {
+  /** Stripes per turn of arg(z) in the stripe average */
+  stripeDensity: number;
+  /** 0 colours by the average alone, 1 by escape time alone */
+  blend: number;
+}
+
+export const DEFAULT_AVERAGING: AveragingOptions = { stripeDensity: 5, blend: 0 };
+
+/** Running sums of an averaging colouring, as the shaders keep them */
+export interface OrbitAverage {
+  sum: number;
+  /** Sum before the latest term, for interpolating between the last two steps */
+  sumBefore: number;
+  terms: number;
+}
+
+export const createOrbitAverage = (): OrbitAverage => ({ sum: 0, sumBefore: 0, terms: 0 });
+
+/**
+ * Fold step n of an orbit into its average: z is z_n, zPrev and zPrev2 the two before it and
+ * c the constant added at each step. Terms lie in [0, 1]:
+ * - stripe: 1/2 + sin(density * arg z_n) / 2
+ * - triangle inequality: where |z_n| falls between the bounds ||z_n - c| - |c|| and |z_n - c| + |c|
+ * - curvature: |arg((z_n - z_n-1) / (z_n-1 - z_n-2))| / pi
+ * The last two need earlier steps, so they start at step 2
+ */
+export function addAverageTerm(
+  average: OrbitAverage,
+  mode: AveragingMode,
+  step: number,
+  z: Complex,
+  zPrev: Complex,
+  zPrev2: Complex,
+  c: Complex,
+  stripeDensity: number
+): void {
+  let term: number;
+  if (mode === 'stripe-average') {
+    term = 0.5 + 0.5 * Math.sin(stripeDensity * Math.atan2(z.im, z.re));
+  } else if (step < 2) {
+    return;
+  } else if (mode === 'triangle-average') {
+    const image = Math.sqrt(cabs2(csub(z, c)));
+    const offset = Math.sqrt(cabs2(c));
+    const low = Math.abs(image - offset);
+    const high = image + offset;
+    term = high > low ? (Math.sqrt(cabs2(z)) - low) / (high - low) : 0;
+  } else {
+    const turn = cdiv(csub(z, zPrev), csub(zPrev, zPrev2));
+    term = Math.abs(Math.atan2(turn.im, turn.re)) / Math.PI;
+  }
+  if (!isFinite(term)) return;
+  average.sumBefore = average.sum;
+  average.sum += term;
+  average.terms++;
+}
+
+/**
+ * Palette position in [0, 1] of an escaped orbit's average
+ * The means with and without the last term are mixed by how far past the bailout (on |z|^2)
+ * the orbit landed, so the colour is continuous across escape-time bands; escapeValue is the
+ * normalized smooth escape time it is blended toward
+ */
+export function smoothAverage(
+  average: OrbitAverage,
+  z: Complex,
+  escapeValue: number,
+  blend: number,
+  bailout: number = 256
+): number {
+  if (average.terms < 2) return escapeValue;
+  const last = average.sum / average.terms;
+  const before = average.sumBefore / (average.terms - 1);
+  const fraction = Math.max(0, Math.min(1, Math.log2(Math.log(cabs2(z)) / Math.log(bailout))));
+  const value = last + (before - last) * (isFinite(fraction) ? fraction : 0);
+  return Math.max(0, Math.min(1, value + (escapeValue - value) * blend));
+}
+
+
+/** Orbit trap shapes; a shader's uTrapShape is the index */
+export const ORBIT_TRAP_SHAPES = ['point', 'line', 'cross', 'circle', 'image'] as const;
+export type OrbitTrapShape = (typeof ORBIT_TRAP_SHAPES)[number];
+
+export const ORBIT_TRAP_SHAPE_LABELS: Record<OrbitTrapShape, string> = {
+  point: 'Point',
+  line: 'Line',
+  cross: 'Cross',
+  circle: 'Circle',
+  image: 'Image',
+};
+
+/**
+ * Orbit trap in plane coordinates
+ * size is the circle's radius, the image's half width and the distance scale of the other
+ * shapes; angle turns the line, the cross and the image
+ */
+export interface OrbitTrap {
+  shape: OrbitTrapShape;
+  center: Complex;
+  size: number;
+  angle: number;
+}
+
+export const DEFAULT_ORBIT_TRAP: OrbitTrap = {
+  shape: 'point',
+  center: { re: 0, im: 0 },
+  size: 0.5,
+  angle: 0,
+};
+
+/** Trap value of an orbit that has not been caught yet */
+export const TRAP_MISS = 1e20;
+
+/**
+ * Fold z into an orbit's trap value, as the shaders do: for the shapes the least distance from
+ * z to the shape in units of the trap's size, for the image the brightness of the first opaque
+ * pixel the orbit lands on. image is the trap picture, drawn over the trap's square
+ */
+export function foldOrbitTrap(trap: OrbitTrap, image: ImageData | undefined, z: Complex, value: number): number {
+  const size = Math.max(trap.size, 1e-10);
+  const cos = Math.cos(trap.angle);
+  const sin = Math.sin(trap.angle);
+  const dx = z.re - trap.center.re;
+  const dy = z.im - trap.center.im;
+  const x = (dx * cos + dy * sin) / size;
+  const y = (dy * cos - dx * sin) / size;
+  if (trap.shape === 'image') {
+    if (!image || value < TRAP_MISS || Math.abs(x) > 1 || Math.abs(y) > 1) return value;
+    // The picture's top row is at the top of the square
+    const col = Math.min(image.width - 1, Math.floor(((x + 1) / 2) * image.width));
+    const row = Math.min(image.height - 1, Math.floor(((1 - y) / 2) * image.height));
+    const i = (row * image.width + col) * 4;
+    if (image.data[i + 3] < 128) return value;
+    return (0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]) / 255;
+  }
+  let gap: number;
+  if (trap.shape === 'point') gap = Math.hypot(x, y);
+  else if (trap.shape === 'line') gap = Math.abs(y);
+  else if (trap.shape === 'cross') gap = Math.min(Math.abs(x), Math.abs(y));
+  else gap = Math.abs(Math.hypot(x, y) - 1);
+  return Math.min(value, gap);
+}
+
+/**
+ * Trap value through the palette and tone controls, brighter the closer the orbit came;
+ * orbits that miss the image stay black
+ */
+export function orbitTrapColor(palette: Uint8Array | undefined, shape: OrbitTrapShape, value: number, tone?: ToneOptions): RGBColor {
+  if (value >= TRAP_MISS) return { r: 0, g: 0, b: 0 };
+  return samplePalette(palette, shape === 'image' ? value : Math.exp(-value), tone);
+}
+
+/** What the colour modes beyond escape time read, besides the escape count */
+export interface ColorDetails {
+  /** Palette the palette-based modes look colours up in, 256 RGBA entries from getPaletteColors */
+  palette?: Uint8Array;
+  /** Tone controls of the palette lookups, as the shaders' uniforms */
+  tone?: ToneOptions;
+  /** Atom domain step and the least |z|^2 reached there, for atom-domain */
+  atomDomain?: number;
+  nearest?: number;
+  /** Trap shape and the orbit's trap value from foldOrbitTrap, for orbit-trap */
+  trapShape?: OrbitTrapShape;
+  trap?: number;
+  /** Value from smoothAverage, for the averaging modes */
+  average?: number;
+}
+
 /**
  * Color mode selector
+ * atom-domain and orbit-trap color bounded points too; they and the averaging modes look their
+ * colour up in the palette, like the shaders
  */
 export function getColor(
-  mode: 'smooth' | 'histogram' | 'classic',
+  mode: ColorMode,
   iterations: number,
   maxIterations: number,
-  magnitude?: number
+  magnitude?: number,
+  details: ColorDetails = {}
 ): RGBColor {
   switch (mode) {
+    case 'atom-domain':
+      return atomDomainColor(details.palette, details.atomDomain ?? 0, details.nearest ?? Infinity);
+    case 'orbit-trap':
+      return orbitTrapColor(details.palette, details.trapShape ?? 'point', details.trap ?? TRAP_MISS, details.tone);
+    case 'stripe-average':
+    case 'triangle-average':
+    case 'curvature-average':
+      return samplePalette(details.palette, details.average ?? 0, details.tone);
     case 'smooth':
       return smoothColor(iterations, maxIterations, magnitude || 0);
     case 'histogram':
       return histogramColor(iterations, maxIterations);
+    case 'bernstein':
+      return bernsteinColor(iterations, maxIterations, magnitude || 0);
     case 'classic':
     default:
       return classicColor(iterations, maxIterations);
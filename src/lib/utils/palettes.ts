@@ -99,15 +99,17 @@ const PALETTES: Record<Exclude<PaletteName, 'sonic'>, string[]> = {
 
 const textureCache = new Map<PaletteName, THREE.DataTexture>();
 
+/** RGBA bytes of the palette's 256 entries, the same ramp the shaders sample, for CPU colouring */
+export function getPaletteColors(name: PaletteName): Uint8Array {
+  // Use special sonic palette builder, or standard gradient for others
+  return name === 'sonic' ? buildSonicPalette(256) : buildGradient(PALETTES[name], 256);
+}
+
 export function getPaletteTexture(name: PaletteName): THREE.DataTexture {
   const cached = textureCache.get(name);
   if (cached) return cached;
-  
-  // Use special sonic palette builder, or standard gradient for others
-  const data = name === 'sonic' 
-    ? buildSonicPalette(256) 
-    : buildGradient(PALETTES[name], 256);
-    
+
+  const data = getPaletteColors(name);
   const tex = new THREE.DataTexture(data, 256, 1, THREE.RGBAFormat);
   tex.needsUpdate = true;
   tex.magFilter = THREE.LinearFilter;
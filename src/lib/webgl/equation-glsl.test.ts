@@ -0,0 +1,34 @@
+import { parseEquationAst } from '@/lib/math/equation-parser';
+import { compileEquationToGlsl, compileProgramToGlsl, glslFloat } from './equation-glsl';
+
+describe('glslFloat', () => {
+  it('always prints a float literal', () => {
+    expect(glslFloat(1)).toBe('1.0');
+    expect(glslFloat(0.25)).toBe('0.25');
+    expect(glslFloat(1e-30)).toBe('1e-30');
+  });
+});
+
+describe('compileEquationToGlsl', () => {
+  it('emits one temporary per operation', () => {
+    expect(compileEquationToGlsl(parseEquationAst('z^2 + c').ast!)).toEqual({
+      statements: ['vec2 t0 = cmul(z, z);', 'vec2 t1 = t0 + c;'],
+      result: 't1',
+    });
+  });
+
+  it('throws on symbols the shaders do not know', () => {
+    expect(() => compileEquationToGlsl(parseEquationAst('z + q').ast!)).toThrow("Unknown symbol 'q'");
+  });
+});
+
+describe('compileProgramToGlsl', () => {
+  it('turns helpers into functions, lets into locals and clauses into conditions', () => {
+    const { ast, definitions, conditions } = parseEquationAst('def sq(w) = w*w; let k = c; sq(z) + k escape |z| > 4');
+    const program = compileProgramToGlsl(ast!, definitions, conditions);
+    expect(program.functions).toContain('vec2 fn_sq(vec2 p_w, vec2 z, vec2 zPrev, vec2 c)');
+    expect(program.step.statements).toEqual(['vec2 l_k = c;', 'vec2 t0 = fn_sq(z, z, zPrev, c);', 'vec2 t1 = t0 + l_k;']);
+    expect(program.escape?.result).toBe('(e0.x > 4.0)');
+    expect(program.until).toBeNull();
+  });
+});
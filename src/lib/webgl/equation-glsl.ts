@@ -0,0 +1,352 @@
+/**
+ * GLSL code generation for parsed fractal equations
+ * Lowers an equation AST to vec2 complex arithmetic using the shared shader helpers
+ */
+
+import {
+  ConditionNode,
+  EquationDefinition,
+  EquationNode,
+  ParameterDeclaration,
+  StopConditions,
+} from '@/lib/math/equation-parser';
+
+export interface GlslEquation {
+  /** Statements computing intermediate values, one temporary per compound node */
+  statements: string[];
+  /** vec2 expression holding the final value */
+  result: string;
+}
+
+/**
+ * How each equation symbol maps onto shader values
+ */
+export const DEFAULT_GLSL_SYMBOLS: Record<string, string> = {
+  z: 'z',
+  zPrev: 'zPrev',
+  c: 'c',
+  x: 'uX',
+  n: 'vec2(uPower, 0.0)',
+  i: 'vec2(0.0, 1.0)',
+  pi: 'vec2(3.14159265, 0.0)',
+  e: 'vec2(2.71828183, 0.0)',
+};
+
+/**
+ * Uniform holding a declared parameter, e.g. uParam_a for `a: real`
+ */
+export const parameterUniform = (name: string): string => `uParam_${name}`;
+
+/**
+ * Symbol table with declared parameters bound to their uniforms
+ */
+export function parameterSymbols(declarations: ParameterDeclaration[]): Record<string, string> {
+  const symbols = { ...DEFAULT_GLSL_SYMBOLS };
+  declarations.forEach((decl) => {
+    symbols[decl.name] = parameterUniform(decl.name);
+  });
+  return symbols;
+}
+
+/**
+ * Uniform declarations for the parameters; real ones are vec2 too, with a zero imaginary part
+ */
+export function parameterUniformSource(declarations: ParameterDeclaration[]): string {
+  return declarations.map((decl) => `uniform vec2 ${parameterUniform(decl.name)}; // ${decl.type} [${decl.min}, ${decl.max}]`).join('\n');
+}
+
+// Largest integer exponent expanded into repeated multiplication instead of cpow
+const MAX_UNROLLED_POWER = 8;
+
+/**
+ * Format a number as a GLSL float literal
+ */
+export function glslFloat(value: number): string {
+  if (!isFinite(value)) throw new Error(`Cannot represent ${value} in GLSL`);
+  const text = String(value);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+}
+
+// Real constant value of a node, if it is a plain (possibly negated) number
+function realConstant(node: EquationNode): number | null {
+  if (node.type === 'number') return node.value;
+  if (node.type === 'unary' && node.operand.type === 'number') return -node.operand.value;
+  return null;
+}
+
+const UNARY_FUNCTIONS: Record<string, (a: string) => string> = {
+  sin: (a) => `csin(${a})`,
+  cos: (a) => `ccos(${a})`,
+  tan: (a) => `cdiv(csin(${a}), ccos(${a}))`,
+  sinh: (a) => `csinh(${a})`,
+  cosh: (a) => `ccosh(${a})`,
+  tanh: (a) => `cdiv(csinh(${a}), ccosh(${a}))`,
+  exp: (a) => `cexp(${a})`,
+  log: (a) => `clog(${a})`,
+  sqrt: (a) => `csqrt(${a})`,
+  abs: (a) => `cmod(${a})`,
+  conj: (a) => `vec2(${a}.x, -${a}.y)`,
+  Re: (a) => `vec2(${a}.x, 0.0)`,
+  Im: (a) => `vec2(${a}.y, 0.0)`,
+  arg: (a) => `carg(${a})`,
+};
+
+// Emits SSA temporaries for expressions and conditions into one statement list
+function createGlslEmitter(symbols: Record<string, string>, helpers: Record<string, string>, tempPrefix: string) {
+  const statements: string[] = [];
+  let tempCount = 0;
+
+  const temp = (expression: string): string => {
+    const name = `${tempPrefix}${tempCount++}`;
+    statements.push(`vec2 ${name} = ${expression};`);
+    return name;
+  };
+
+  // Square-and-multiply so z^8 costs three cmul calls
+  const integerPower = (base: string, exponent: number): string => {
+    if (exponent === 0) return 'vec2(1.0, 0.0)';
+    if (exponent < 0) return temp(`cdiv(vec2(1.0, 0.0), ${integerPower(base, -exponent)})`);
+    let result: string | null = null;
+    let square = base;
+    let remaining = exponent;
+    while (remaining > 0) {
+      if (remaining & 1) result = result ? temp(`cmul(${result}, ${square})`) : square;
+      remaining >>= 1;
+      if (remaining > 0) square = temp(`cmul(${square}, ${square})`);
+    }
+    return result as string;
+  };
+
+  const emit = (node: EquationNode): string => {
+    switch (node.type) {
+      case 'number':
+        return `vec2(${glslFloat(node.value)}, 0.0)`;
+      case 'symbol': {
+        const mapped = symbols[node.name];
+        if (!mapped) throw new Error(`Unknown symbol '${node.name}'`);
+        return mapped;
+      }
+      case 'unary': {
+        const constant = realConstant(node);
+        if (constant !== null) return `vec2(${glslFloat(constant)}, 0.0)`;
+        return temp(`-${emit(node.operand)}`);
+      }
+      case 'binary': {
+        const leftConstant = realConstant(node.left);
+        const rightConstant = realConstant(node.right);
+        if (node.op === '^') {
+          const base = emit(node.left);
+          if (rightConstant !== null && Number.isInteger(rightConstant) && Math.abs(rightConstant) <= MAX_UNROLLED_POWER) {
+            return integerPower(base, rightConstant);
+          }
+          return temp(`cpow(${base}, ${emit(node.right)})`);
+        }
+        const left = emit(node.left);
+        const right = emit(node.right);
+        switch (node.op) {
+          case '+':
+            return temp(`${left} + ${right}`);
+          case '-':
+            return temp(`${left} - ${right}`);
+          case '*':
+            // Real factors scale componentwise
+            if (leftConstant !== null) return temp(`${glslFloat(leftConstant)} * ${right}`);
+            if (rightConstant !== null) return temp(`${left} * ${glslFloat(rightConstant)}`);
+            return temp(`cmul(${left}, ${right})`);
+          case '/':
+            if (rightConstant !== null && rightConstant !== 0) return temp(`${left} / ${glslFloat(rightConstant)}`);
+            return temp(`cdiv(${left}, ${right})`);
+        }
+        break;
+      }
+      case 'call': {
+        const helper = helpers[node.name];
+        if (helper) {
+          // Helpers also receive the iteration state their bodies may reference
+          return temp(`${helper}(${[...node.args.map(emit), 'z', 'zPrev', 'c'].join(', ')})`);
+        }
+        const fn = UNARY_FUNCTIONS[node.name];
+        if (!fn) throw new Error(`Unsupported function '${node.name}'`);
+        if (node.args.length !== 1) throw new Error(`${node.name}() takes 1 argument`);
+        // Functions reference their argument more than once, so pin it to a temporary
+        const value = emit(node.args[0]);
+        const arg = /^\w+$/.test(value) ? value : temp(value);
+        return temp(fn(arg));
+      }
+      case 'if': {
+        // Both branches are computed; the select keeps the shader free of divergent control flow
+        const condition = emitCondition(node.condition);
+        return temp(`${condition} ? ${emit(node.then)} : ${emit(node.otherwise)}`);
+      }
+    }
+    throw new Error('Unsupported expression');
+  };
+
+  // Comparisons use the real parts; real literals compare as plain floats
+  const operand = (node: EquationNode): string => {
+    const value = emit(node);
+    const real = value.match(/^vec2\((-?[\d.e+-]+), 0\.0\)$/);
+    return real ? real[1] : `${value}.x`;
+  };
+
+  const emitCondition = (node: ConditionNode): string => {
+    if (node.type === 'logical') {
+      return `(${emitCondition(node.left)} ${node.op === 'and' ? '&&' : '||'} ${emitCondition(node.right)})`;
+    }
+    return `(${operand(node.left)} ${node.op} ${operand(node.right)})`;
+  };
+
+  return { statements, emit, emitCondition };
+}
+
+/**
+ * Compile an equation AST to GLSL statements
+ * Throws on symbols or functions the shaders cannot evaluate
+ */
+export function compileEquationToGlsl(
+  ast: EquationNode,
+  symbols: Record<string, string> = DEFAULT_GLSL_SYMBOLS,
+  tempPrefix = 't',
+  helpers: Record<string, string> = {}
+): GlslEquation {
+  const emitter = createGlslEmitter(symbols, helpers, tempPrefix);
+  const result = emitter.emit(ast);
+  return { statements: emitter.statements, result };
+}
+
+/**
+ * Compile a stop condition to GLSL statements and a bool expression
+ * Comparisons use the real parts of both sides
+ */
+export function compileConditionToGlsl(
+  condition: ConditionNode,
+  symbols: Record<string, string> = DEFAULT_GLSL_SYMBOLS,
+  tempPrefix = 'k',
+  helpers: Record<string, string> = {}
+): GlslEquation {
+  const emitter = createGlslEmitter(symbols, helpers, tempPrefix);
+  const result = emitter.emitCondition(condition);
+  return { statements: emitter.statements, result };
+}
+
+export interface GlslProgram {
+  /** Helper functions from def definitions, placed before the step function */
+  functions: string;
+  /** Step body: one local per let, then the next z */
+  step: GlslEquation;
+  /** Escape clause, or null for the default |z|^2 >= 256 */
+  escape: GlslEquation | null;
+  until: GlslEquation | null;
+}
+
+/**
+ * Compile an iteration with its definitions and stop clauses
+ * Helpers become functions of their parameters plus (z, zPrev, c); lets become locals of
+ * the step, so stop clauses may call helpers but not read lets
+ */
+export function compileProgramToGlsl(
+  ast: EquationNode,
+  definitions: EquationDefinition[],
+  conditions: StopConditions,
+  symbols: Record<string, string> = DEFAULT_GLSL_SYMBOLS
+): GlslProgram {
+  const helpers: Record<string, string> = {};
+  const functions: string[] = [];
+  definitions.forEach((definition) => {
+    if (definition.kind !== 'def') return;
+    const scope = { ...symbols };
+    definition.params.forEach((param) => { scope[param] = `p_${param}`; });
+    const body = compileEquationToGlsl(definition.body, scope, 't', helpers);
+    const params = [...definition.params.map((param) => `vec2 p_${param}`), 'vec2 z', 'vec2 zPrev', 'vec2 c'];
+    helpers[definition.name] = `fn_${definition.name}`;
+    functions.push(`vec2 fn_${definition.name}(${params.join(', ')}) {
+    ${body.statements.join('\n    ')}
+    return ${body.result};
+}`);
+  });
+
+  // Lets share the step's statement list, each read back through its local
+  const stepSymbols = { ...symbols };
+  const emitter = createGlslEmitter(stepSymbols, helpers, 't');
+  definitions.forEach((definition) => {
+    if (definition.kind !== 'let') return;
+    const value = emitter.emit(definition.value);
+    emitter.statements.push(`vec2 l_${definition.name} = ${value};`);
+    stepSymbols[definition.name] = `l_${definition.name}`;
+  });
+  const step = { statements: emitter.statements, result: emitter.emit(ast) };
+
+  return {
+    functions: functions.join('\n\n'),
+    step,
+    escape: conditions.escape && compileConditionToGlsl(conditions.escape, symbols, 'e', helpers),
+    until: conditions.until && compileConditionToGlsl(conditions.until, symbols, 'u', helpers),
+  };
+}
+
+interface DegreeEstimate {
+  constant: number;
+  /** Multiples of |x| when the exponent slider is involved (z^x) */
+  exponent: number;
+}
+
+/**
+ * Estimate the polynomial degree of an equation in z, for smooth escape colouring
+ * Returns a GLSL float expression, or null when the growth is not polynomial
+ */
+export function estimateEscapeDegree(ast: EquationNode): string | null {
+  const degree = (node: EquationNode): DegreeEstimate | null => {
+    switch (node.type) {
+      case 'number':
+        return { constant: 0, exponent: 0 };
+      case 'symbol':
+        return { constant: node.name === 'z' ? 1 : 0, exponent: 0 };
+      case 'unary':
+        return degree(node.operand);
+      case 'binary': {
+        const left = degree(node.left);
+        const right = degree(node.right);
+        if (!left || !right) return null;
+        switch (node.op) {
+          case '+':
+          case '-':
+            return (left.constant + left.exponent) >= (right.constant + right.exponent) ? left : right;
+          case '*':
+            return { constant: left.constant + right.constant, exponent: left.exponent + right.exponent };
+          case '/':
+            return { constant: left.constant - right.constant, exponent: left.exponent - right.exponent };
+          case '^': {
+            if (right.constant !== 0 || right.exponent !== 0) return null;
+            const k = realConstant(node.right);
+            if (k !== null) return { constant: left.constant * k, exponent: left.exponent * k };
+            if (node.right.type === 'symbol' && node.right.name === 'x' && left.exponent === 0) {
+              return { constant: 0, exponent: left.constant };
+            }
+            return null;
+          }
+        }
+        return null;
+      }
+      case 'if': {
+        // Only a shared degree survives a branch
+        const then = degree(node.then);
+        const otherwise = degree(node.otherwise);
+        if (!then || !otherwise) return null;
+        return then.constant === otherwise.constant && then.exponent === otherwise.exponent ? then : null;
+      }
+      case 'call': {
+        const arg = degree(node.args[0]);
+        if (!arg) return null;
+        if (['abs', 'conj', 'Re', 'Im'].includes(node.name)) return arg;
+        if (node.name === 'sqrt') return { constant: arg.constant / 2, exponent: arg.exponent / 2 };
+        // Transcendental functions of z do not grow polynomially
+        return arg.constant === 0 && arg.exponent === 0 ? arg : null;
+      }
+    }
+  };
+
+  const estimate = degree(ast);
+  if (!estimate) return null;
+  if (estimate.exponent === 0) return glslFloat(estimate.constant);
+  return `${glslFloat(estimate.constant)} + ${glslFloat(estimate.exponent)} * length(uX)`;
+}
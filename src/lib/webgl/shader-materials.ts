@@ -5,6 +5,44 @@
 
 import * as THREE from 'three';
 import { getPaletteTexture, DEFAULT_PALETTE } from '@/lib/utils/palettes';
+import {
+  collectSymbols,
+  EquationDefinition,
+  EquationNode,
+  expandDefinitions,
+  formatCondition,
+  formatDefinition,
+  formatEquation,
+  ParameterDeclaration,
+  parseEquationAst,
+  StopConditions,
+} from '@/lib/math/equation-parser';
+import { differentiate } from '@/lib/math/equation-derivative';
+import { MAX_NEWTON_ROOTS, NEWTON_TOLERANCE } from '@/lib/math/newton';
+import {
+  PerturbationKind,
+  REFERENCE_ORBIT_CAPACITY,
+  REFERENCE_TEXTURE_HEIGHT,
+  REFERENCE_TEXTURE_WIDTH,
+} from '@/lib/fractals/perturbation';
+import { SERIES_TERMS, SeriesTerm } from '@/lib/fractals/series-approximation';
+import {
+  compileEquationToGlsl,
+  compileProgramToGlsl,
+  estimateEscapeDegree,
+  glslFloat,
+  GlslEquation,
+  GlslProgram,
+  parameterSymbols,
+  parameterUniform,
+  parameterUniformSource,
+} from './equation-glsl';
+
+/**
+ * Largest MAX_ITERS the renderer recompiles a shader's loop to; the shaders are built with
+ * a smaller one and grow on demand, and the iterations slider stops here
+ */
+export const MAX_SHADER_ITERATIONS = 20000;
 
 export interface ShaderUniforms {
   time: { value: number };
@@ -22,12 +60,29 @@ export interface ShaderUniforms {
         uInteriorColor: { value: THREE.Vector3 };
         uInteriorEnabled: { value: number };
                 uBands: { value: number };
+        uColoring: { value: number };
+        uTrapShape: { value: number };
+        uTrapCenter: { value: THREE.Vector2 };
+        uTrapAxis: { value: THREE.Vector2 };
+        uTrapImage: { value: THREE.Texture };
+        uStripeDensity: { value: number };
+        uAverageBlend: { value: number };
         uZ0: { value: THREE.Vector2 };
         uC: { value: THREE.Vector2 };
         uX: { value: THREE.Vector2 };
   [uniform: string]: { value: unknown };
 }
 
+// Transparent stand-in until an image trap is loaded; every material samples the same one
+let blankTrapImage: THREE.DataTexture | null = null;
+export const getBlankTrapImage = (): THREE.DataTexture => {
+  if (!blankTrapImage) {
+    blankTrapImage = new THREE.DataTexture(new Uint8Array(4), 1, 1, THREE.RGBAFormat);
+    blankTrapImage.needsUpdate = true;
+  }
+  return blankTrapImage;
+};
+
 const createDefaultUniforms = (): ShaderUniforms => ({
   time: { value: 1.0 },
   resolution: { value: new THREE.Vector2(1, 1) },
@@ -44,6 +99,13 @@ const createDefaultUniforms = (): ShaderUniforms => ({
         uInteriorColor: { value: new THREE.Vector3(0.04, 0.09, 0.18) },
         uInteriorEnabled: { value: 1 },
         uBands: { value: 0 },
+        uColoring: { value: 0 },
+        uTrapShape: { value: 0 },
+        uTrapCenter: { value: new THREE.Vector2(0.0, 0.0) },
+        uTrapAxis: { value: new THREE.Vector2(0.5, 0.0) },
+        uTrapImage: { value: getBlankTrapImage() },
+        uStripeDensity: { value: 5.0 },
+        uAverageBlend: { value: 0.0 },
         uPower: { value: 2.0 },
         uZ0: { value: new THREE.Vector2(0.0, 0.0) },
         uC: { value: new THREE.Vector2(0.0, 0.0) },
@@ -83,6 +145,13 @@ uniform float uBandStrength; // mix amount for white band
 uniform vec3 uInteriorColor; // color for interior points
 uniform int uInteriorEnabled; // 1 to color interior, 0 to keep black
 uniform int uBands; // optional quantization bands (0 = off)
+uniform int uColoring; // colouring algorithm, an index into COLORING_MODES
+uniform int uTrapShape; // orbit trap shape, an index into ORBIT_TRAP_SHAPES
+uniform vec2 uTrapCenter; // orbit trap centre in the plane
+uniform vec2 uTrapAxis; // orbit trap size times (cos angle, sin angle)
+uniform sampler2D uTrapImage; // image for the image trap, drawn over its square
+uniform float uStripeDensity; // stripes per turn of arg(z) in the stripe average
+uniform float uAverageBlend; // averaging colourings: 0 = average only, 1 = escape time only
 // Equation parameterization
 uniform float uPower; // exponent for z^n when 'n' is used in equation
 uniform vec2 uZ0; // Initial z value (for Julia set mode)
@@ -185,6 +254,11 @@ vec2 ccos(vec2 z){ return vec2(cos(z.x)*coshGL(z.y), -sin(z.x)*sinhGL(z.y)); }
 vec2 carg(vec2 z){ return vec2(atan(z.y, z.x), 0.0); }
 // Componentwise absolute (Burning Ship style)
 vec2 cabs(vec2 z){ return vec2(abs(z.x), abs(z.y)); }
+// Complex hyperbolic sine and cosine
+vec2 csinh(vec2 z){ return vec2(sinhGL(z.x)*cos(z.y), coshGL(z.x)*sin(z.y)); }
+vec2 ccosh(vec2 z){ return vec2(coshGL(z.x)*cos(z.y), sinhGL(z.x)*sin(z.y)); }
+// Principal complex square root
+vec2 csqrt(vec2 z){ float r = length(z); return vec2(sqrt(0.5*(r+z.x)), sign(z.y + 1e-30)*sqrt(max(0.5*(r-z.x), 0.0))); }
 
 // Smooth escape time coloring
 float smoothEscape(int iter, vec2 z) {
@@ -192,6 +266,123 @@ float smoothEscape(int iter, vec2 z) {
     return nu / float(uIters);
 }
 
+// --- Interior detection ---
+// Squared distance under which an orbit counts as back at its saved point
+#define PERIOD_EPSILON 1e-12
+
+// Brent cycle detection: compare z with the point saved at the last power-of-two step.
+// Returns the period once the orbit repeats, 0 until then
+int periodCheck(vec2 z, int i, inout vec2 saved, inout int savedAt, inout int window) {
+    vec2 d = z - saved;
+    if (dot(d, d) < PERIOD_EPSILON) return i - savedAt;
+    if (i - savedAt == window) {
+        saved = z;
+        savedAt = i;
+        window *= 2;
+    }
+    return 0;
+}
+
+// Period of the main cardioid (1) or the period-2 bulb (2) of z^2 + c containing c; 0 outside both
+int mandelbrotComponent(vec2 c) {
+    float x = c.x - 0.25;
+    float q = x * x + c.y * c.y;
+    if (q * (q + x) <= 0.25 * c.y * c.y) return 1;
+    vec2 bulb = c + vec2(1.0, 0.0);
+    if (dot(bulb, bulb) <= 0.0625) return 2;
+    return 0;
+}
+
+// --- Colouring algorithms ---
+#define COLORING_ATOM_DOMAIN 1
+
+// Atom domain colouring: a palette entry per step at which |z| was smallest, brighter
+// toward the domain's nucleus where that minimum approaches 0
+vec3 atomDomainColor(int domain, float nearest) {
+    vec3 col = paletteColor(fract(float(domain) * 0.618034));
+    return col * (0.5 + 0.5 * clamp(-log(nearest) / 16.0, 0.0, 1.0));
+}
+
+#define COLORING_ORBIT_TRAP 2
+#define TRAP_POINT 0
+#define TRAP_LINE 1
+#define TRAP_CROSS 2
+#define TRAP_IMAGE 4
+// Trap value of an orbit that has not been caught yet
+#define TRAP_MISS 1e20
+
+// Orbit trap colouring: fold each z of the orbit into its trap value. For the shapes that is
+// the least distance from z to the shape in units of the trap's size; for the image it is the
+// brightness of the first opaque texel the orbit lands on
+float orbitTrap(vec2 z, float trap) {
+    float size = max(length(uTrapAxis), 1e-10);
+    vec2 axis = uTrapAxis / size;
+    vec2 d = z - uTrapCenter;
+    vec2 local = vec2(dot(d, axis), axis.x * d.y - axis.y * d.x) / size;
+    if (uTrapShape == TRAP_IMAGE) {
+        if (trap < TRAP_MISS || abs(local.x) > 1.0 || abs(local.y) > 1.0) return trap;
+        vec4 texel = texture2D(uTrapImage, local * 0.5 + 0.5);
+        return texel.a < 0.5 ? trap : dot(texel.rgb, vec3(0.299, 0.587, 0.114));
+    }
+    float gap;
+    if (uTrapShape == TRAP_POINT) gap = length(local);
+    else if (uTrapShape == TRAP_LINE) gap = abs(local.y);
+    else if (uTrapShape == TRAP_CROSS) gap = min(abs(local.x), abs(local.y));
+    else gap = abs(length(local) - 1.0);
+    return min(trap, gap);
+}
+
+// Trap value through the palette and tone controls, brighter the closer the orbit came;
+// orbits that miss the image stay black
+vec3 orbitTrapColor(float trap) {
+    if (trap >= TRAP_MISS) return vec3(0.0);
+    return samplePalette(uTrapShape == TRAP_IMAGE ? trap : exp(-trap));
+}
+
+#define COLORING_STRIPE_AVERAGE 3
+#define COLORING_TRIANGLE_AVERAGE 4
+
+bool averagingColoring() { return uColoring >= COLORING_STRIPE_AVERAGE; }
+
+// Averaging colourings keep vec3(sum of terms, sum before the last term, terms). Step i adds a
+// term in [0, 1]: the stripe 1/2 + sin(density arg z)/2, where |z| falls between the triangle
+// inequality's bounds ||z - c| - |c|| and |z - c| + |c|, or how sharply the orbit turned at
+// z_(i-1). The last two need earlier steps, so they start at step 2
+vec3 addAverageTerm(vec3 average, int i, vec2 z, vec2 zPrev, vec2 zPrev2, vec2 c) {
+    float term;
+    if (uColoring == COLORING_STRIPE_AVERAGE) {
+        term = 0.5 + 0.5 * sin(uStripeDensity * atan(z.y, z.x));
+    } else if (i < 2) {
+        return average;
+    } else if (uColoring == COLORING_TRIANGLE_AVERAGE) {
+        float image = length(z - c);
+        float offset = length(c);
+        float low = abs(image - offset);
+        float high = image + offset;
+        term = high > low ? (length(z) - low) / (high - low) : 0.0;
+    } else {
+        vec2 turn = cdiv(z - zPrev, zPrev - zPrev2);
+        term = dot(turn, turn) > 0.0 ? abs(atan(turn.y, turn.x)) / 3.14159265 : 0.0;
+    }
+    return vec3(average.x + term, average.x, average.z + 1.0);
+}
+
+// Colour of an escaped orbit's average: the means with and without the last term are mixed by
+// how far past the bailout |z|^2 = 256 it landed, then blended toward the escape time t
+vec3 averageColor(vec3 average, vec2 z, float t) {
+    if (average.z < 2.0) return samplePalette(t);
+    float last = average.x / average.z;
+    float before = average.y / (average.z - 1.0);
+    float fraction = clamp(log2(log(dot(z, z)) / log(256.0)), 0.0, 1.0);
+    return samplePalette(mix(mix(last, before, fraction), t, uAverageBlend));
+}
+
+// Interior colour, tinted by the period when one was detected
+vec3 interiorColor(int period) {
+    if (period == 0) return uInteriorColor;
+    return mix(uInteriorColor, paletteColor(fract(float(period) * 0.618034)), 0.35);
+}
+
 `;
 
 // Create custom Mandelbrot material with complex exponent control via uX uniform
@@ -215,14 +406,37 @@ void main() {
 
             int result = 0;
             vec2 z = uZ0;
-            for (int i = 1; i <= MAX_ITERS; i++) {  
-                if (i > uIters) { result = i; break; }
+            int nearestStep = 0; // atom domain: step at which |z| was smallest
+            float nearest = 1e20;
+            float trap = TRAP_MISS;
+            vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+            vec2 zPrev = z;
+            vec2 zPrev2 = z;
+            int period = 0;
+            // The main cardioid and period-2 bulb need no iterating, unless an orbit trap needs the orbit
+            if (uZ0 == vec2(0.0) && uX == vec2(2.0, 0.0) && uColoring != COLORING_ORBIT_TRAP) period = mandelbrotComponent(c);
+            vec2 saved = z;
+            int savedAt = 0;
+            int window = 1;
+            for (int i = 1; i <= MAX_ITERS; i++) {
+                if (i > uIters || period > 0) { result = i; break; }
                 if (dot(z, z) >= 256.0) {result = i; break;}
+                zPrev2 = zPrev;
+                zPrev = z;
                 z = cpow(z, uX) + c;  // Use complex exponentiation with uX
+                if (dot(z, z) < nearest) { nearest = dot(z, z); nearestStep = i; }
+                if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(z, trap);
+                if (averagingColoring()) average = addAverageTerm(average, i, z, zPrev, zPrev2, c);
+                period = periodCheck(z, i, saved, savedAt, window);
             }
 
             // Smooth gradient coloring via palette with exponent-aware smoothing
-            if (dot(z, z) >= 256.0) {
+            if (uColoring == COLORING_ATOM_DOMAIN) {
+                // Points skipped by the component tests take its period
+                gl_FragColor.rgb += atomDomainColor(nearestStep > 0 ? nearestStep : period, nearest);
+            } else if (uColoring == COLORING_ORBIT_TRAP) {
+                gl_FragColor.rgb += orbitTrapColor(trap);
+            } else if (dot(z, z) >= 256.0) {
                 // Calculate the exponent magnitude for smooth transition
                 float expMag = length(uX);
                 
@@ -238,9 +452,10 @@ void main() {
                 float nu = mix(noSmoothVal, smoothVal, blendFactor);
                 
                 float t = clamp(nu / max(float(uIters), 1.0), 0.0, 1.0);
-                gl_FragColor.rgb += samplePalette(t);
+                gl_FragColor.rgb += averagingColoring() ? averageColor(average, z, t) : samplePalette(t);
             } else {
                 insideAccum += 1.0;
+                if (uInteriorEnabled == 1) gl_FragColor.rgb += interiorColor(period);
             }
         }
     }
@@ -254,6 +469,143 @@ void main() {
   });
 };
 
+// Fragment shaders for user equations, keyed by the normalized equation text
+const equationShaderCache = new Map<string, string>();
+
+// Parameter names are part of the key since each one becomes a uniform; ranges and defaults are not
+const equationCacheKey = (
+  ast: EquationNode,
+  declarations: ParameterDeclaration[],
+  definitions: EquationDefinition[] = [],
+  conditions?: StopConditions
+): string =>
+  [
+    ...declarations.map((decl) => `${decl.name};`),
+    ...definitions.map(formatDefinition),
+    formatEquation(ast),
+    conditions?.escape ? `escape ${formatCondition(conditions.escape)}` : '',
+    conditions?.until ? `until ${formatCondition(conditions.until)}` : '',
+  ].filter(Boolean).join(' ');
+
+// Declared parameters start at their defaults; the renderer updates them from the sliders
+const createParameterUniforms = (declarations: ParameterDeclaration[]): Record<string, { value: THREE.Vector2 }> =>
+  Object.fromEntries(declarations.map((decl) => [
+    parameterUniform(decl.name),
+    { value: new THREE.Vector2(decl.default.re, decl.default.im) },
+  ]));
+
+// Escaped points get smooth iteration colouring, converged points (until) are shaded by
+// their final angle and convergence speed, as in the Newton shader
+const buildEquationShader = (
+  label: string,
+  parameters: string,
+  { functions, step: body, escape, until }: GlslProgram,
+  degree: string | null
+): string => `// Custom equation: ${label.replace(/\n/g, ' ')}${fragmentShaderTopShared}
+#define ANTIALIAS_LEVEL 1
+${parameters}
+
+${functions}
+
+vec2 equationStep(vec2 z, vec2 zPrev, vec2 c) {
+    ${body.statements.join('\n    ')}
+    return ${body.result};
+}
+
+bool escapeTest(vec2 z, vec2 zPrev, vec2 c) {
+    ${escape ? `${escape.statements.join('\n    ')}
+    return ${escape.result};` : 'return dot(z, z) >= 256.0;'}
+}
+
+bool untilTest(vec2 z, vec2 zPrev, vec2 c) {
+    ${until ? `${until.statements.join('\n    ')}
+    return ${until.result};` : 'return false;'}
+}
+
+void main() {
+	vec2 worldCoord = vec2(coord.x * (resolution.x / resolution.y), coord.y) * scale + offset;
+	gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+
+	const float aa = float(ANTIALIAS_LEVEL);
+	vec2 cellSize = scale / resolution;
+	for (float y = 0.0; y < 1.0; y += 1.0 / aa) {
+		for (float x = 0.0; x < 1.0; x += 1.0 / aa) {
+            vec2 c = vec2(worldCoord.x + x * cellSize.x, worldCoord.y + y * cellSize.y) + uC;
+
+            int result = 0;
+            bool escaped = false;
+            bool converged = false;
+            vec2 z = uZ0;
+            vec2 zPrev = uZ0;
+            vec2 zPrev2 = uZ0;
+            float trap = TRAP_MISS;
+            vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+            for (int i = 1; i <= MAX_ITERS; i++) {
+                result = i;
+                if (i > uIters) break;
+                if (escapeTest(z, zPrev, c)) { escaped = true; break; }
+                vec2 zNext = equationStep(z, zPrev, c);
+                zPrev2 = zPrev;
+                zPrev = z;
+                z = zNext;
+                if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(z, trap);
+                if (averagingColoring()) average = addAverageTerm(average, i, z, zPrev, zPrev2, c);
+                if (untilTest(z, zPrev, c)) { converged = true; break; }
+            }
+            if (!escaped && !converged) escaped = escapeTest(z, zPrev, c);
+
+            if (uColoring == COLORING_ORBIT_TRAP) {
+                gl_FragColor.rgb += orbitTrapColor(trap);
+            } else if (escaped) {
+                float noSmoothVal = float(result);
+${degree === null ? `                float nu = noSmoothVal;` : `                // Smoothing assumes |z| grows like |z|^d near escape
+                float d = ${degree};
+                float smoothVal = float(result) - log(max(log(length(z)), 1e-6) / log(256.0)) / log(max(d, 1.0001));
+                float nu = mix(noSmoothVal, smoothVal, smoothstep(0.8, 1.5, d));`}
+                float t = clamp(nu / max(float(uIters), 1.0), 0.0, 1.0);
+                gl_FragColor.rgb += averagingColoring() ? averageColor(average, z, t) : samplePalette(t);
+            } else if (converged) {
+                float speed = float(result) / max(float(uIters), 1.0);
+                gl_FragColor.rgb += paletteColor(fract(atan(z.y, z.x) / 6.28318 + 1.0)) * (1.0 - 0.7 * sqrt(speed));
+            }
+        }
+    }
+
+    gl_FragColor.rgb /= aa * aa;
+
+    // Apply complex plane grid overlay
+    gl_FragColor.rgb = applyGrid(gl_FragColor.rgb, worldCoord);
+}`;
+
+// Material for a user-typed equation, iterated as z = f(z, c) from z0 with c = pixel + c slider
+// Returns null when the equation cannot be parsed or compiled
+export const createEquationMaterial = (equation: string): THREE.RawShaderMaterial | null => {
+    const { ast, declarations, definitions, conditions } = parseEquationAst(equation.trim());
+    if (!ast) return null;
+
+    const key = equationCacheKey(ast, declarations, definitions, conditions);
+    let fragmentShader = equationShaderCache.get(key);
+    if (!fragmentShader) {
+        try {
+            fragmentShader = buildEquationShader(
+                key,
+                parameterUniformSource(declarations),
+                compileProgramToGlsl(ast, definitions, conditions, parameterSymbols(declarations)),
+                estimateEscapeDegree(expandDefinitions(ast, definitions))
+            );
+        } catch {
+            return null;
+        }
+        equationShaderCache.set(key, fragmentShader);
+    }
+
+    return new THREE.RawShaderMaterial({
+        uniforms: { ...createDefaultUniforms(), ...createParameterUniforms(declarations) },
+        vertexShader: defaultVertexShader,
+        fragmentShader,
+    });
+};
+
 // Debug gradient material: visualize domain mapping and palette
 export const createDebugGradientMaterial = (): THREE.RawShaderMaterial => {
     return new THREE.RawShaderMaterial({
@@ -620,6 +972,241 @@ void main() {
   });
 };
 
+// Delta iterations: with the pixel's offset from the reference delta = d * 2^e, each returns
+// the next d given the reference point Z and moves e to the exponent of its largest term.
+// The pixel's c offset is dc * 2^dcE. Terms are only ever shifted into the new units, so
+// none of them, nor 2^e itself, has to exist as a bare float once e is past float range.
+const perturbationSteps: Record<PerturbationKind, string> = {
+  // (Z + delta)^2 - Z^2 = 2 Z delta + delta^2
+  mandelbrot: `
+vec2 deltaStep(vec2 Z, vec2 d, inout float e, vec2 dc, float dcE) {
+    vec2 linear = 2.0 * cmul(Z, d);
+    vec2 square = cmul(d, d);
+    float next = floor(max(magnitudeExponent(linear, e), max(magnitudeExponent(square, 2.0 * e), magnitudeExponent(dc, dcE))));
+    vec2 w = shifted(linear, e - next) + shifted(square, 2.0 * e - next) + shifted(dc, dcE - next);
+    e = next;
+    return w;
+}`,
+  // The conjugate of the Mandelbrot delta
+  tricorn: `
+vec2 deltaStep(vec2 Z, vec2 d, inout float e, vec2 dc, float dcE) {
+    vec2 linear = 2.0 * cmul(Z, d);
+    vec2 square = cmul(d, d);
+    float next = floor(max(magnitudeExponent(linear, e), max(magnitudeExponent(square, 2.0 * e), magnitudeExponent(dc, dcE))));
+    vec2 w = shifted(linear, e - next) + shifted(square, 2.0 * e - next);
+    e = next;
+    return vec2(w.x, -w.y) + shifted(dc, dcE - next);
+}`,
+  // The real part squares away the absolute values; the imaginary part needs
+  // |c + d| - |c| without cancellation (diffabs), taken here in units of 2^e
+  burningship: `
+float diffabsScaled(float c, float ds, float e) {
+    if (c == 0.0) return abs(ds);
+    // c + ds * 2^e changes sign only when the offset outweighs c; compared by exponent
+    if (ds == 0.0 || sign(ds) == sign(c) || log2(abs(ds)) + e <= log2(abs(c))) {
+        return c > 0.0 ? ds : -ds;
+    }
+    // c / (ds * 2^e), which lies in (-1, 0) here
+    float ratio = -exp2(log2(abs(c)) - log2(abs(ds)) - e);
+    return c > 0.0 ? -2.0 * ratio * ds - ds : 2.0 * ratio * ds + ds;
+}
+
+vec2 deltaStep(vec2 Z, vec2 d, inout float e, vec2 dc, float dcE) {
+    // Z delta in units of 2^e and delta^2 in units of 2^2e, real and imaginary parts apart
+    vec2 linear = vec2(Z.x * d.x - Z.y * d.y, Z.x * d.y + Z.y * d.x);
+    vec2 square = vec2(d.x * d.x - d.y * d.y, d.x * d.y);
+    float next = floor(max(magnitudeExponent(linear, e) + 1.0, max(magnitudeExponent(square, 2.0 * e) + 1.0, magnitudeExponent(dc, dcE))));
+    vec2 l = shifted(linear, e - next);
+    vec2 q = shifted(square, 2.0 * e - next);
+    float dx = 2.0 * l.x + q.x;
+    float dy = 2.0 * diffabsScaled(Z.x * Z.y, l.y + q.y, next);
+    e = next;
+    return vec2(dx, dy) + shifted(dc, dcE - next);
+}`,
+};
+
+// Series approximation: delta at the skipped step as sum of uSeries[t] u^i conj(u)^j,
+// with powers built up once and shared between terms
+const buildSeriesGlsl = (terms: SeriesTerm[]): string => {
+  const maxI = Math.max(0, ...terms.map(([i]) => i));
+  const maxJ = Math.max(0, ...terms.map(([, j]) => j));
+  const lines = ['vec2 v1 = vec2(u.x, -u.y);', 'vec2 u1 = u;'];
+  for (let k = 2; k <= maxI; k++) lines.push(`vec2 u${k} = cmul(u${k - 1}, u);`);
+  for (let k = 2; k <= maxJ; k++) lines.push(`vec2 v${k} = cmul(v${k - 1}, v1);`);
+  lines.push('vec2 s = vec2(0.0);');
+  terms.forEach(([i, j], t) => {
+    const monomial = i > 0 && j > 0 ? `cmul(u${i}, v${j})` : i > 0 ? `u${i}` : `v${j}`;
+    lines.push(`s += cmul(uSeries[${t}], ${monomial});`);
+  });
+  lines.push('return s;');
+  return `vec2 seriesDelta(vec2 u) {\n    ${lines.join('\n    ')}\n}`;
+};
+
+// Perturbation deep zoom for the Mandelbrot, Burning Ship and Tricorn
+// The reference orbit through the view centre comes from computeReferenceOrbit in uRefOrbit;
+// pixels iterate their offset from it as a mantissa and power-of-two exponent so that
+// zooms far below float range keep full precision. Pixels start uSeriesSkip iterations in,
+// from the series approximation. The renderer picks this material past PERTURBATION_ZOOM.
+export const createPerturbationMaterial = (kind: PerturbationKind): THREE.RawShaderMaterial => {
+  const reference = new THREE.DataTexture(
+    new Float32Array(REFERENCE_ORBIT_CAPACITY * 4),
+    REFERENCE_TEXTURE_WIDTH,
+    REFERENCE_TEXTURE_HEIGHT,
+    THREE.RGBAFormat,
+    THREE.FloatType
+  );
+  const terms = SERIES_TERMS[kind];
+  // The Burning Ship shader has no atom domain colouring
+  const atomDomain = kind !== 'burningship';
+  // Colourings that follow the whole orbit, including the steps the series skips
+  const wholeOrbit = [atomDomain && 'uColoring == COLORING_ATOM_DOMAIN', 'uColoring == COLORING_ORBIT_TRAP', 'averagingColoring()']
+    .filter(Boolean)
+    .join(' || ');
+  // Colouring of the orbit at step k, the same as the direct shaders do it
+  const colourStep = (z: string) => [
+    atomDomain ? `if (dot(${z}, ${z}) < nearest) { nearest = dot(${z}, ${z}); nearestStep = k; }` : '',
+    // The Burning Ship orbit lives in the flipped plane; flip it back to meet the trap where it is drawn
+    `if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(${kind === 'burningship' ? `vec2(${z}.x, -${z}.y)` : z}, trap);`,
+    `if (averagingColoring()) average = addAverageTerm(average, k, ${z}, zPrev, zPrev2, c);`,
+    `zPrev2 = zPrev;`,
+    `zPrev = ${z};`,
+  ].filter(Boolean).join('\n            ');
+  // The reference's c, from its first step off its start
+  const referenceC = {
+    mandelbrot: 'referenceAt(1.0) - cmul(referenceAt(0.0), referenceAt(0.0))',
+    burningship: 'referenceAt(1.0) - cmul(abs(referenceAt(0.0)), abs(referenceAt(0.0)))',
+    tricorn: 'referenceAt(1.0)',
+  }[kind];
+  const material = new THREE.RawShaderMaterial({
+    uniforms: {
+      ...createDefaultUniforms(),
+      uRefOrbit: { value: reference },
+      uRefLength: { value: 1 },
+      uScaleMantissa: { value: 1 },
+      uScaleExponent: { value: 0 },
+      uSeries: { value: Array.from({ length: Math.max(1, terms.length) }, () => new THREE.Vector2()) },
+      uSeriesExponent: { value: 0 },
+      uSeriesSkip: { value: 0 },
+    },
+    vertexShader: defaultVertexShader,
+    fragmentShader: `// Perturbation deep zoom: ${kind}${fragmentShaderTopShared}
+uniform sampler2D uRefOrbit; // reference z per step in red/green
+uniform float uRefLength; // stored reference points
+uniform float uScaleMantissa; // scale = uScaleMantissa * 2^uScaleExponent
+uniform float uScaleExponent;
+uniform vec2 uSeries[${Math.max(1, terms.length)}]; // series coefficients as mantissas of 2^uSeriesExponent
+uniform float uSeriesExponent;
+uniform int uSeriesSkip; // iterations the series covers
+
+#define REF_WIDTH ${glslFloat(REFERENCE_TEXTURE_WIDTH)}
+#define REF_HEIGHT ${glslFloat(REFERENCE_TEXTURE_HEIGHT)}
+
+vec2 referenceAt(float i) {
+    vec2 texel = vec2(mod(i, REF_WIDTH), floor(i / REF_WIDTH)) + 0.5;
+    return texture2D(uRefOrbit, texel / vec2(REF_WIDTH, REF_HEIGHT)).xy;
+}
+
+// log2 of the larger component of m * 2^e, or far below any real term when m is 0
+float magnitudeExponent(vec2 m, float e) {
+    float a = max(abs(m.x), abs(m.y));
+    return a > 0.0 ? e + log2(a) : -1e30;
+}
+
+// m * 2^shift; shifts past float range only ever meet terms too small to matter
+vec2 shifted(vec2 m, float shift) {
+    return m * exp2(clamp(shift, -149.0, 127.0));
+}
+${perturbationSteps[kind]}
+
+${terms.length > 0 ? buildSeriesGlsl(terms) : 'vec2 seriesDelta(vec2 u) {\n    return vec2(0.0);\n}'}
+
+void main() {
+    // Offset of the pixel's c from the reference, as mantissa * 2^uScaleExponent
+    vec2 dc = vec2(coord.x * (resolution.x / resolution.y), coord.y) * uScaleMantissa;
+    ${kind === 'burningship' ? 'dc.y = -dc.y; // the Burning Ship flips the imaginary axis' : ''}
+
+    // Start where the series leaves off: z - Z = d * 2^e
+    vec2 u = dc / (uScaleMantissa * length(vec2(resolution.x / resolution.y, 1.0)));
+    vec2 d = seriesDelta(u);
+    float e = uSeriesExponent;
+    float ref = float(uSeriesSkip);
+    vec2 z = referenceAt(0.0);
+    int result = 0;
+    int nearestStep = 0; // atom domain: step at which |z| was smallest
+    float nearest = 1e20;
+    float trap = TRAP_MISS;
+    vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+    vec2 zPrev = z;
+    vec2 zPrev2 = z;
+    // The pixel's c for the averaging colourings; float keeps only its leading digits
+    vec2 c = ${referenceC} + dc * exp2(uScaleExponent);
+    int period = 0;
+    vec2 saved = vec2(16.0); // past the escape radius, so nothing matches before the first save
+    int savedAt = uSeriesSkip;
+    int window = 1;
+
+    ${wholeOrbit ? `// The steps the series skips differ from the reference by less than float precision,
+    // so colourings that follow the whole orbit read those from the reference
+    if (${wholeOrbit}) {
+        for (int k = 1; k < MAX_ITERS; k++) {
+            if (k >= uSeriesSkip) break;
+            vec2 Z = referenceAt(float(k));
+            ${colourStep('Z')}
+        }
+    }` : ''}
+
+    for (int n = 0; n < MAX_ITERS; n++) {
+        int i = uSeriesSkip + n + 1;
+        if (i > uIters) { result = i; break; }
+        vec2 Z = referenceAt(ref);
+        z = Z + d * exp2(e);
+
+        // z is step k of the orbit. Float z is coarser than the pixels here, so a detected
+        // period only tints the interior; the orbit runs on in case it escapes after all.
+        int k = i - 1;
+        if (k > 0) {
+            ${colourStep('z')}
+            if (period == 0) period = periodCheck(z, k, saved, savedAt, window);
+        }
+        if (dot(z, z) >= 256.0) { result = i; break; }
+
+        // Rebase onto the start of the reference once the pixel's orbit comes nearer 0 than
+        // the reference does, or the reference has escaped. |z| < |delta| is compared by
+        // exponent, as delta may be far below float range.
+        float zNorm = dot(z, z);
+        float dNorm = dot(d, d);
+        bool nearer = dNorm > 0.0 && (zNorm == 0.0 || log2(zNorm) < log2(dNorm) + 2.0 * e);
+        if (nearer || ref >= uRefLength - 1.0) {
+            vec2 Z0 = referenceAt(0.0);
+            float next = floor(max(magnitudeExponent(Z - Z0, 0.0), magnitudeExponent(d, e)));
+            d = shifted(Z - Z0, -next) + shifted(d, e - next);
+            e = next;
+            Z = Z0;
+            ref = 0.0;
+        }
+
+        d = deltaStep(Z, d, e, dc, uScaleExponent);
+        ref += 1.0;
+    }
+
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    ${atomDomain ? `if (uColoring == COLORING_ATOM_DOMAIN) {
+        gl_FragColor.rgb = atomDomainColor(nearestStep, nearest);
+    } else ` : ''}if (uColoring == COLORING_ORBIT_TRAP) {
+        gl_FragColor.rgb = orbitTrapColor(trap);
+    } else if (dot(z, z) >= 256.0) {
+        float nu = float(result) - log2(log(length(z)) / log(256.0));
+        float t = clamp(nu / float(uIters), 0.0, 1.0);
+        gl_FragColor.rgb = averagingColoring() ? averageColor(average, z, t) : samplePalette(t);
+    } else if (uInteriorEnabled == 1) {
+        gl_FragColor.rgb = interiorColor(period);
+    }
+}`,
+  });
+  material.userData.perturbation = kind;
+  return material;
+};
+
 // Burning Ship
 export const createBurningShipMaterial = (): THREE.RawShaderMaterial => {
   return new THREE.RawShaderMaterial({
@@ -641,20 +1228,36 @@ void main() {
 
             int result = 0;
             vec2 z = uZ0; // Initial z from sliders
-            for (int i = 1; i <= MAX_ITERS; i++) {  
-                if (i > uIters) { result = i; break; }
+            float trap = TRAP_MISS;
+            vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+            vec2 zPrev = z;
+            vec2 zPrev2 = z;
+            int period = 0;
+            vec2 saved = z;
+            int savedAt = 0;
+            int window = 1;
+            for (int i = 1; i <= MAX_ITERS; i++) {
+                if (i > uIters || period > 0) { result = i; break; }
                 if (dot(z, z) >= 256.0) {result = i; break;}
+                zPrev2 = zPrev;
+                zPrev = z;
                 z = cabs(z); // |Re(z)| + i|Im(z)|
                 z = cpow(z, uX) + c; // z^x + c with parameterized exponent
+                period = periodCheck(z, i, saved, savedAt, window);
+                // The orbit lives in the flipped plane; flip it back to meet the trap where it is drawn
+                if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(vec2(z.x, -z.y), trap);
+                if (averagingColoring()) average = addAverageTerm(average, i, z, zPrev, zPrev2, c);
             }
 
-            if (dot(z, z) >= 256.0) {
+            if (uColoring == COLORING_ORBIT_TRAP) {
+                gl_FragColor.rgb += orbitTrapColor(trap);
+            } else if (dot(z, z) >= 256.0) {
                 float logBase = max(abs(uX.x), 2.0);
                 float nu = float(result) - log(log(length(z)) / log(256.0)) / log(logBase);
                 float t = clamp(nu / float(uIters), 0.0, 1.0);
-                gl_FragColor.rgb += samplePalette(t);
+                gl_FragColor.rgb += averagingColoring() ? averageColor(average, z, t) : samplePalette(t);
             } else if (uInteriorEnabled == 1) {
-                gl_FragColor.rgb += uInteriorColor;
+                gl_FragColor.rgb += interiorColor(period);
             }
         }
     }
@@ -685,20 +1288,35 @@ void main() {
 
             int result = 0;
             vec2 z = uZ0; // Initial z from sliders
-            for (int i = 1; i <= MAX_ITERS; i++) {  
-                if (i > uIters) { result = i; break; }
+            float trap = TRAP_MISS;
+            vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+            vec2 zPrev = z;
+            vec2 zPrev2 = z;
+            int period = 0;
+            vec2 saved = z;
+            int savedAt = 0;
+            int window = 1;
+            for (int i = 1; i <= MAX_ITERS; i++) {
+                if (i > uIters || period > 0) { result = i; break; }
                 if (dot(z, z) >= 256.0) {result = i; break;}
+                zPrev2 = zPrev;
+                zPrev = z;
                 z.x = abs(z.x); // Only real part absolute
                 z = cpow(z, uX) + c; // z^x + c with parameterized exponent
+                period = periodCheck(z, i, saved, savedAt, window);
+                if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(vec2(z.x, -z.y), trap);
+                if (averagingColoring()) average = addAverageTerm(average, i, z, zPrev, zPrev2, c);
             }
 
-            if (dot(z, z) >= 256.0) {
+            if (uColoring == COLORING_ORBIT_TRAP) {
+                gl_FragColor.rgb += orbitTrapColor(trap);
+            } else if (dot(z, z) >= 256.0) {
                 float logBase = max(abs(uX.x), 2.0);
                 float nu = float(result) - log(log(length(z)) / log(256.0)) / log(logBase);
                 float t = clamp(nu / float(uIters), 0.0, 1.0);
-                gl_FragColor.rgb += samplePalette(t);
+                gl_FragColor.rgb += averagingColoring() ? averageColor(average, z, t) : samplePalette(t);
             } else if (uInteriorEnabled == 1) {
-                gl_FragColor.rgb += uInteriorColor;
+                gl_FragColor.rgb += interiorColor(period);
             }
         }
     }
@@ -769,13 +1387,33 @@ void main() {
             
             int result = 0;
             vec2 c = uC; // Julia set uses constant c from sliders
+            int nearestStep = 0; // atom domain: step at which |z| was smallest
+            float nearest = 1e20;
+            float trap = TRAP_MISS;
+            vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+            vec2 zPrev = z;
+            vec2 zPrev2 = z;
+            int period = 0;
+            vec2 saved = z;
+            int savedAt = 0;
+            int window = 1;
             for (int i = 1; i <= MAX_ITERS; i++) {
-                if (i > uIters) { result = i; break; }
+                if (i > uIters || period > 0) { result = i; break; }
                 if (dot(z, z) >= 256.0) {result = i; break;}
+                zPrev2 = zPrev;
+                zPrev = z;
                 z = cpow(z, uX) + c;  // Use complex exponentiation
+                if (dot(z, z) < nearest) { nearest = dot(z, z); nearestStep = i; }
+                if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(z, trap);
+                if (averagingColoring()) average = addAverageTerm(average, i, z, zPrev, zPrev2, c);
+                period = periodCheck(z, i, saved, savedAt, window);
             }
 
-            if (dot(z, z) >= 256.0) {
+            if (uColoring == COLORING_ATOM_DOMAIN) {
+                gl_FragColor.rgb += atomDomainColor(nearestStep, nearest);
+            } else if (uColoring == COLORING_ORBIT_TRAP) {
+                gl_FragColor.rgb += orbitTrapColor(trap);
+            } else if (dot(z, z) >= 256.0) {
                 // Exponent-aware smoothing for better rendering at low exponents
                 float expMag = length(uX);
                 float smoothVal = float(result) - log2(log(length(z)) / log(256.0));
@@ -784,7 +1422,9 @@ void main() {
                 float nu = mix(noSmoothVal, smoothVal, blendFactor);
                 
                 float t = clamp(nu / float(uIters), 0.0, 1.0);
-                gl_FragColor.rgb += paletteColor(t);
+                gl_FragColor.rgb += averagingColoring() ? averageColor(average, z, t) : paletteColor(t);
+            } else if (uInteriorEnabled == 1) {
+                gl_FragColor.rgb += interiorColor(period);
             }
         }
     }
@@ -919,19 +1559,40 @@ void main() {
 
             int result = 0;
             vec2 z = vec2(0.0, 0.0);
-            for (int i = 1; i <= MAX_ITERS; i++) {  
-                if (i > uIters) { result = i; break; }
+            int nearestStep = 0; // atom domain: step at which |z| was smallest
+            float nearest = 1e20;
+            float trap = TRAP_MISS;
+            vec3 average = vec3(0.0); // averaging colourings: sum, sum before the last term, terms
+            vec2 zPrev = z;
+            vec2 zPrev2 = z;
+            int period = 0;
+            vec2 saved = z;
+            int savedAt = 0;
+            int window = 1;
+            for (int i = 1; i <= MAX_ITERS; i++) {
+                if (i > uIters || period > 0) { result = i; break; }
                 if (dot(z, z) >= 256.0) {result = i; break;}
+                zPrev2 = zPrev;
+                zPrev = z;
                 // Conjugate: z̄² = (x - iy)² = x² - y² - 2ixy
                 z = vec2(z.x * z.x - z.y * z.y, -2.0 * z.x * z.y) + c;  
+                if (dot(z, z) < nearest) { nearest = dot(z, z); nearestStep = i; }
+                if (uColoring == COLORING_ORBIT_TRAP) trap = orbitTrap(z, trap);
+                if (averagingColoring()) average = addAverageTerm(average, i, z, zPrev, zPrev2, c);
+                period = periodCheck(z, i, saved, savedAt, window);
             }
 
-            if (dot(z, z) >= 256.0) {
+            if (uColoring == COLORING_ATOM_DOMAIN) {
+                gl_FragColor.rgb += atomDomainColor(nearestStep, nearest);
+            } else if (uColoring == COLORING_ORBIT_TRAP) {
+                gl_FragColor.rgb += orbitTrapColor(trap);
+            } else if (dot(z, z) >= 256.0) {
                 float nu = float(result) - log2(log(length(z)) / log(256.0));
                 float t = clamp(nu / float(uIters), 0.0, 1.0);
-                gl_FragColor.rgb += samplePalette(t);
+                gl_FragColor.rgb += averagingColoring() ? averageColor(average, z, t) : samplePalette(t);
             } else {
                 insideAccum += 1.0;
+                if (uInteriorEnabled == 1) gl_FragColor.rgb += interiorColor(period);
             }
         }
     }
@@ -945,14 +1606,29 @@ void main() {
   });
 };
 
-// Newton's Fractal - Newton-Raphson root finding for z³ - 1
-export const createNewtonMaterial = (): THREE.RawShaderMaterial => {
-  return new THREE.RawShaderMaterial({
-    uniforms: createDefaultUniforms(),
-    vertexShader: defaultVertexShader,
-        fragmentShader: `// Newton's fractal for z³ - 1 = 0${fragmentShaderTopShared}
+// Newton's Fractal - Newton-Raphson root finding for a user-entered f(z)
+// f'(z) is derived symbolically; uRelax scales the step (relaxed Newton, 1 = classic)
+// Converged points are coloured by the basin of the nearest root in uRoots
+export const DEFAULT_NEWTON_EQUATION = 'z^3 - 1';
+
+const buildNewtonShader = (label: string, parameters: string, f: GlslEquation, derivative: GlslEquation): string => `// Newton's fractal for f(z) = ${label.replace(/\n/g, ' ')}${fragmentShaderTopShared}
 #define ANTIALIAS_LEVEL 1
-#define ITERATIONS 50
+#define MAX_ROOTS ${MAX_NEWTON_ROOTS}
+${parameters}
+
+uniform float uRelax; // relaxation factor a in z - a f(z)/f'(z)
+uniform vec2 uRoots[MAX_ROOTS]; // roots located on the CPU
+uniform int uRootCount;
+
+vec2 newtonF(vec2 z, vec2 c) {
+    ${f.statements.join('\n    ')}
+    return ${f.result};
+}
+
+vec2 newtonDF(vec2 z, vec2 c) {
+    ${derivative.statements.join('\n    ')}
+    return ${derivative.result};
+}
 
 void main() {
 	vec2 worldCoord = vec2(coord.x * (resolution.x / resolution.y), coord.y) * scale + offset;
@@ -964,36 +1640,36 @@ void main() {
 		for (float x = 0.0; x < 1.0; x += 1.0 / aa) {
             vec2 z = vec2(worldCoord.x + x * cellSize.x, worldCoord.y + y * cellSize.y);
 
-            int result = 0;
-            for (int i = 0; i < ITERATIONS; i++) {
-                // f(z) = z³ - 1
-                vec2 z2 = cmul(z, z);
-                vec2 z3 = cmul(z2, z);
-                vec2 fz = z3 - vec2(1.0, 0.0);
-                
-                // f'(z) = 3z²
-                vec2 fpz = vec2(3.0, 0.0);
-                fpz = cmul(fpz, z2);
-                
-                // Newton: z_new = z - f(z)/f'(z)
-                vec2 delta = cdiv(fz, fpz);
-                z = z - delta;
-                
-                if (length(delta) < 0.0001) {
-                    result = i;
-                    break;
-                }
+            int steps = 0;
+            bool converged = false;
+            for (int i = 1; i <= MAX_ITERS; i++) {
+                if (i > uIters) break;
+                // Newton: z_new = z - a f(z)/f'(z)
+                vec2 delta = uRelax * cdiv(newtonF(z, uC), newtonDF(z, uC));
+                z -= delta;
+                steps = i;
+                if (dot(delta, delta) < ${glslFloat(NEWTON_TOLERANCE * NEWTON_TOLERANCE)}) { converged = true; break; }
             }
 
-            // Color based on which root we converged to
-            // Three cube roots of unity: 1, e^(2πi/3), e^(4πi/3)
-            float angle = atan(z.y, z.x);
-            float root = mod(angle + 3.14159, 6.28318) / 2.09439; // Normalize to 0-3
-            
-                        // Map to palette using angle and speed for subtle variation
-                        float convergenceSpeed = float(result) / float(ITERATIONS);
-                        float t = clamp((root / 3.0) * 0.6 + (1.0 - convergenceSpeed) * 0.4, 0.0, 1.0);
-                        gl_FragColor.rgb += paletteColor(t);
+            if (converged) {
+                // Basin of the nearest known root
+                int basin = -1;
+                float best = 1e-4;
+                for (int k = 0; k < MAX_ROOTS; k++) {
+                    if (k >= uRootCount) break;
+                    vec2 d = z - uRoots[k];
+                    float dist = dot(d, d);
+                    if (dist < best) { best = dist; basin = k; }
+                }
+
+                // Roots the CPU missed still get a stable colour from their angle
+                float t = basin >= 0
+                    ? (float(basin) + 0.5) / float(uRootCount)
+                    : fract(atan(z.y, z.x) / 6.28318 + 1.0);
+                // Slow convergence darkens toward the basin boundaries
+                float speed = float(steps) / max(float(uIters), 1.0);
+                gl_FragColor.rgb += paletteColor(t) * (1.0 - 0.7 * sqrt(speed));
+            }
         }
     }
 
@@ -1001,10 +1677,53 @@ void main() {
     
     // Apply complex plane grid overlay
     gl_FragColor.rgb = applyGrid(gl_FragColor.rgb, worldCoord);
-}`
-  });
+}`;
+
+const createNewtonUniforms = (): ShaderUniforms => ({
+  ...createDefaultUniforms(),
+  uRelax: { value: 1.0 },
+  uRoots: { value: Array.from({ length: MAX_NEWTON_ROOTS }, () => new THREE.Vector2(0, 0)) },
+  uRootCount: { value: 0 },
+});
+
+// Newton material for f(z); returns null when f cannot be parsed, differentiated or compiled
+export const createNewtonEquationMaterial = (equation: string): THREE.RawShaderMaterial | null => {
+    const parsed = parseEquationAst(equation.trim());
+    if (!parsed.ast) return null;
+    // Newton differentiates one self-contained f, with its own stopping rule and no previous iterate
+    const ast = expandDefinitions(parsed.ast, parsed.definitions);
+    const { declarations, conditions } = parsed;
+    if (conditions.escape || conditions.until || collectSymbols(ast).has('zPrev')) return null;
+
+    const key = `newton:${equationCacheKey(ast, declarations)}`;
+    let fragmentShader = equationShaderCache.get(key);
+    if (!fragmentShader) {
+        const { derivative } = differentiate(ast);
+        if (!derivative) return null;
+        try {
+            const symbols = parameterSymbols(declarations);
+            fragmentShader = buildNewtonShader(
+                formatEquation(ast),
+                parameterUniformSource(declarations),
+                compileEquationToGlsl(ast, symbols),
+                compileEquationToGlsl(derivative, symbols)
+            );
+        } catch {
+            return null;
+        }
+        equationShaderCache.set(key, fragmentShader);
+    }
+
+    return new THREE.RawShaderMaterial({
+        uniforms: { ...createNewtonUniforms(), ...createParameterUniforms(declarations) },
+        vertexShader: defaultVertexShader,
+        fragmentShader,
+    });
 };
 
+export const createNewtonMaterial = (): THREE.RawShaderMaterial =>
+  createNewtonEquationMaterial(DEFAULT_NEWTON_EQUATION) as THREE.RawShaderMaterial;
+
 // Collatz Fractal - Creates stunning spiraling structures
 // Based on the Collatz conjecture extended to complex plane
 export const createCollatzMaterial = (): THREE.RawShaderMaterial => {
@@ -1273,7 +1992,7 @@ export const materials = {
     paletteRamp: createPaletteRampMaterial,
     heatmap: createHeatmapMaterial,
     debug: createDebugGradientMaterial,
-  custom: createMandelbrotMaterial // Placeholder, will be overridden dynamically
+  custom: createCustomMaterial // Fallback; the renderer compiles the typed equation with createEquationMaterial
 } as const;
 
 export type MaterialKey = keyof typeof materials;